@@ -4,78 +4,71 @@ import StatisticsTable from './components/StatisticsTable';
 import ValidatorList from './components/ValidatorList';
 import ExitStatisticsTable from './components/ExitStatisticsTable';
 import ExitList from './components/ExitList';
+import ValidatorImport from './components/ValidatorImport';
 import ExitCSVUpload from './components/ExitCSVUpload';
+import ElExitRequestImport from './components/ElExitRequestImport';
+import LidoExitRequestImport from './components/LidoExitRequestImport';
+import ExitQueueChart from './components/ExitQueueChart';
 import Footer from './components/Footer';
+import SlashingAlerts from './components/SlashingAlerts';
+import SyncProgress, { SyncJob, isJobActive } from './components/SyncProgress';
+import { StatusCounts } from './lifecycle';
+import { subscribe } from './liveEvents';
 
 interface Statistics {
   byProvider: {
-    [key: string]: {
-      active: number;
-      exit_queue: number;
-      inactive: number;
-      total: number;
-    };
+    [key: string]: StatusCounts;
   };
   byBucket?: {
     [provider: string]: {
-      [bucketNo: string]: {
-        active: number;
-        exit_queue: number;
-        inactive: number;
-        total: number;
-      };
+      [bucketNo: string]: StatusCounts;
     };
   };
-  totals: {
-    total: number;
-    active: number;
-    exit_queue: number;
-    inactive: number;
-  };
+  totals: StatusCounts;
   lastUpdate?: string;
 }
 
+// Exit queue computed by the server from beacon data
+// source is 'unavailable' (all figures null) until a first computation succeeds;
+// stale marks figures kept from an earlier computation after a failed refresh
 interface ExitQueueInfo {
-  eth: number;
-  wait: string;
-  churn: string;
-  sweep_delay?: string;
+  source: 'beacon' | 'unavailable';
+  stale: boolean;
+  computed_at: string | null;
+  error?: string;
+  eth: number | null;
+  wait: string | null;
+  churn: string | null;
+  sweep_delay?: string | null;
 }
 
+interface SyncSchedule {
+  enabled: boolean;
+  mode: 'interval' | 'cron' | null;
+  cron: string | null;
+  intervalMinutes: number | null;
+  lastRun: string | null;
+  nextRun: string | null;
+}
+
+// Beacon state a manual sync reads from
+type SyncStateId = 'head' | 'finalized' | 'justified';
+
 interface ExitStatistics {
-  totals: {
-    total: number;
-    active: number;
-    exit_queue: number;
-    inactive: number;
-  };
-  byBatch: Array<{
+  totals: StatusCounts;
+  byBatch: Array<StatusCounts & {
     id: number;
     filename: string;
     uploaded_at: string;
-    total: number;
-    active: number;
-    exit_queue: number;
-    inactive: number;
   }>;
   byBatchDetail?: {
     [batchId: number]: {
       byProvider: {
-        [provider: string]: {
-          total: number;
-          active: number;
-          exit_queue: number;
-          inactive: number;
-        };
+        [provider: string]: StatusCounts;
       };
       byBucket: {
         [provider: string]: {
-          [bucketNo: string]: {
-            total: number;
-            active: number;
-            exit_queue: number;
-            inactive: number;
-          };
+          [bucketNo: string]: StatusCounts;
         };
       };
     };
@@ -96,6 +89,13 @@ function App() {
   const [filterBatchId, setFilterBatchId] = useState<number | undefined>(undefined);
   const [filterExitProvider, setFilterExitProvider] = useState<string>('');
   const [filterExitBucketNo, setFilterExitBucketNo] = useState<string>('');
+  const [validatorRefreshKey, setValidatorRefreshKey] = useState(0);
+  const [syncJobId, setSyncJobId] = useState<number | null>(null);
+  const [exitSyncJobId, setExitSyncJobId] = useState<number | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [exitSyncing, setExitSyncing] = useState(false);
+  const [syncSchedule, setSyncSchedule] = useState<SyncSchedule | null>(null);
+  const [syncStateId, setSyncStateId] = useState<SyncStateId>('head');
 
   const handleBucketClick = (provider: string, bucketNo: string) => {
     setFilterProvider(provider);
@@ -197,10 +197,74 @@ function App() {
     }
   };
 
+  const fetchSyncSchedule = async () => {
+    try {
+      const response = await fetch('/api/sync-schedule');
+      if (!response.ok) return;
+      setSyncSchedule(await response.json());
+    } catch (err) {
+      // Schedule info is optional, ignore
+    }
+  };
+
+  const formatDateTime = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    });
+  };
+
+  // Restore progress of sync jobs still running on the server (e.g. after a reload)
+  const fetchActiveSyncJobs = async () => {
+    try {
+      const response = await fetch('/api/sync-jobs?active=1');
+      if (!response.ok) return;
+      const { data } = await response.json();
+      (data as SyncJob[]).forEach((job) => {
+        if (job.type === 'exit') {
+          setExitSyncJobId(job.id);
+          setExitSyncing(true);
+        } else {
+          setSyncJobId(job.id);
+          setSyncing(true);
+        }
+      });
+    } catch (err) {
+      // Progress is optional, ignore
+    }
+  };
+
   useEffect(() => {
     // Load last synced statistics on initial mount
     fetchStatistics();
     fetchExitStatistics();
+    fetchActiveSyncJobs();
+    fetchSyncSchedule();
+  }, []);
+
+  useEffect(() => {
+    // Totals and job progress pushed by the server while syncs run
+    const unsubscribers = [
+      subscribe<Statistics>('statistics', setStatistics),
+      subscribe<ExitStatistics>('exit-statistics', setExitStatistics),
+      // Show progress of jobs started by other viewers or the schedule
+      subscribe<SyncJob>('sync-job', (job) => {
+        if (!isJobActive(job)) return;
+        if (job.type === 'exit') {
+          setExitSyncJobId(job.id);
+          setExitSyncing(true);
+        } else {
+          setSyncJobId(job.id);
+          setSyncing(true);
+        }
+      })
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   useEffect(() => {
@@ -212,41 +276,68 @@ function App() {
 
   const handleSyncStatuses = async () => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/sync-statuses', {
+      setSyncing(true);
+      const response = await fetch(`/api/sync-statuses?state_id=${syncStateId}`, {
         method: 'POST'
       });
       if (!response.ok) {
         throw new Error('Failed to sync statuses');
       }
-      await fetchStatistics();
+      const data = await response.json();
+      if (data.jobId && data.total > 0) {
+        setSyncJobId(data.jobId);
+      } else {
+        setSyncing(false);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sync statuses');
-    } finally {
-      setLoading(false);
+      setSyncing(false);
     }
   };
 
   const handleSyncExitStatuses = async () => {
     try {
-      setExitLoading(true);
-      const response = await fetch('/api/sync-exit-statuses', {
+      setExitSyncing(true);
+      const response = await fetch(`/api/sync-exit-statuses?state_id=${syncStateId}`, {
         method: 'POST'
       });
       if (!response.ok) {
         throw new Error('Failed to sync exit statuses');
       }
-      // Wait a bit for sync to start, then fetch statistics
-      setTimeout(() => {
-        fetchExitStatistics();
-      }, 2000);
+      const data = await response.json();
+      if (data.jobId && data.total > 0) {
+        setExitSyncJobId(data.jobId);
+      } else {
+        setExitSyncing(false);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sync exit statuses');
-    } finally {
-      setExitLoading(false);
+      setExitSyncing(false);
     }
   };
 
+  const handleSyncFinish = (job: SyncJob) => {
+    setSyncing(false);
+    if (job.status === 'failed' || job.status === 'partial') {
+      setError(`Validator sync #${job.id}: ${job.error || 'Sync failed'}`);
+    }
+    fetchStatistics();
+    fetchSyncSchedule();
+  };
+
+  const handleExitSyncFinish = (job: SyncJob) => {
+    setExitSyncing(false);
+    if (job.status === 'failed' || job.status === 'partial') {
+      setError(`Exit sync #${job.id}: ${job.error || 'Exit sync failed'}`);
+    }
+    fetchExitStatistics();
+  };
+
+  const handleValidatorImport = () => {
+    fetchStatistics();
+    setValidatorRefreshKey((key) => key + 1);
+  };
+
   const handleExitUpload = () => {
     fetchExitStatistics();
   };
@@ -272,30 +363,56 @@ function App() {
           <h1>Ethereum Exit Status</h1>
         </div>
         <div className="header-info">
-          {exitQueue && (
-            <div className="exit-queue-header">
-              <span>ETH: {exitQueue.eth.toLocaleString()}</span>
+          {exitQueue && (exitQueue.source === 'unavailable' ? (
+            <div className="exit-queue-header unavailable" title={exitQueue.error}>
+              Exit queue unavailable
+            </div>
+          ) : (
+            <div
+              className={`exit-queue-header ${exitQueue.stale ? 'stale' : ''}`}
+              title={[
+                exitQueue.churn && `Churn: ${exitQueue.churn}`,
+                exitQueue.computed_at && `Computed: ${formatDateTime(exitQueue.computed_at)}`,
+                exitQueue.stale && `Refresh failed: ${exitQueue.error}`
+              ].filter(Boolean).join('\n')}
+            >
+              <span>ETH: {exitQueue.eth?.toLocaleString()}</span>
               <span>Wait: {exitQueue.wait}</span>
               {exitQueue.sweep_delay && <span>Sweep: {exitQueue.sweep_delay}</span>}
+              {exitQueue.stale && <span className="stale-tag">stale</span>}
             </div>
-          )}
+          ))}
           {statistics?.lastUpdate && (
             <div className="last-update">
-              Last Updated: {new Date(statistics.lastUpdate).toLocaleString('en-US', { 
-                year: 'numeric',
-                month: '2-digit',
-                day: '2-digit',
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit',
-                hour12: false
-              })}
+              Last Updated: {formatDateTime(statistics.lastUpdate)}
+            </div>
+          )}
+          {syncSchedule?.enabled && (
+            <div
+              className="last-update sync-schedule"
+              title={syncSchedule.mode === 'cron'
+                ? `Schedule: ${syncSchedule.cron}`
+                : `Schedule: every ${syncSchedule.intervalMinutes} min`}
+            >
+              {syncSchedule.lastRun && <>Last Sync: {formatDateTime(syncSchedule.lastRun)} · </>}
+              Next Sync: {syncSchedule.nextRun ? formatDateTime(syncSchedule.nextRun) : '-'}
             </div>
           )}
-          <button onClick={handleSyncStatuses} className="sync-button" disabled={loading}>
-            {loading ? 'Syncing...' : 'Sync'}
+          <select
+            className="sync-state-select"
+            value={syncStateId}
+            onChange={(e) => setSyncStateId(e.target.value as SyncStateId)}
+            title="Beacon state to sync from"
+          >
+            <option value="head">Head</option>
+            <option value="finalized">Finalized</option>
+            <option value="justified">Justified</option>
+          </select>
+          <button onClick={handleSyncStatuses} className="sync-button" disabled={loading || syncing}>
+            {syncing ? 'Syncing...' : 'Sync'}
           </button>
         </div>
+        <SlashingAlerts />
       </header>
 
       <main className="App-main">
@@ -305,6 +422,10 @@ function App() {
           </div>
         )}
 
+        {syncJobId !== null && (
+          <SyncProgress jobId={syncJobId} onFinish={handleSyncFinish} />
+        )}
+
         <div className="tabs">
           <button
             className={`tab-button ${activeTab === 'validators' ? 'active' : ''}`}
@@ -322,6 +443,7 @@ function App() {
 
         {activeTab === 'validators' && (
           <>
+            <ValidatorImport onImport={handleValidatorImport} />
             {loading && !statistics ? (
               <div className="loading">Loading statistics...</div>
             ) : statistics ? (
@@ -333,6 +455,7 @@ function App() {
                 <ValidatorList 
                   initialProvider={filterProvider}
                   initialBucketNo={filterBucketNo}
+                  refreshKey={validatorRefreshKey}
                 />
               </>
             ) : null}
@@ -343,23 +466,30 @@ function App() {
           <>
             <div className="exit-section-header">
               <ExitCSVUpload onUpload={handleExitUpload} />
+              <ElExitRequestImport onImport={handleExitUpload} />
+              <LidoExitRequestImport onImport={handleExitUpload} />
               <button
                 onClick={handleSyncExitStatuses}
                 className="sync-button"
-                disabled={exitLoading}
+                disabled={exitLoading || exitSyncing}
               >
-                {exitLoading ? 'Syncing...' : 'Sync Exit Statuses'}
+                {exitSyncing ? 'Syncing...' : 'Sync Exit Statuses'}
               </button>
             </div>
+            {exitSyncJobId !== null && (
+              <SyncProgress jobId={exitSyncJobId} onFinish={handleExitSyncFinish} />
+            )}
             {exitLoading && !exitStatistics ? (
               <div className="loading">Loading exit statistics...</div>
             ) : exitStatistics ? (
               <>
+                <ExitQueueChart />
                 <ExitStatisticsTable 
                   statistics={exitStatistics} 
                   onDelete={handleExitBatchDelete}
                   onProviderClick={handleExitProviderClick}
                   onBucketClick={handleExitBucketClick}
+                  onExitsChange={fetchExitStatistics}
                 />
                 <ExitList 
                   initialBatchId={filterBatchId}
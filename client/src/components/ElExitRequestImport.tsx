@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import './ExitCSVUpload.css';
+
+interface ElExitRequestImportProps {
+  onImport: () => void;
+}
+
+interface ImportResult {
+  total: number;
+  imported: number;
+  duplicates: number;
+  exitRequests: number;
+  partialRequests: number;
+  matched: number;
+  unmatched: number;
+  sourceMismatches: { pubkey: string; tx_hash: string; source_address: string; withdrawal_address: string }[];
+  errors: { row: number; error: string }[];
+}
+
+// Import EIP-7002 withdrawal request events (JSON or CSV export of the request contract logs)
+const ElExitRequestImport: React.FC<ElExitRequestImportProps> = ({ onImport }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; title?: string } | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setFile(e.target.files[0]);
+      setMessage(null);
+    }
+  };
+
+  const handleFileButtonClick = () => {
+    const fileInput = document.getElementById('el-exit-request-file-input') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.click();
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      setMessage({ type: 'error', text: 'Please select an export file' });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      setImporting(true);
+      setMessage(null);
+
+      const response = await fetch('/api/el-exit-requests/import', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      const result = data as ImportResult;
+      const warnings = result.sourceMismatches.length + result.errors.length;
+      setMessage({
+        type: warnings > 0 ? 'error' : 'success',
+        text: `Imported ${result.imported} requests (${result.duplicates} duplicates), ${result.matched} matched exit validators`
+          + (warnings > 0 ? `, ${warnings} warnings` : ''),
+        title: [
+          `${result.exitRequests} full exit, ${result.partialRequests} partial withdrawal requests`,
+          `${result.unmatched} pubkeys not in any exit batch`,
+          ...result.sourceMismatches.map(m => `${m.pubkey}: source ${m.source_address} is not the withdrawal address ${m.withdrawal_address}`),
+          ...result.errors.map(e => `Row ${e.row}: ${e.error}`)
+        ].join('\n')
+      });
+
+      setFile(null);
+      // Reset file input
+      const fileInput = document.getElementById('el-exit-request-file-input') as HTMLInputElement;
+      if (fileInput) {
+        fileInput.value = '';
+      }
+
+      onImport();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Import failed'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="exit-csv-upload-container">
+      <div className="exit-csv-upload-form">
+        <input
+          id="el-exit-request-file-input"
+          type="file"
+          accept=".json,.csv,.tsv,.ndjson"
+          onChange={handleFileChange}
+          disabled={importing}
+          className="file-input-hidden"
+        />
+        <button
+          type="button"
+          onClick={handleFileButtonClick}
+          disabled={importing}
+          className="file-select-button"
+          title="JSON or CSV export of EIP-7002 withdrawal request contract events"
+        >
+          {file ? file.name : 'Select EL Requests'}
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!file || importing}
+          className="upload-button"
+        >
+          {importing ? 'Importing...' : 'Import'}
+        </button>
+        {message && (
+          <div className={`upload-message-inline ${message.type}`} title={message.title || message.text}>
+            {message.text}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ElExitRequestImport;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import './ExitCSVUpload.css';
+import UploadPreview, { UploadReport } from './UploadPreview';
 
 interface ExitCSVUploadProps {
   onUpload: () => void;
@@ -7,12 +8,18 @@ interface ExitCSVUploadProps {
 
 const ExitCSVUpload: React.FC<ExitCSVUploadProps> = ({ onUpload }) => {
   const [file, setFile] = useState<File | null>(null);
+  // Optional exit deadline of the batch (dates, UTC)
+  const [requestedAt, setRequestedAt] = useState('');
+  const [deadlineAt, setDeadlineAt] = useState('');
   const [uploading, setUploading] = useState(false);
+  // Dry-run report awaiting confirmation
+  const [preview, setPreview] = useState<UploadReport | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setFile(e.target.files[0]);
+      setPreview(null);
       setMessage(null);
     }
   };
@@ -24,36 +31,73 @@ const ExitCSVUpload: React.FC<ExitCSVUploadProps> = ({ onUpload }) => {
     }
   };
 
-  const handleUpload = async () => {
+  const postUpload = async (dryRun: boolean) => {
+    const formData = new FormData();
+    formData.append('csv', file as File);
+    if (requestedAt) formData.append('requested_at', requestedAt);
+    if (deadlineAt) formData.append('deadline_at', deadlineAt);
+
+    const response = await fetch(`/api/upload-exit-csv${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      body: formData
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed');
+    }
+    return data;
+  };
+
+  // Check the file first; the upload itself waits for confirmation of the preview
+  const handleCheck = async () => {
     if (!file) {
       setMessage({ type: 'error', text: 'Please select a CSV file' });
       return;
     }
 
-    const formData = new FormData();
-    formData.append('csv', file);
-
     try {
       setUploading(true);
       setMessage(null);
-
-      const response = await fetch('/api/upload-exit-csv', {
-        method: 'POST',
-        body: formData
+      setPreview(await postUpload(true));
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Upload failed'
       });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      setMessage({ type: 'error', text: 'Please select a CSV file' });
+      return;
+    }
 
-      const data = await response.json();
+    try {
+      setUploading(true);
+      setMessage(null);
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Upload failed');
-      }
+      const data = await postUpload(false);
 
-      setMessage({
-        type: 'success',
-        text: `Successfully processed ${data.total} validators (Batch ID: ${data.batchId})`
-      });
+      setMessage(data.failed.length > 0
+        ? {
+            type: 'error',
+            text: `Stored ${data.inserted} of ${data.total} validators (Batch ID: ${data.batchId}); failed: ` +
+              data.failed.map((row: { line: number; error: string }) => `line ${row.line} (${row.error})`).join(', ')
+          }
+        : {
+            type: 'success',
+            text: `Successfully processed ${data.total} validators (Batch ID: ${data.batchId})`
+          });
 
+      setPreview(null);
       setFile(null);
+      setRequestedAt('');
+      setDeadlineAt('');
       // Reset file input
       const fileInput = document.getElementById('exit-csv-file-input') as HTMLInputElement;
       if (fileInput) {
@@ -90,12 +134,30 @@ const ExitCSVUpload: React.FC<ExitCSVUploadProps> = ({ onUpload }) => {
         >
           {file ? file.name : 'Select File'}
         </button>
+        <label className="batch-date-field" title="When the provider requested the exits (default: upload time)">
+          Requested
+          <input
+            type="date"
+            value={requestedAt}
+            onChange={(e) => setRequestedAt(e.target.value)}
+            disabled={uploading}
+          />
+        </label>
+        <label className="batch-date-field" title="Keys are due to reach active_exiting by this date">
+          Deadline
+          <input
+            type="date"
+            value={deadlineAt}
+            onChange={(e) => setDeadlineAt(e.target.value)}
+            disabled={uploading}
+          />
+        </label>
         <button
-          onClick={handleUpload}
-          disabled={!file || uploading}
+          onClick={handleCheck}
+          disabled={!file || uploading || preview !== null}
           className="upload-button"
         >
-          {uploading ? 'Uploading...' : 'Upload'}
+          {uploading && !preview ? 'Checking...' : 'Upload'}
         </button>
         {message && (
           <div className={`upload-message-inline ${message.type}`}>
@@ -103,6 +165,14 @@ const ExitCSVUpload: React.FC<ExitCSVUploadProps> = ({ onUpload }) => {
           </div>
         )}
       </div>
+      {preview && (
+        <UploadPreview
+          report={preview}
+          busy={uploading}
+          onConfirm={handleUpload}
+          onCancel={() => setPreview(null)}
+        />
+      )}
     </div>
   );
 };
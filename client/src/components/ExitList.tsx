@@ -1,24 +1,57 @@
 import React, { useEffect, useState } from 'react';
 import './ExitList.css';
-
-// Provider logos mapping
-const PROVIDER_LOGOS: { [key: string]: string } = {
-  'Lido': 'https://s2.coinmarketcap.com/static/img/coins/64x64/8085.png',
-  'Etherfi': 'https://s2.coinmarketcap.com/static/img/coins/64x64/29814.png',
-  'Mantle': 'https://s2.coinmarketcap.com/static/img/coins/64x64/27075.png',
-};
+import StatusHistory from './StatusHistory';
+import { LIFECYCLE_LABELS, LIFECYCLE_STATES, LifecycleState } from '../lifecycle';
+import { formatEpoch, formatGwei, shortenHex } from '../format';
+import { formatValidatorEta, ValidatorEta, validatorEtaTitle } from '../eta';
+import { formatDuration, formatSqlTime, SLA_LABELS, SlaStatus } from '../sla';
+import { getProviderLogo, useProviders } from '../providers';
 
 type ExitValidator = {
   id: number;
   pubkey: string;
   status: string;
+  beacon_status?: string | null;
+  lifecycle?: LifecycleState | null;
+  validator_index?: number | null;
+  balance?: number | null;
+  effective_balance?: number | null;
+  activation_epoch?: number | null;
+  exit_epoch?: number | null;
+  withdrawable_epoch?: number | null;
+  slashed?: number | null;
+  withdrawal_credentials?: string | null;
+  fetch_error?: string | null;
+  has_exit_message?: number;
+  exit_message_epoch?: number | null;
+  exit_message_uploaded_at?: string | null;
+  exit_submission_status?: 'accepted' | 'rejected' | 'failed' | null;
+  exit_submission_error?: string | null;
+  exit_submitted_at?: string | null;
+  exit_signature_status?: 'valid' | 'invalid' | null;
+  exit_signature_error?: string | null;
+  el_request_tx_hash?: string | null;
+  lido_ref_slot?: number | null;
+  exit_trigger?: 'el' | 'cl' | null;
+  withdrawn_amount?: number | null;
+  withdrawn_slot?: number | null;
+  withdrawn_at?: string | null;
+  // Balance-detected sweeps: the slot by which the zero balance was seen (the sweep slot is unknown)
+  withdrawn_seen_slot?: number | null;
+  withdrawal_source?: 'block' | 'balance' | null;
+  exiting_at?: string | null;
+  time_to_exiting?: number | null;
+  sla_status?: SlaStatus | null;
   batch_id: number;
   batch_filename?: string;
   batch_uploaded_at?: string;
+  batch_requested_at?: string;
+  batch_deadline_at?: string | null;
   updated_at?: string;
   provider?: string | null;
   bucket_no?: string | null;
   json_filename?: string | null;
+  eta?: ValidatorEta;
 };
 
 type ApiResponse = {
@@ -38,6 +71,7 @@ interface ExitListProps {
 }
 
 const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, initialBucketNo }) => {
+  const registry = useProviders();
   const [items, setItems] = useState<ExitValidator[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
@@ -48,7 +82,13 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
   const [bucketNo, setBucketNo] = useState('');
   const [provider, setProvider] = useState('');
   const [status, setStatus] = useState('');
+  const [lifecycle, setLifecycle] = useState('');
+  const [trigger, setTrigger] = useState('');
+  const [slashedOnly, setSlashedOnly] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const [batchId, setBatchId] = useState('');
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [submittingId, setSubmittingId] = useState<number | null>(null);
 
   const fetchData = async () => {
     try {
@@ -60,6 +100,10 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
       if (bucketNo) params.append('bucket_no', bucketNo);
       if (provider) params.append('provider', provider);
       if (status) params.append('status', status);
+      if (lifecycle) params.append('lifecycle', lifecycle);
+      if (trigger) params.append('trigger', trigger);
+      if (slashedOnly) params.append('slashed', '1');
+      if (overdueOnly) params.append('overdue', '1');
       if (batchId) params.append('batch_id', batchId);
 
       const res = await fetch(`/api/exit-list?${params.toString()}`);
@@ -120,12 +164,142 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [q, bucketNo]);
 
-  // Immediate search when dropdown filters change (provider, status, batchId)
+  // Immediate search when dropdown filters change (provider, status, lifecycle, trigger, slashed, overdue, batchId)
   useEffect(() => {
     setPage(0);
     // fetchData will be called by page change effect
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [provider, status, batchId]);
+  }, [provider, status, lifecycle, trigger, slashedOnly, overdueOnly, batchId]);
+
+  const handleSubmitExit = async (v: ExitValidator) => {
+    if (!window.confirm(`Broadcast the signed exit of validator ${v.validator_index} to the beacon node? Exits cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setSubmittingId(v.id);
+      const res = await fetch(`/api/exit-batch/${v.batch_id}/voluntary-exits/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pubkeys: [v.pubkey], force: v.exit_submission_status === 'accepted' })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to submit exit');
+      const result = data.results[0];
+      if (result && result.error) {
+        alert(`${result.status}: ${result.error}`);
+      }
+      fetchData();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to submit exit');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+  const formatTimestamp = (value: string) => new Date(value.replace(' ', 'T') + 'Z').toLocaleString('ko-KR');
+
+  const renderExitMessage = (v: ExitValidator) => {
+    if (!v.has_exit_message) return '-';
+    const status = v.exit_submission_status || 'stored';
+    const title = [
+      `Signed for epoch ${v.exit_message_epoch}`,
+      v.exit_message_uploaded_at && `Uploaded: ${formatTimestamp(v.exit_message_uploaded_at)}`,
+      v.exit_submitted_at && `Submitted: ${formatTimestamp(v.exit_submitted_at)}`,
+      v.exit_submission_error,
+      v.exit_signature_status === 'invalid' && `Invalid signature: ${v.exit_signature_error}`
+    ].filter(Boolean).join('\n');
+    return (
+      <div className="exit-message-cell">
+        <span className={`exit-message-badge exit-message-${status}`} title={title}>
+          {status === 'stored' ? 'Signed' : status}
+        </span>
+        {v.exit_signature_status && (
+          <span
+            className={`exit-signature exit-signature-${v.exit_signature_status}`}
+            title={v.exit_signature_status === 'valid' ? 'BLS signature verified' : v.exit_signature_error || 'Invalid signature'}
+          >
+            {v.exit_signature_status === 'valid' ? '✓ sig' : '✗ sig'}
+          </span>
+        )}
+        <button
+          className="exit-submit-button"
+          onClick={() => handleSubmitExit(v)}
+          disabled={submittingId === v.id}
+          title={status === 'accepted' ? 'Broadcast again' : 'Broadcast to the beacon node'}
+        >
+          {submittingId === v.id ? '...' : status === 'accepted' ? 'Resubmit' : 'Submit'}
+        </button>
+      </div>
+    );
+  };
+
+  // Time from the batch request to active_exiting, flagged against the batch deadline
+  const renderSla = (v: ExitValidator) => {
+    const title = [
+      `Requested: ${formatSqlTime(v.batch_requested_at)}`,
+      `Deadline: ${formatSqlTime(v.batch_deadline_at)}`,
+      `Exiting since: ${formatSqlTime(v.exiting_at)}`
+    ].join('\n');
+    return (
+      <td className="sla-cell" title={title}>
+        {v.sla_status && (
+          <span className={`sla-badge sla-${v.sla_status}`}>{SLA_LABELS[v.sla_status]}</span>
+        )}
+        {v.time_to_exiting !== undefined && v.time_to_exiting !== null && (
+          <span className="sla-duration">{formatDuration(v.time_to_exiting)}</span>
+        )}
+        {!v.sla_status && (v.time_to_exiting === undefined || v.time_to_exiting === null) && '-'}
+      </td>
+    );
+  };
+
+  // Recorded final sweep when known, otherwise the estimate
+  const renderWithdrawn = (v: ExitValidator) => {
+    if (v.withdrawn_amount === undefined || v.withdrawn_amount === null) {
+      return (
+        <td className={`eta-cell eta-${v.eta?.basis || 'none'}`} title={validatorEtaTitle(v.eta)}>
+          {formatValidatorEta(v.eta)}
+        </td>
+      );
+    }
+    const title = [
+      v.withdrawal_source === 'block'
+        ? `Swept in slot ${v.withdrawn_slot?.toLocaleString() ?? '-'}`
+        : `Balance seen at zero by slot ${v.withdrawn_seen_slot?.toLocaleString() ?? '-'}, sweep slot unknown (amount is the last synced balance)`,
+      v.withdrawn_at && new Date(v.withdrawn_at).toLocaleString('ko-KR')
+    ].filter(Boolean).join('\n');
+    return (
+      <td className="eta-cell eta-withdrawn number-cell" title={title}>
+        {formatGwei(v.withdrawn_amount)} ETH
+      </td>
+    );
+  };
+
+  // CL: accepted voluntary exit; EL: EIP-7002 request from the withdrawal address
+  const renderTrigger = (v: ExitValidator) => {
+    if (v.exit_trigger === 'el' && v.el_request_tx_hash) {
+      return (
+        <div className="exit-trigger-cell">
+          <span className="exit-trigger-badge exit-trigger-el" title="Execution-layer exit request (EIP-7002)">EL</span>
+          <a
+            href={`https://etherscan.io/tx/${v.el_request_tx_hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mono"
+            title={v.el_request_tx_hash}
+          >
+            {shortenHex(v.el_request_tx_hash)}
+          </a>
+        </div>
+      );
+    }
+    if (v.exit_trigger === 'cl') {
+      return <span className="exit-trigger-badge exit-trigger-cl" title="Voluntary exit accepted by the beacon node">CL</span>;
+    }
+    return '-';
+  };
 
   const handlePageSizeChange = (newSize: number) => {
     setPageSize(newSize);
@@ -156,9 +330,9 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
             setPage(0);
           }}>
             <option value="">All Providers</option>
-            <option value="Lido">Lido</option>
-            <option value="Etherfi">Etherfi</option>
-            <option value="Mantle">Mantle</option>
+            {registry.map((p) => (
+              <option key={p.id} value={p.name}>{p.name}</option>
+            ))}
           </select>
           <select value={status} onChange={(e) => {
             setStatus(e.target.value);
@@ -170,6 +344,38 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
             <option value="inactive">inactive</option>
             <option value="pending">pending</option>
           </select>
+          <select value={lifecycle} onChange={(e) => {
+            setLifecycle(e.target.value);
+            setPage(0);
+          }}>
+            <option value="">All Lifecycle</option>
+            {LIFECYCLE_STATES.map((state) => (
+              <option key={state} value={state}>{LIFECYCLE_LABELS[state]}</option>
+            ))}
+          </select>
+          <select value={trigger} onChange={(e) => {
+            setTrigger(e.target.value);
+            setPage(0);
+          }}>
+            <option value="">All Triggers</option>
+            <option value="cl">CL voluntary exit</option>
+            <option value="el">EL request</option>
+            <option value="none">Not triggered</option>
+          </select>
+          <select value={slashedOnly ? '1' : ''} onChange={(e) => {
+            setSlashedOnly(e.target.value === '1');
+            setPage(0);
+          }}>
+            <option value="">All Keys</option>
+            <option value="1">Slashed only</option>
+          </select>
+          <select value={overdueOnly ? '1' : ''} onChange={(e) => {
+            setOverdueOnly(e.target.value === '1');
+            setPage(0);
+          }}>
+            <option value="">All Deadlines</option>
+            <option value="1">Overdue only</option>
+          </select>
           <button onClick={() => { setPage(0); fetchData(); }} disabled={loading}>
             {loading ? 'Loading...' : 'Search'}
           </button>
@@ -193,27 +399,42 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
               <th>JSON File</th>
               <th>Pubkey</th>
               <th>Status</th>
+              <th>Lifecycle</th>
+              <th>Index</th>
+              <th>Balance</th>
+              <th>Eff. Balance</th>
+              <th>Activation</th>
+              <th>Exit</th>
+              <th>Withdrawable</th>
+              <th>Withdrawn By</th>
+              <th>Time to Exiting</th>
+              <th>Exit Message</th>
+              <th>Trigger</th>
+              <th>Withdrawal Credentials</th>
             </tr>
           </thead>
           <tbody>
             {loading && items.length === 0 ? (
               <tr>
-                <td colSpan={7} className="loading-cell">
+                <td colSpan={19} className="loading-cell">
                   Loading...
                 </td>
               </tr>
             ) : items.length === 0 ? (
               <tr>
-                <td colSpan={7} className="empty-cell">
+                <td colSpan={19} className="empty-cell">
                   No exit validators found
                 </td>
               </tr>
             ) : (
               items.map((v, index) => {
-                const providerLogo = v.provider ? PROVIDER_LOGOS[v.provider] : null;
+                const providerLogo = getProviderLogo(registry, v.provider);
+                
+                const isHistoryOpen = historyId === v.id;
                 
                 return (
-                  <tr key={v.id}>
+                  <React.Fragment key={v.id}>
+                  <tr>
                     <td className="number-cell">{(page * pageSize) + index + 1}</td>
                     <td className="batch-cell">
                       <div className="batch-info">
@@ -223,6 +444,11 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
                             {new Date(v.batch_uploaded_at).toLocaleDateString('ko-KR')}
                           </div>
                         )}
+                        {v.lido_ref_slot !== undefined && v.lido_ref_slot !== null && (
+                          <div className="batch-ref-slot" title="Reference slot of the Lido exit request report">
+                            Ref slot {v.lido_ref_slot.toLocaleString()}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="provider-cell">
@@ -254,9 +480,56 @@ const ExitList: React.FC<ExitListProps> = ({ initialBatchId, initialProvider, in
                       </a>
                     </td>
                     <td>
-                      <span className={`status-badge status-${v.status}`}>{v.status}</span>
+                      <span
+                        className={`status-badge status-${v.status} clickable`}
+                        onClick={() => setHistoryId(isHistoryOpen ? null : v.id)}
+                        title="Show status history"
+                      >
+                        {v.status}
+                      </span>
+                    </td>
+                    <td>
+                      {v.fetch_error ? (
+                        <span
+                          className="lifecycle-badge lifecycle-fetch-failed"
+                          title={`Last known: ${LIFECYCLE_LABELS[v.lifecycle || 'unknown']} (${v.beacon_status || 'not synced'})\n${v.fetch_error}`}
+                        >
+                          Unknown (fetch failed)
+                        </span>
+                      ) : (
+                        <span
+                          className={`lifecycle-badge lifecycle-${v.lifecycle || 'unknown'}`}
+                          title={v.beacon_status || 'Not synced'}
+                        >
+                          {LIFECYCLE_LABELS[v.lifecycle || 'unknown']}
+                        </span>
+                      )}
+                      {v.slashed && v.lifecycle !== 'slashed' ? (
+                        <span className="lifecycle-badge lifecycle-slashed slashed-flag" title="Slashed on the beacon chain">
+                          Slashed
+                        </span>
+                      ) : null}
                     </td>
+                    <td className="number-cell">{v.validator_index ?? '-'}</td>
+                    <td className="number-cell">{formatGwei(v.balance)}</td>
+                    <td className="number-cell">{formatGwei(v.effective_balance, 0)}</td>
+                    <td className="number-cell">{formatEpoch(v.activation_epoch)}</td>
+                    <td className="number-cell">{formatEpoch(v.exit_epoch)}</td>
+                    <td className="number-cell">{formatEpoch(v.withdrawable_epoch)}</td>
+                    {renderWithdrawn(v)}
+                    {renderSla(v)}
+                    <td>{renderExitMessage(v)}</td>
+                    <td>{renderTrigger(v)}</td>
+                    <td className="mono" title={v.withdrawal_credentials || undefined}>{shortenHex(v.withdrawal_credentials)}</td>
                   </tr>
+                  {isHistoryOpen && (
+                    <tr className="history-row">
+                      <td colSpan={19}>
+                        <StatusHistory pubkey={v.pubkey} />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 );
               })
             )}
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import './ExitMessageReport.css';
+
+type ReportKey = {
+  pubkey: string;
+  validator_index?: number | null;
+  lifecycle?: string | null;
+  exit_message_epoch?: number | null;
+  exit_signature_error?: string | null;
+};
+
+type Report = {
+  batchId: number;
+  filename: string;
+  total: number;
+  withMessage: number;
+  missingCount: number;
+  valid: number;
+  invalidCount: number;
+  unverified: number;
+  domain: { network: string; forkVersion: string; genesisValidatorsRoot: string } | null;
+  missing: ReportKey[];
+  invalid: ReportKey[];
+};
+
+interface ExitMessageReportProps {
+  batchId: number;
+  onVerified?: () => void;
+}
+
+const ExitMessageReport: React.FC<ExitMessageReportProps> = ({ batchId, onVerified }) => {
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/exit-batch/${batchId}/voluntary-exits/report`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to fetch exit message report');
+        setReport(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch exit message report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [batchId]);
+
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      const res = await fetch(`/api/exit-batch/${batchId}/voluntary-exits/verify`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to verify exit messages');
+      setReport(data);
+      setError(null);
+      if (onVerified) {
+        onVerified();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify exit messages');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading && !report) {
+    return <div className="exit-report-empty">Loading report...</div>;
+  }
+
+  return (
+    <div className="exit-report">
+      <div className="exit-report-summary">
+        {report && (
+          <>
+            <span>Keys: {report.total.toLocaleString()}</span>
+            <span>Signed: {report.withMessage.toLocaleString()}</span>
+            <span className="exit-report-valid">Valid: {report.valid.toLocaleString()}</span>
+            <span className={report.invalidCount > 0 ? 'exit-report-invalid' : ''}>Invalid: {report.invalidCount.toLocaleString()}</span>
+            <span className={report.missingCount > 0 ? 'exit-report-missing' : ''}>Missing: {report.missingCount.toLocaleString()}</span>
+            {report.unverified > 0 && <span>Unverified: {report.unverified.toLocaleString()}</span>}
+            {report.domain && (
+              <span className="exit-report-domain" title={`Genesis validators root: ${report.domain.genesisValidatorsRoot}`}>
+                {report.domain.network} · fork {report.domain.forkVersion}
+              </span>
+            )}
+          </>
+        )}
+        <button className="exit-report-verify" onClick={handleVerify} disabled={verifying}>
+          {verifying ? 'Verifying...' : 'Verify Signatures'}
+        </button>
+      </div>
+
+      {error && <div className="exit-report-empty error">{error}</div>}
+
+      {report && report.invalid.length > 0 && (
+        <div className="exit-report-section">
+          <h4>Invalid signatures</h4>
+          <ul>
+            {report.invalid.map((key) => (
+              <li key={key.pubkey}>
+                <span className="mono">#{key.validator_index} {key.pubkey}</span>
+                <span className="exit-report-reason">epoch {key.exit_message_epoch}: {key.exit_signature_error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report && report.missing.length > 0 && (
+        <div className="exit-report-section">
+          <h4>Missing exit messages{report.missingCount > report.missing.length ? ` (first ${report.missing.length})` : ''}</h4>
+          <ul>
+            {report.missing.map((key) => (
+              <li key={key.pubkey}>
+                <span className="mono">{key.validator_index !== null && key.validator_index !== undefined ? `#${key.validator_index} ` : ''}{key.pubkey}</span>
+                {key.lifecycle && <span className="exit-report-reason">{key.lifecycle}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExitMessageReport;
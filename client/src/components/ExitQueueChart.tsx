@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import './ExitQueueChart.css';
+
+type ExitQueueSnapshot = {
+  computed_at: string;
+  head_slot: number | null;
+  current_epoch: number | null;
+  queue_eth: number | null;
+  exiting_validators: number | null;
+  wait_epochs: number | null;
+  wait_seconds: number | null;
+  churn_eth_per_epoch: number | null;
+  sweep_delay_seconds: number | null;
+  validator_count: number | null;
+};
+
+type Metric = 'queue_eth' | 'wait_seconds' | 'churn_eth_per_epoch' | 'sweep_delay_seconds';
+
+const SECONDS_PER_DAY = 86400;
+
+const METRICS: Array<{ key: Metric; label: string; format: (value: number) => string }> = [
+  { key: 'queue_eth', label: 'Queue ETH', format: (value) => `${Math.round(value).toLocaleString()} ETH` },
+  { key: 'wait_seconds', label: 'Wait', format: (value) => `${(value / SECONDS_PER_DAY).toFixed(1)} days` },
+  { key: 'churn_eth_per_epoch', label: 'Churn', format: (value) => `${Math.round(value)} ETH/epoch` },
+  { key: 'sweep_delay_seconds', label: 'Sweep Delay', format: (value) => `${(value / SECONDS_PER_DAY).toFixed(1)} days` }
+];
+
+const RANGES = [
+  { days: 7, label: '7D' },
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' }
+];
+
+// Chart geometry (SVG units)
+const WIDTH = 800;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 96 };
+
+const formatDate = (value: string | number) => {
+  return new Date(value).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const ExitQueueChart: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<ExitQueueSnapshot[]>([]);
+  const [metric, setMetric] = useState<Metric>('queue_eth');
+  const [rangeDays, setRangeDays] = useState(30);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const from = new Date(Date.now() - rangeDays * SECONDS_PER_DAY * 1000).toISOString();
+        const res = await fetch(`/api/exit-queue/history?from=${encodeURIComponent(from)}`);
+        if (!res.ok) throw new Error('Failed to fetch exit queue history');
+        const data = await res.json();
+        setSnapshots(data.data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch exit queue history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [rangeDays]);
+
+  const metricInfo = METRICS.find((m) => m.key === metric) || METRICS[0];
+  const points = snapshots
+    .filter((snapshot) => snapshot[metric] !== null)
+    .map((snapshot) => ({ time: Date.parse(snapshot.computed_at), value: snapshot[metric] as number }));
+
+  const renderChart = () => {
+    if (loading && points.length === 0) {
+      return <div className="exit-queue-chart-empty">Loading history...</div>;
+    }
+    if (error) {
+      return <div className="exit-queue-chart-empty error">{error}</div>;
+    }
+    if (points.length === 0) {
+      return <div className="exit-queue-chart-empty">No snapshots recorded in this range yet</div>;
+    }
+
+    const minTime = points[0].time;
+    const maxTime = points[points.length - 1].time;
+    const values = points.map((point) => point.value);
+    // Start the axis at zero so congestion is read against an empty queue
+    const maxValue = Math.max(...values) || 1;
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const x = (time: number) => PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+    const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+    const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+    const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+    const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const time = minTime + ((e.clientX - rect.left) / rect.width) * (maxTime - minTime);
+      let nearest = 0;
+      points.forEach((point, i) => {
+        if (Math.abs(point.time - time) < Math.abs(points[nearest].time - time)) nearest = i;
+      });
+      setHoverIndex(nearest);
+    };
+
+    return (
+      <svg className="exit-queue-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              className="exit-queue-chart-grid"
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+            />
+            <text className="exit-queue-chart-label" x={PADDING.left - 8} y={y(maxValue * fraction) + 4} textAnchor="end">
+              {metricInfo.format(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+        <text className="exit-queue-chart-label" x={PADDING.left} y={HEIGHT - 8} textAnchor="start">
+          {formatDate(minTime)}
+        </text>
+        <text className="exit-queue-chart-label" x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end">
+          {formatDate(maxTime)}
+        </text>
+        <path className="exit-queue-chart-line" d={path} />
+        {hovered && (
+          <g>
+            <line
+              className="exit-queue-chart-cursor"
+              x1={x(hovered.time)}
+              x2={x(hovered.time)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+            />
+            <circle className="exit-queue-chart-point" cx={x(hovered.time)} cy={y(hovered.value)} r={4} />
+          </g>
+        )}
+        <rect
+          x={PADDING.left}
+          y={PADDING.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        />
+      </svg>
+    );
+  };
+
+  const hoveredPoint = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <div className="exit-queue-chart-wrapper table-wrapper">
+      <div className="table-header">
+        <h2 className="section-title">Exit Queue History</h2>
+        <div className="exit-queue-chart-controls">
+          <div className="view-toggle">
+            {METRICS.map((m) => (
+              <button key={m.key} className={metric === m.key ? 'active' : ''} onClick={() => setMetric(m.key)}>
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <div className="view-toggle">
+            {RANGES.map((range) => (
+              <button
+                key={range.days}
+                className={rangeDays === range.days ? 'active' : ''}
+                onClick={() => setRangeDays(range.days)}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="exit-queue-chart-body">
+        <div className="exit-queue-chart-readout">
+          {hoveredPoint
+            ? `${formatDate(hoveredPoint.time)}: ${metricInfo.format(hoveredPoint.value)}`
+            : points.length > 0 && `Latest: ${metricInfo.format(points[points.length - 1].value)}`}
+        </div>
+        {renderChart()}
+      </div>
+    </div>
+  );
+};
+
+export default ExitQueueChart;
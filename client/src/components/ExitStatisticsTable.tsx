@@ -1,51 +1,54 @@
 import React, { useState } from 'react';
 import './ExitStatisticsTable.css';
+import { formatUnitValue, getStatusColumns, inUnit, StatusCounts, StatusUnit, StatusView } from '../lifecycle';
+import { EtaSummary, etaSummaryTitle, formatEtaSummary } from '../eta';
+import { formatDuration, SLA_LABELS, SlaSummary, slaSummaryTitle } from '../sla';
+import { getProviderLogo, sortProviderNames, useProviders } from '../providers';
+import ExitMessageReport from './ExitMessageReport';
 
-// Provider logos mapping
-const PROVIDER_LOGOS: { [key: string]: string } = {
-  'Lido': 'https://s2.coinmarketcap.com/static/img/coins/64x64/8085.png',
-  'Etherfi': 'https://s2.coinmarketcap.com/static/img/coins/64x64/29814.png',
-  'Mantle': 'https://s2.coinmarketcap.com/static/img/coins/64x64/27075.png',
-};
+interface EtaCounts extends StatusCounts {
+  eta?: EtaSummary;
+  // Final withdrawal sweeps recorded so far
+  withdrawals_recorded?: number;
+  withdrawn_eth?: number;
+  sla?: SlaSummary;
+}
 
-interface BatchStats {
+interface BatchStats extends EtaCounts {
   id: number;
   filename: string;
   uploaded_at: string;
-  total: number;
-  active: number;
-  exit_queue: number;
-  inactive: number;
+  requested_at?: string;
+  deadline_at?: string | null;
+  exit_messages?: number;
+  exits_accepted?: number;
+  exit_signatures_invalid?: number;
+  exits_el_triggered?: number;
+  exits_cl_triggered?: number;
 }
 
+type VoluntaryExitResult = {
+  file?: string;
+  validator_index?: number;
+  pubkey?: string;
+  status: string;
+  error?: string;
+  warning?: string;
+};
+
 interface BatchDetail {
   byProvider: {
-    [provider: string]: {
-      total: number;
-      active: number;
-      exit_queue: number;
-      inactive: number;
-    };
+    [provider: string]: EtaCounts;
   };
   byBucket: {
     [provider: string]: {
-      [bucketNo: string]: {
-        total: number;
-        active: number;
-        exit_queue: number;
-        inactive: number;
-      };
+      [bucketNo: string]: StatusCounts;
     };
   };
 }
 
 interface ExitStatistics {
-  totals: {
-    total: number;
-    active: number;
-    exit_queue: number;
-    inactive: number;
-  };
+  totals: EtaCounts;
   byBatch: BatchStats[];
   byBatchDetail?: {
     [batchId: number]: BatchDetail;
@@ -58,17 +61,25 @@ interface ExitStatisticsTableProps {
   onDelete?: (batchId: number) => void;
   onProviderClick?: (batchId: number, provider: string) => void;
   onBucketClick?: (batchId: number, provider: string, bucketNo: string) => void;
+  onExitsChange?: () => void;
 }
 
 const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({ 
   statistics, 
   onDelete,
   onProviderClick,
-  onBucketClick
+  onBucketClick,
+  onExitsChange
 }) => {
   const { totals, byBatch, byBatchDetail } = statistics;
+  const registry = useProviders();
   const [deletingBatchId, setDeletingBatchId] = useState<number | null>(null);
+  const [exitActionBatchId, setExitActionBatchId] = useState<number | null>(null);
+  const [reportBatchId, setReportBatchId] = useState<number | null>(null);
   const [expandedProvider, setExpandedProvider] = useState<string | null>(null);
+  const [view, setView] = useState<StatusView>('rollup');
+  const [unit, setUnit] = useState<StatusUnit>('count');
+  const columns = getStatusColumns(view);
 
   const handleDelete = async (batchId: number, filename: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -97,6 +108,120 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
     }
   };
 
+  // One line per problem, capped so the alert stays readable
+  const describeExitResults = (summary: string, results: VoluntaryExitResult[]) => {
+    const problems = results
+      .filter((result) => result.error || result.warning)
+      .map((result) => {
+        const subject = result.validator_index !== undefined ? `#${result.validator_index}` : result.file;
+        return `${subject}: ${result.error || result.warning}`;
+      });
+    const shown = problems.slice(0, 10);
+    if (problems.length > shown.length) {
+      shown.push(`...and ${problems.length - shown.length} more`);
+    }
+    return [summary, ...shown].join('\n');
+  };
+
+  const handleExitUpload = async (batchId: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setExitActionBatchId(batchId);
+      const formData = new FormData();
+      files.forEach((file) => formData.append('exits', file));
+      const response = await fetch(`/api/exit-batch/${batchId}/voluntary-exits`, {
+        method: 'POST',
+        body: formData
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload exit messages');
+      }
+      const summary = [
+        `Attached ${data.attached}, rejected ${data.rejected}, invalid signatures ${data.invalidSignatures}`,
+        data.verificationError && `Signatures not verified: ${data.verificationError}`
+      ].filter(Boolean).join('\n');
+      alert(describeExitResults(summary, data.results));
+      if (onExitsChange) {
+        onExitsChange();
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to upload exit messages');
+    } finally {
+      setExitActionBatchId(null);
+    }
+  };
+
+  const handleExitSubmit = async (batchId: number, filename: string, count: number) => {
+    if (!window.confirm(`Broadcast ${count} signed exit message(s) of "${filename}" to the beacon node? Exits cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setExitActionBatchId(batchId);
+      const response = await fetch(`/api/exit-batch/${batchId}/voluntary-exits/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit exit messages');
+      }
+      alert(describeExitResults(
+        `Accepted ${data.accepted}, rejected ${data.rejected}, failed ${data.failed}, skipped ${data.skipped}`,
+        data.results.filter((result: VoluntaryExitResult) => result.status !== 'skipped' || result.error !== 'Already accepted')
+      ));
+      if (onExitsChange) {
+        onExitsChange();
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to submit exit messages');
+    } finally {
+      setExitActionBatchId(null);
+    }
+  };
+
+  // Deadline input is read in local time and sent as ISO; an empty answer clears it
+  const handleDeadlineEdit = async (batch: BatchStats) => {
+    const current = batch.deadline_at ? batch.deadline_at.replace(' ', 'T').slice(0, 16) : '';
+    const input = window.prompt(
+      `Exit deadline for "${batch.filename}" (YYYY-MM-DD or YYYY-MM-DDTHH:MM, UTC shown; empty clears)`,
+      current
+    );
+    if (input === null) return;
+
+    const value = input.trim();
+    const deadline = value ? new Date(/T\d{2}:\d{2}$/.test(value) ? `${value}Z` : value) : null;
+    if (deadline && Number.isNaN(deadline.getTime())) {
+      alert('Invalid date');
+      return;
+    }
+
+    try {
+      setExitActionBatchId(batch.id);
+      const response = await fetch(`/api/exit-batch/${batch.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deadline_at: deadline ? deadline.toISOString() : null })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to set deadline');
+      }
+      if (onExitsChange) {
+        onExitsChange();
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to set deadline');
+    } finally {
+      setExitActionBatchId(null);
+    }
+  };
+
   const handleProviderClick = (batchId: number, provider: string, e?: React.MouseEvent) => {
     if (e) {
       e.stopPropagation();
@@ -122,17 +247,9 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
     if (!byBatchDetail || !byBatchDetail[batchId]) {
       return [];
     }
-    return Object.entries(byBatchDetail[batchId].byProvider || {})
-      .map(([provider, stats]) => ({ provider, ...stats }))
-      .sort((a, b) => {
-        const order = ['Lido', 'Etherfi', 'Mantle'];
-        const aIndex = order.indexOf(a.provider);
-        const bIndex = order.indexOf(b.provider);
-        if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
-        if (aIndex !== -1) return -1;
-        if (bIndex !== -1) return 1;
-        return a.provider.localeCompare(b.provider);
-      });
+    const byProvider = byBatchDetail[batchId].byProvider || {};
+    return sortProviderNames(registry, Object.keys(byProvider))
+      .map((provider) => ({ provider, ...byProvider[provider] }));
   };
 
   const getBucketStats = (batchId: number, provider: string) => {
@@ -148,24 +265,136 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
       });
   };
 
+  const renderCountCells = (stats: StatusCounts) => {
+    const measured = inUnit(stats, unit);
+    return columns.map((column) => {
+      const value = column.value(measured);
+      return (
+        <td key={column.key} className={`number-cell ${column.className}`}>
+          {formatUnitValue(value, unit)} <span className="percentage">({calculatePercentage(value, measured.total)}%)</span>
+        </td>
+      );
+    });
+  };
+
+  // Total in the selected unit; in ETH the title carries the effective balance sum
+  const renderTotalCell = (stats: StatusCounts, strong = false) => {
+    const measured = inUnit(stats, unit);
+    const text = formatUnitValue(measured.total, unit);
+    return (
+      <td
+        className="number-cell"
+        title={unit === 'eth' ? `Effective balance: ${formatUnitValue(stats.eth?.effective_total || 0, unit)}` : undefined}
+      >
+        {strong ? <strong>{text}</strong> : text}
+      </td>
+    );
+  };
+
+  const renderEtaCell = (stats: EtaCounts) => {
+    const recorded = stats.withdrawals_recorded || 0;
+    const title = [
+      etaSummaryTitle(stats.eta),
+      recorded > 0 && `${recorded} final sweeps recorded, ${(stats.withdrawn_eth || 0).toLocaleString()} ETH withdrawn`
+    ].filter(Boolean).join('\n');
+    return (
+      <td className="eta-cell" title={title || undefined}>
+        {formatEtaSummary(stats.eta)}
+        {recorded > 0 && (
+          <div className="eta-withdrawn-eth">{(stats.withdrawn_eth || 0).toLocaleString()} ETH withdrawn</div>
+        )}
+      </td>
+    );
+  };
+
+  // SLA status with overdue / late counts and the average time to active_exiting
+  const renderSlaCell = (stats: EtaCounts, batch?: BatchStats) => {
+    const sla = stats.sla;
+    const missed = sla ? sla.overdue + sla.late : 0;
+    return (
+      <td
+        className="sla-cell"
+        title={slaSummaryTitle(sla, batch ? batch.deadline_at || null : undefined, batch?.requested_at)}
+      >
+        {sla?.status ? (
+          <span className={`sla-badge sla-${sla.status}`}>{SLA_LABELS[sla.status]}</span>
+        ) : (
+          batch ? <span className="sla-none">No deadline</span> : '-'
+        )}
+        {sla && missed > 0 && (
+          <div className="sla-detail sla-missed">
+            {[sla.overdue > 0 && `${sla.overdue} overdue`, sla.late > 0 && `${sla.late} late`].filter(Boolean).join(' · ')}
+          </div>
+        )}
+        {sla && sla.avg_time_to_exiting !== null && (
+          <div className="sla-detail">avg {formatDuration(sla.avg_time_to_exiting)}</div>
+        )}
+        {batch?.deadline_at && (
+          <div className="sla-detail">
+            due {new Date(batch.deadline_at.replace(' ', 'T') + 'Z').toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: '2-digit',
+              day: '2-digit'
+            })}
+          </div>
+        )}
+      </td>
+    );
+  };
+
+  const renderColumnHeaders = () => {
+    return columns.map((column) => (
+      <th key={column.key}>{column.label}</th>
+    ));
+  };
+
   const activePercent = totals.total > 0 ? calculatePercentage(totals.active, totals.total) : '0.0';
-  const exitQueuePercent = totals.total > 0 ? calculatePercentage(totals.exit_queue, totals.total) : '0.0';
-  const inactivePercent = totals.total > 0 ? calculatePercentage(totals.inactive, totals.total) : '0.0';
 
   return (
     <div className="exit-statistics-wrapper">
       <div className="table-wrapper">
         <div className="table-header">
           <h2 className="section-title">Exit Statistics</h2>
+          <div className="view-toggles">
+            <div className="view-toggle">
+              <button
+                className={view === 'rollup' ? 'active' : ''}
+                onClick={() => setView('rollup')}
+              >
+                Rollup
+              </button>
+              <button
+                className={view === 'lifecycle' ? 'active' : ''}
+                onClick={() => setView('lifecycle')}
+              >
+                Lifecycle
+              </button>
+            </div>
+            <div className="view-toggle">
+              <button
+                className={unit === 'count' ? 'active' : ''}
+                onClick={() => setUnit('count')}
+              >
+                Counts
+              </button>
+              <button
+                className={unit === 'eth' ? 'active' : ''}
+                onClick={() => setUnit('eth')}
+                title="Sum of current balances"
+              >
+                ETH
+              </button>
+            </div>
+          </div>
         </div>
         <table className="exit-statistics-table">
           <thead>
             <tr>
               <th>Batch</th>
               <th>Total</th>
-              <th>Active</th>
-              <th>Exit Queue</th>
-              <th>Inactive</th>
+              {renderColumnHeaders()}
+              <th>Withdrawn By</th>
+              <th>SLA</th>
               <th>Status</th>
               <th>Action</th>
             </tr>
@@ -192,17 +421,19 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                           day: '2-digit'
                         })}
                       </div>
+                      {((batch.exits_cl_triggered || 0) > 0 || (batch.exits_el_triggered || 0) > 0) && (
+                        <div
+                          className="batch-triggers"
+                          title="Exits triggered by an accepted voluntary exit (CL) or an EIP-7002 request (EL)"
+                        >
+                          CL {formatNumber(batch.exits_cl_triggered || 0)} · EL {formatNumber(batch.exits_el_triggered || 0)}
+                        </div>
+                      )}
                     </td>
-                    <td className="number-cell">{formatNumber(batch.total)}</td>
-                    <td className="number-cell active">
-                      {formatNumber(batch.active)} <span className="percentage">({batchActivePercent}%)</span>
-                    </td>
-                    <td className="number-cell exit-queue">
-                      {formatNumber(batch.exit_queue)} <span className="percentage">({batchExitQueuePercent}%)</span>
-                    </td>
-                    <td className="number-cell inactive">
-                      {formatNumber(batch.inactive)} <span className="percentage">({batchInactivePercent}%)</span>
-                    </td>
+                    {renderTotalCell(batch)}
+                    {renderCountCells(batch)}
+                    {renderEtaCell(batch)}
+                    {renderSlaCell(batch, batch)}
                     <td className="progress-cell">
                       <div className="progress-bar-container">
                         <div className="progress-bar">
@@ -216,6 +447,46 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                       </div>
                     </td>
                     <td className="action-cell" onClick={(e) => e.stopPropagation()}>
+                      <div className="exit-message-actions">
+                        <label
+                          className={`exit-message-button ${exitActionBatchId === batch.id ? 'disabled' : ''}`}
+                          title="Attach signed voluntary exit JSON files"
+                        >
+                          Upload Exits
+                          <input
+                            type="file"
+                            accept=".json,application/json"
+                            multiple
+                            disabled={exitActionBatchId === batch.id}
+                            onChange={(e) => handleExitUpload(batch.id, e)}
+                          />
+                        </label>
+                        <button
+                          className={`exit-message-button ${(batch.exit_signatures_invalid || 0) > 0 ? 'has-invalid' : ''}`}
+                          onClick={() => setReportBatchId(reportBatchId === batch.id ? null : batch.id)}
+                          title="Missing exit messages and signature check results"
+                        >
+                          Exit Report{(batch.exit_signatures_invalid || 0) > 0 ? ` (${batch.exit_signatures_invalid} invalid)` : ''}
+                        </button>
+                        <button
+                          className="exit-message-button"
+                          onClick={() => handleDeadlineEdit(batch)}
+                          disabled={exitActionBatchId === batch.id}
+                          title="Deadline for keys to reach active_exiting"
+                        >
+                          {batch.deadline_at ? 'Edit Deadline' : 'Set Deadline'}
+                        </button>
+                        {(batch.exit_messages || 0) > 0 && (
+                          <button
+                            className="exit-message-button"
+                            onClick={() => handleExitSubmit(batch.id, batch.filename, batch.exit_messages || 0)}
+                            disabled={exitActionBatchId === batch.id}
+                            title={`${batch.exits_accepted || 0} of ${batch.exit_messages} signed exits accepted by the beacon node`}
+                          >
+                            Submit Exits ({batch.exits_accepted || 0}/{batch.exit_messages})
+                          </button>
+                        )}
+                      </div>
                       <button
                         className="delete-button"
                         onClick={(e) => handleDelete(batch.id, batch.filename, e)}
@@ -226,17 +497,24 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                       </button>
                     </td>
                   </tr>
+                  {reportBatchId === batch.id && (
+                    <tr className="exit-report-row">
+                      <td colSpan={columns.length + 6}>
+                        <ExitMessageReport batchId={batch.id} onVerified={onExitsChange} />
+                      </td>
+                    </tr>
+                  )}
                   {providerStats.length > 0 && (
                     <tr className="batch-details-row">
-                      <td colSpan={7} className="batch-details-cell">
+                      <td colSpan={columns.length + 6} className="batch-details-cell">
                         <table className="batch-details-table">
                           <thead>
                             <tr>
                               <th>Provider</th>
                               <th>Total</th>
-                              <th>Active</th>
-                              <th>Exit Queue</th>
-                              <th>Inactive</th>
+                              {renderColumnHeaders()}
+                              <th>Withdrawn By</th>
+                              <th>SLA</th>
                               <th>Status</th>
                             </tr>
                           </thead>
@@ -246,7 +524,7 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                               const providerExitQueuePercent = calculatePercentage(provider.exit_queue, provider.total);
                               const providerInactivePercent = calculatePercentage(provider.inactive, provider.total);
                               const providerNonActivePercent = parseFloat(providerExitQueuePercent) + parseFloat(providerInactivePercent);
-                              const providerLogo = PROVIDER_LOGOS[provider.provider] || null;
+                              const providerLogo = getProviderLogo(registry, provider.provider);
                               const bucketStats = getBucketStats(batch.id, provider.provider);
 
                               const providerKey = `${batch.id}-${provider.provider}`;
@@ -276,16 +554,10 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                                         )}
                                       </div>
                                     </td>
-                                    <td className="number-cell">{formatNumber(provider.total)}</td>
-                                    <td className="number-cell active">
-                                      {formatNumber(provider.active)} <span className="percentage">({providerActivePercent}%)</span>
-                                    </td>
-                                    <td className="number-cell exit-queue">
-                                      {formatNumber(provider.exit_queue)} <span className="percentage">({providerExitQueuePercent}%)</span>
-                                    </td>
-                                    <td className="number-cell inactive">
-                                      {formatNumber(provider.inactive)} <span className="percentage">({providerInactivePercent}%)</span>
-                                    </td>
+                                    {renderTotalCell(provider)}
+                                    {renderCountCells(provider)}
+                                    {renderEtaCell(provider)}
+                                    {renderSlaCell(provider)}
                                     <td className="progress-cell">
                                       <div className="progress-bar-container">
                                         <div className="progress-bar">
@@ -301,15 +573,13 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                                   </tr>
                                   {isProviderExpanded && bucketStats.length > 0 && (
                                     <tr className="bucket-details-row">
-                                      <td colSpan={6} className="bucket-details-cell">
+                                      <td colSpan={columns.length + 5} className="bucket-details-cell">
                                         <table className="bucket-table">
                                           <thead>
                                             <tr>
                                               <th>Bucket No</th>
                                               <th>Total</th>
-                                              <th>Active</th>
-                                              <th>Exit Queue</th>
-                                              <th>Inactive</th>
+                                              {renderColumnHeaders()}
                                               <th>Status</th>
                                             </tr>
                                           </thead>
@@ -329,16 +599,8 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
                                                   >
                                                     {bucket.bucketNo}
                                                   </td>
-                                                  <td className="number-cell">{formatNumber(bucket.total)}</td>
-                                                  <td className="number-cell active">
-                                                    {formatNumber(bucket.active)} <span className="percentage">({bucketActivePercent}%)</span>
-                                                  </td>
-                                                  <td className="number-cell exit-queue">
-                                                    {formatNumber(bucket.exit_queue)} <span className="percentage">({bucketExitQueuePercent}%)</span>
-                                                  </td>
-                                                  <td className="number-cell inactive">
-                                                    {formatNumber(bucket.inactive)} <span className="percentage">({bucketInactivePercent}%)</span>
-                                                  </td>
+                                                  {renderTotalCell(bucket)}
+                                                  {renderCountCells(bucket)}
                                                   <td className="progress-cell">
                                                     <div className="progress-bar-container">
                                                       <div className="progress-bar">
@@ -372,16 +634,10 @@ const ExitStatisticsTable: React.FC<ExitStatisticsTableProps> = ({
             })}
             <tr className="totals-row">
               <td className="totals-label">Total</td>
-              <td className="number-cell">{formatNumber(totals.total)}</td>
-              <td className="number-cell active">
-                {formatNumber(totals.active)} <span className="percentage">({activePercent}%)</span>
-              </td>
-              <td className="number-cell exit-queue">
-                {formatNumber(totals.exit_queue)} <span className="percentage">({exitQueuePercent}%)</span>
-              </td>
-              <td className="number-cell inactive">
-                {formatNumber(totals.inactive)} <span className="percentage">({inactivePercent}%)</span>
-              </td>
+              {renderTotalCell(totals)}
+              {renderCountCells(totals)}
+              {renderEtaCell(totals)}
+              {renderSlaCell(totals)}
               <td className="progress-cell">
                 <div className="progress-bar-container">
                   <div className="progress-bar">
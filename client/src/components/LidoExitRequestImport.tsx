@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import './ExitCSVUpload.css';
+
+interface LidoExitRequestImportProps {
+  onImport: () => void;
+}
+
+interface ImportResult {
+  total: number;
+  requests: number;
+  otherOperators: number;
+  imported: number;
+  duplicates: number;
+  batchId: number | null;
+  batchSize: number;
+  refSlots: number[];
+  missingRefSlot: number;
+  missingFromValidators: { pubkey: string; validator_index: number | null; node_operator_id: number | null; ref_slot: number | null }[];
+  errors: { row: number; error: string }[];
+}
+
+// Import Lido ValidatorsExitBus exit requests (JSON or CSV export of the oracle events) as a new exit batch
+const LidoExitRequestImport: React.FC<LidoExitRequestImportProps> = ({ onImport }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [operatorIds, setOperatorIds] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; title?: string } | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setFile(e.target.files[0]);
+      setMessage(null);
+    }
+  };
+
+  const handleFileButtonClick = () => {
+    const fileInput = document.getElementById('lido-exit-request-file-input') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.click();
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      setMessage({ type: 'error', text: 'Please select an export file' });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (operatorIds.trim()) formData.append('node_operator_ids', operatorIds.trim());
+
+    try {
+      setImporting(true);
+      setMessage(null);
+
+      const response = await fetch('/api/lido-exit-requests/import', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      const result = data as ImportResult;
+      const warnings = result.missingFromValidators.length + result.errors.length;
+      setMessage({
+        type: warnings > 0 ? 'error' : 'success',
+        text: (result.batchId !== null
+          ? `Created batch #${result.batchId} with ${result.batchSize} keys`
+          : 'No new exit requests')
+          + (result.duplicates > 0 ? ` (${result.duplicates} already imported)` : '')
+          + (result.missingFromValidators.length > 0 ? `, ${result.missingFromValidators.length} not in validators` : '')
+          + (result.errors.length > 0 ? `, ${result.errors.length} errors` : ''),
+        title: [
+          `${result.requests} exit requests in ${result.total} rows`,
+          result.otherOperators > 0 && `${result.otherOperators} requests for other node operators skipped`,
+          result.refSlots.length > 0 && `Reference slots: ${result.refSlots.join(', ')}`,
+          result.missingRefSlot > 0 && `${result.missingRefSlot} requests without a reference slot`,
+          ...result.missingFromValidators.map(m => `Not in validators: ${m.pubkey} (operator ${m.node_operator_id ?? '-'}, index ${m.validator_index ?? '-'})`),
+          ...result.errors.map(e => `Row ${e.row}: ${e.error}`)
+        ].filter(Boolean).join('\n')
+      });
+
+      setFile(null);
+      // Reset file input
+      const fileInput = document.getElementById('lido-exit-request-file-input') as HTMLInputElement;
+      if (fileInput) {
+        fileInput.value = '';
+      }
+
+      onImport();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Import failed'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="exit-csv-upload-container">
+      <div className="exit-csv-upload-form">
+        <input
+          id="lido-exit-request-file-input"
+          type="file"
+          accept=".json,.csv,.tsv,.ndjson"
+          onChange={handleFileChange}
+          disabled={importing}
+          className="file-input-hidden"
+        />
+        <button
+          type="button"
+          onClick={handleFileButtonClick}
+          disabled={importing}
+          className="file-select-button"
+          title="JSON or CSV export of ValidatorsExitBusOracle ValidatorExitRequest events"
+        >
+          {file ? file.name : 'Select Lido Requests'}
+        </button>
+        <label className="batch-date-field" title="Only import requests for these node operator ids (comma list)">
+          Operators
+          <input
+            type="text"
+            placeholder="all"
+            value={operatorIds}
+            onChange={(e) => setOperatorIds(e.target.value)}
+            disabled={importing}
+            size={8}
+          />
+        </label>
+        <button
+          onClick={handleImport}
+          disabled={!file || importing}
+          className="upload-button"
+        >
+          {importing ? 'Importing...' : 'Import'}
+        </button>
+        {message && (
+          <div className={`upload-message-inline ${message.type}`} title={message.title || message.text}>
+            {message.text}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LidoExitRequestImport;
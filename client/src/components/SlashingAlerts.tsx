@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { subscribe } from '../liveEvents';
+import { shortenHex } from '../format';
+import './SlashingAlerts.css';
+
+export type SlashingAlert = {
+  id: number;
+  type: 'slashing';
+  pubkey: string;
+  source: 'validators' | 'exit';
+  beacon_status: string | null;
+  detected_at: string;
+  acknowledged_at: string | null;
+  provider: string | null;
+  bucket_no: string | null;
+  exit_batch_ids: string | null;
+};
+
+// detected_at is a SQLite UTC timestamp ("YYYY-MM-DD HH:MM:SS")
+const formatDetectedAt = (value: string) => new Date(value.replace(' ', 'T') + 'Z').toLocaleString('en-US', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false
+});
+
+// Open slashing alerts; new ones are pushed over /api/events as syncs detect them
+const SlashingAlerts: React.FC = () => {
+  const [alerts, setAlerts] = useState<SlashingAlert[]>([]);
+  const [acknowledging, setAcknowledging] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const merge = (incoming: SlashingAlert[]) => {
+      setAlerts((current) => {
+        const known = new Set(current.map((alert) => alert.id));
+        const added = incoming.filter((alert) => !known.has(alert.id) && !alert.acknowledged_at);
+        return added.length > 0 ? [...added, ...current] : current;
+      });
+    };
+
+    const unsubscribe = subscribe<SlashingAlert[]>('alerts', merge);
+    fetch('/api/alerts')
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then((body: { data: SlashingAlert[] }) => {
+        if (!cancelled) merge(body.data);
+      })
+      .catch(() => {
+        // Alerts are fetched again on the next reload
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const acknowledge = async (ids?: number[]) => {
+    try {
+      setAcknowledging(true);
+      const res = await fetch('/api/alerts/acknowledge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+      if (!res.ok) throw new Error('Failed to acknowledge alerts');
+      setAlerts((current) => (ids ? current.filter((alert) => !ids.includes(alert.id)) : []));
+    } catch (err) {
+      // Keep the banner so the alert can be acknowledged again
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="slashing-alerts" role="alert">
+      <div className="slashing-alerts-header">
+        <span className="slashing-alerts-title">
+          {alerts.length === 1 ? '1 validator slashed' : `${alerts.length} validators slashed`}
+        </span>
+        <button
+          className="slashing-alerts-dismiss"
+          onClick={() => acknowledge()}
+          disabled={acknowledging}
+        >
+          Acknowledge all
+        </button>
+      </div>
+      <ul className="slashing-alerts-list">
+        {alerts.map((alert) => (
+          <li key={alert.id}>
+            <a
+              href={`https://beaconcha.in/validator/${alert.pubkey}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="slashing-alerts-pubkey"
+              title={alert.pubkey}
+            >
+              {shortenHex(alert.pubkey, 10, 6)}
+            </a>
+            <span>{alert.provider || 'Unknown provider'}</span>
+            <span>Bucket {alert.bucket_no || '-'}</span>
+            {alert.exit_batch_ids && <span>Exit batch {alert.exit_batch_ids.split(',').join(', ')}</span>}
+            <span className="slashing-alerts-time">{formatDetectedAt(alert.detected_at)}</span>
+            <button
+              className="slashing-alerts-dismiss"
+              onClick={() => acknowledge([alert.id])}
+              disabled={acknowledging}
+            >
+              Acknowledge
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SlashingAlerts;
@@ -1,38 +1,18 @@
 import React from 'react';
 import './StatisticsTable.css';
-
-// Provider logos mapping
-const PROVIDER_LOGOS: { [key: string]: string } = {
-  'Lido': 'https://s2.coinmarketcap.com/static/img/coins/64x64/8085.png',
-  'Etherfi': 'https://s2.coinmarketcap.com/static/img/coins/64x64/29814.png',
-  'Mantle': 'https://s2.coinmarketcap.com/static/img/coins/64x64/27075.png',
-};
+import { formatUnitValue, getStatusColumns, inUnit, StatusCounts, StatusUnit, StatusView } from '../lifecycle';
+import { getProviderLogo, sortProviderNames, useProviders } from '../providers';
 
 interface Statistics {
   byProvider: {
-    [key: string]: {
-      active: number;
-      exit_queue: number;
-      inactive: number;
-      total: number;
-    };
+    [key: string]: StatusCounts;
   };
   byBucket?: {
     [provider: string]: {
-      [bucketNo: string]: {
-        active: number;
-        exit_queue: number;
-        inactive: number;
-        total: number;
-      };
+      [bucketNo: string]: StatusCounts;
     };
   };
-  totals: {
-    total: number;
-    active: number;
-    exit_queue: number;
-    inactive: number;
-  };
+  totals: StatusCounts;
 }
 
 interface StatisticsTableProps {
@@ -41,12 +21,12 @@ interface StatisticsTableProps {
 }
 
 const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketClick }) => {
-  const providers = ['Lido', 'Etherfi', 'Mantle'];
+  const registry = useProviders();
+  const providers = sortProviderNames(registry, Object.keys(statistics.byProvider));
   const [expandedProvider, setExpandedProvider] = React.useState<string | null>(null);
-
-  const formatNumber = (num: number) => {
-    return num.toLocaleString();
-  };
+  const [view, setView] = React.useState<StatusView>('rollup');
+  const [unit, setUnit] = React.useState<StatusUnit>('count');
+  const columns = getStatusColumns(view);
 
   const calculatePercentage = (value: number, total: number): string => {
     if (total === 0) return '0.0';
@@ -75,26 +55,83 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
       });
   };
 
+  const renderCountCells = (stats: StatusCounts) => {
+    const measured = inUnit(stats, unit);
+    return columns.map((column) => {
+      const value = column.value(measured);
+      return (
+        <td key={column.key} className={`number-cell ${column.className}`}>
+          {formatUnitValue(value, unit)} <span className="percentage">({calculatePercentage(value, measured.total)}%)</span>
+        </td>
+      );
+    });
+  };
+
+  // Total in the selected unit; in ETH the title carries the effective balance sum
+  const renderTotalCell = (stats: StatusCounts, strong = false) => {
+    const measured = inUnit(stats, unit);
+    const text = formatUnitValue(measured.total, unit);
+    return (
+      <td
+        className="number-cell"
+        title={unit === 'eth' ? `Effective balance: ${formatUnitValue(stats.eth?.effective_total || 0, unit)}` : undefined}
+      >
+        {strong ? <strong>{text}</strong> : text}
+      </td>
+    );
+  };
+
   return (
     <div className="statistics-container">
       <div className="table-wrapper">
         <div className="table-header">
           <h2 className="section-title">Validator Statistics</h2>
+          <div className="view-toggles">
+            <div className="view-toggle">
+              <button
+                className={view === 'rollup' ? 'active' : ''}
+                onClick={() => setView('rollup')}
+              >
+                Rollup
+              </button>
+              <button
+                className={view === 'lifecycle' ? 'active' : ''}
+                onClick={() => setView('lifecycle')}
+              >
+                Lifecycle
+              </button>
+            </div>
+            <div className="view-toggle">
+              <button
+                className={unit === 'count' ? 'active' : ''}
+                onClick={() => setUnit('count')}
+              >
+                Counts
+              </button>
+              <button
+                className={unit === 'eth' ? 'active' : ''}
+                onClick={() => setUnit('eth')}
+                title="Sum of current balances"
+              >
+                ETH
+              </button>
+            </div>
+          </div>
         </div>
         <table className="statistics-table">
           <thead>
             <tr>
               <th>Provider</th>
               <th>Total</th>
-              <th>Active</th>
-              <th>Exit Queue</th>
-              <th>Inactive</th>
+              {columns.map((column) => (
+                <th key={column.key}>{column.label}</th>
+              ))}
               <th>Status</th>
             </tr>
           </thead>
           <tbody>
             {providers.map((provider) => {
-              const stats = statistics.byProvider[provider] || {
+              const stats: StatusCounts = statistics.byProvider[provider] || {
                 total: 0,
                 active: 0,
                 exit_queue: 0,
@@ -106,7 +143,7 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
               const inactivePercent = calculatePercentage(stats.inactive, stats.total);
               const nonActivePercent = parseFloat(exitQueuePercent) + parseFloat(inactivePercent);
               
-              const providerLogo = PROVIDER_LOGOS[provider] || null;
+              const providerLogo = getProviderLogo(registry, provider);
               
               const bucketStats = getBucketStats(provider);
               const isExpanded = expandedProvider === provider;
@@ -135,16 +172,8 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
                         )}
                       </div>
                     </td>
-                  <td className="number-cell">{formatNumber(stats.total)}</td>
-                  <td className="number-cell active">
-                    {formatNumber(stats.active)} <span className="percentage">({activePercent}%)</span>
-                  </td>
-                  <td className="number-cell exit-queue">
-                    {formatNumber(stats.exit_queue)} <span className="percentage">({exitQueuePercent}%)</span>
-                  </td>
-                  <td className="number-cell inactive">
-                    {formatNumber(stats.inactive)} <span className="percentage">({inactivePercent}%)</span>
-                  </td>
+                  {renderTotalCell(stats)}
+                  {renderCountCells(stats)}
                   <td className="progress-cell">
                     <div className="progress-bar-container">
                       <div className="progress-bar">
@@ -166,15 +195,15 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
                 </tr>
                 {isExpanded && bucketStats.length > 0 && (
                   <tr className="bucket-details-row">
-                    <td colSpan={6} className="bucket-details-cell">
+                    <td colSpan={columns.length + 3} className="bucket-details-cell">
                       <table className="bucket-table">
                         <thead>
                           <tr>
                             <th>Bucket No</th>
                             <th>Total</th>
-                            <th>Active</th>
-                            <th>Exit Queue</th>
-                            <th>Inactive</th>
+                            {columns.map((column) => (
+                              <th key={column.key}>{column.label}</th>
+                            ))}
                             <th>Status</th>
                           </tr>
                         </thead>
@@ -194,16 +223,8 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
                                 >
                                   {bucket.bucketNo}
                                 </td>
-                                <td className="number-cell">{formatNumber(bucket.total)}</td>
-                                <td className="number-cell active">
-                                  {formatNumber(bucket.active)} <span className="percentage">({bucketActivePercent}%)</span>
-                                </td>
-                                <td className="number-cell exit-queue">
-                                  {formatNumber(bucket.exit_queue)} <span className="percentage">({bucketExitQueuePercent}%)</span>
-                                </td>
-                                <td className="number-cell inactive">
-                                  {formatNumber(bucket.inactive)} <span className="percentage">({bucketInactivePercent}%)</span>
-                                </td>
+                                {renderTotalCell(bucket)}
+                                {renderCountCells(bucket)}
                                 <td className="progress-cell">
                                   <div className="progress-bar-container">
                                     <div className="progress-bar">
@@ -239,27 +260,19 @@ const StatisticsTable: React.FC<StatisticsTableProps> = ({ statistics, onBucketC
                   <strong className="provider-name">Total</strong>
                 </div>
               </td>
-              <td className="number-cell">
-                <strong>{formatNumber(statistics.totals.total)}</strong>
-              </td>
-              <td className="number-cell active">
-                <strong>
-                  {formatNumber(statistics.totals.active)} 
-                  <span className="percentage"> ({calculatePercentage(statistics.totals.active, statistics.totals.total)}%)</span>
-                </strong>
-              </td>
-              <td className="number-cell exit-queue">
-                <strong>
-                  {formatNumber(statistics.totals.exit_queue)} 
-                  <span className="percentage"> ({calculatePercentage(statistics.totals.exit_queue, statistics.totals.total)}%)</span>
-                </strong>
-              </td>
-              <td className="number-cell inactive">
-                <strong>
-                  {formatNumber(statistics.totals.inactive)} 
-                  <span className="percentage"> ({calculatePercentage(statistics.totals.inactive, statistics.totals.total)}%)</span>
-                </strong>
-              </td>
+              {renderTotalCell(statistics.totals, true)}
+              {columns.map((column) => {
+                const measured = inUnit(statistics.totals, unit);
+                const value = column.value(measured);
+                return (
+                  <td key={column.key} className={`number-cell ${column.className}`}>
+                    <strong>
+                      {formatUnitValue(value, unit)} 
+                      <span className="percentage"> ({calculatePercentage(value, measured.total)}%)</span>
+                    </strong>
+                  </td>
+                );
+              })}
               <td className="progress-cell">
                 <div className="progress-bar-container">
                   <div className="progress-bar">
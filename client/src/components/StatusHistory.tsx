@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { subscribe, StatusTransitionsEvent } from '../liveEvents';
+import './StatusHistory.css';
+
+type HistoryEntry = {
+  id: number;
+  pubkey: string;
+  source: 'validators' | 'exit';
+  batch_id?: number | null;
+  batch_filename?: string | null;
+  old_status?: string | null;
+  new_status: string;
+  old_beacon_status?: string | null;
+  new_beacon_status?: string | null;
+  changed_at: string;
+};
+
+interface StatusHistoryProps {
+  pubkey: string;
+}
+
+const StatusHistory: React.FC<StatusHistoryProps> = ({ pubkey }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async (background = false) => {
+      try {
+        if (!background) setLoading(true);
+        const res = await fetch(`/api/validators/${pubkey}/history`);
+        if (!res.ok) throw new Error('Failed to fetch status history');
+        const data = await res.json();
+        setEntries(data.data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch status history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+
+    // Reload when a running sync records a transition for this key
+    return subscribe<StatusTransitionsEvent>('status-transitions', (event) => {
+      if (event.transitions.some((transition) => transition.pubkey === pubkey)) {
+        fetchHistory(true);
+      }
+    });
+  }, [pubkey]);
+
+  const formatDate = (value: string) => {
+    // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+    return new Date(value.replace(' ', 'T') + 'Z').toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  if (loading) {
+    return <div className="status-history-empty">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="status-history-empty error">{error}</div>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="status-history-empty">No status changes recorded yet</div>;
+  }
+
+  return (
+    <ol className="status-history">
+      {entries.map((entry) => (
+        <li key={entry.id} className="status-history-item">
+          <span className="status-history-time">{formatDate(entry.changed_at)}</span>
+          <span className="status-history-source">
+            {entry.source === 'exit'
+              ? entry.batch_filename || `Batch #${entry.batch_id}`
+              : 'Validators'}
+          </span>
+          <span className="status-history-change">
+            {entry.old_status && (
+              <>
+                <span className={`status-badge status-${entry.old_status}`}>{entry.old_status}</span>
+                <span className="status-history-arrow">→</span>
+              </>
+            )}
+            <span className={`status-badge status-${entry.new_status}`}>{entry.new_status}</span>
+          </span>
+          {entry.new_beacon_status !== entry.old_beacon_status && (
+            <span className="status-history-beacon">
+              {entry.old_beacon_status || 'not found'} → {entry.new_beacon_status || 'not found'}
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusHistory;
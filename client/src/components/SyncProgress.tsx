@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { subscribe } from '../liveEvents';
+import './SyncProgress.css';
+
+export type SyncJob = {
+  id: number;
+  type: 'validators' | 'exit';
+  // partial: finished with some keys failed; failed: stopped by an error or no key synced
+  status: 'queued' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+  total: number;
+  processed: number;
+  failed: number;
+  batch_size: number;
+  total_batches: number;
+  completed_batches: number;
+  state_id?: string | null;
+  error?: string | null;
+  errors?: Array<{ pubkey: string | null; batch_no: number | null; error: string }>;
+};
+
+interface SyncProgressProps {
+  jobId: number;
+  onFinish?: (job: SyncJob) => void;
+}
+
+// Progress is pushed over /api/events; polling only covers a dropped connection
+const POLL_INTERVAL_MS = 5000;
+
+export const isJobActive = (job: SyncJob) => job.status === 'queued' || job.status === 'running';
+
+const SyncProgress: React.FC<SyncProgressProps> = ({ jobId, onFinish }) => {
+  const [job, setJob] = useState<SyncJob | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  // Keep the latest callback without restarting the polling loop
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  useEffect(() => {
+    let stopped = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const apply = (data: SyncJob) => {
+      if (stopped) return;
+      setJob(data);
+      if (!isJobActive(data)) {
+        stopped = true;
+        if (timeoutId) clearTimeout(timeoutId);
+        if (onFinishRef.current) onFinishRef.current(data);
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/sync-jobs/${jobId}`);
+        if (!res.ok) throw new Error('Failed to fetch sync job');
+        apply(await res.json());
+      } catch (err) {
+        // Retried on the next poll
+      }
+      if (!stopped) {
+        timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    const unsubscribe = subscribe<SyncJob>('sync-job', (data) => {
+      if (data.id === jobId) apply(data);
+    });
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timeoutId) clearTimeout(timeoutId);
+      unsubscribe();
+    };
+  }, [jobId]);
+
+  const handleCancel = async () => {
+    try {
+      setCancelling(true);
+      await fetch(`/api/sync-jobs/${jobId}/cancel`, { method: 'POST' });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (!job) return null;
+
+  const done = job.processed + job.failed;
+  const percent = job.total > 0 ? Math.min(100, (done / job.total) * 100) : 0;
+  const failedPercent = job.total > 0 ? Math.min(100, (job.failed / job.total) * 100) : 0;
+
+  return (
+    <div className={`sync-progress sync-progress-${job.status}`}>
+      <div className="sync-progress-info">
+        <span className="sync-progress-label">
+          {job.type === 'exit' ? 'Exit sync' : 'Validator sync'} #{job.id}
+          {job.state_id && job.state_id !== 'head' && ` @ ${job.state_id}`}: {job.status}
+        </span>
+        <span className="sync-progress-count">
+          {done.toLocaleString()} / {job.total.toLocaleString()}
+          {' '}(batch {job.completed_batches}/{job.total_batches})
+          {job.failed > 0 && <span className="sync-progress-failed"> · {job.failed.toLocaleString()} failed</span>}
+        </span>
+        {isJobActive(job) && (
+          <button className="sync-progress-cancel" onClick={handleCancel} disabled={cancelling}>
+            {cancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        )}
+      </div>
+      <div className="sync-progress-bar">
+        <div className="sync-progress-fill" style={{ width: `${percent - failedPercent}%` }} />
+        {failedPercent > 0 && (
+          <div className="sync-progress-fill failed" style={{ width: `${failedPercent}%` }} />
+        )}
+      </div>
+      {job.error && <div className="sync-progress-error">{job.error}</div>}
+    </div>
+  );
+};
+
+export default SyncProgress;
@@ -0,0 +1,85 @@
+import React from 'react';
+import './UploadPreview.css';
+import { shortenHex } from '../format';
+
+// Dry-run report of a CSV upload (see server/uploadCheck.js); items are capped, counts are not
+type ReportSection<T> = { count: number; items: T[] };
+
+type ReportRow = { line: number; pubkey: string };
+
+export type UploadReport = {
+  rows: number;
+  valid: number;
+  invalid: ReportSection<ReportRow>;
+  duplicates: ReportSection<ReportRow & { first_line: number }>;
+  // Validators upload: keys in validators; exit upload: keys already in an exit batch
+  existing: ReportSection<ReportRow & { provider?: string; batch_id?: number }>;
+  providerChanges?: ReportSection<ReportRow & { from: string; to: string }>;
+  notInValidators?: ReportSection<ReportRow>;
+};
+
+interface UploadPreviewProps {
+  report: UploadReport;
+  busy: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const renderSection = <T extends ReportRow>(
+  title: string,
+  section: ReportSection<T> | undefined,
+  describe: (item: T) => string,
+  warning: boolean
+) => {
+  if (!section || section.count === 0) return null;
+  return (
+    <details className={`upload-preview-section ${warning ? 'warning' : ''}`}>
+      <summary>{section.count.toLocaleString()} {title}</summary>
+      <ul>
+        {section.items.map((item) => (
+          <li key={`${item.line}-${item.pubkey}`}>
+            <span className="upload-preview-line">Line {item.line}</span>
+            <span className="mono" title={item.pubkey}>{shortenHex(item.pubkey)}</span>
+            {describe(item)}
+          </li>
+        ))}
+        {section.count > section.items.length && (
+          <li className="upload-preview-more">and {(section.count - section.items.length).toLocaleString()} more</li>
+        )}
+      </ul>
+    </details>
+  );
+};
+
+const UploadPreview: React.FC<UploadPreviewProps> = ({ report, busy, onConfirm, onCancel }) => {
+  const skipped = report.invalid.count + report.duplicates.count;
+
+  return (
+    <div className="upload-preview">
+      <div className="upload-preview-summary">
+        {report.rows.toLocaleString()} rows, {report.valid.toLocaleString()} keys to upload
+        {skipped > 0 && `, ${skipped.toLocaleString()} rows skipped`}
+      </div>
+      {renderSection('invalid pubkeys (not 48 bytes of hex)', report.invalid, () => '', true)}
+      {renderSection('duplicates within the file', report.duplicates, (item) => `repeats line ${item.first_line}`, true)}
+      {renderSection('keys moving between providers', report.providerChanges, (item) => `${item.from} → ${item.to}`, true)}
+      {renderSection('keys not in validators', report.notInValidators, () => '', true)}
+      {renderSection(
+        'keys already present',
+        report.existing,
+        (item) => (item.batch_id !== undefined ? `in batch #${item.batch_id}` : item.provider || ''),
+        false
+      )}
+      <div className="upload-preview-actions">
+        <button onClick={onConfirm} disabled={busy || report.valid === 0} className="upload-button">
+          {busy ? 'Uploading...' : `Upload ${report.valid.toLocaleString()} keys`}
+        </button>
+        <button onClick={onCancel} disabled={busy} className="upload-preview-cancel">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UploadPreview;
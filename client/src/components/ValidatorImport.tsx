@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import './ExitCSVUpload.css';
+import './ValidatorImport.css';
+import UploadPreview, { UploadReport } from './UploadPreview';
+import { formatSqlTime } from '../sla';
+
+interface ValidatorImportProps {
+  onImport: () => void;
+}
+
+// Row of /api/imports (see server/validatorImports.js)
+type ImportRecord = {
+  id: number;
+  filename: string;
+  source: 'csv' | 'key_files' | 'script';
+  row_count: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  providers: { [provider: string]: number };
+  imported_at: string;
+  reverted_at: string | null;
+  // Keys still pointing at this import
+  key_count: number;
+};
+
+const SOURCE_LABELS: Record<ImportRecord['source'], string> = {
+  csv: 'CSV',
+  key_files: 'Key files',
+  script: 'Load script'
+};
+
+// Validator upload: a CSV is checked first and uploaded after the preview is confirmed; keystores,
+// deposit data and zips of them go straight to the key file import
+const ValidatorImport: React.FC<ValidatorImportProps> = ({ onImport }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<UploadReport | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; title?: string } | null>(null);
+  const [imports, setImports] = useState<ImportRecord[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const isCsv = files.length === 1 && /\.(csv|tsv)$/i.test(files[0].name);
+
+  const fetchImports = async () => {
+    try {
+      const response = await fetch('/api/imports');
+      if (!response.ok) throw new Error('Failed to fetch imports');
+      const body = await response.json();
+      setImports(body.data);
+    } catch (err) {
+      console.error('Error fetching imports:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchImports();
+  }, []);
+
+  const resetFiles = () => {
+    setFiles([]);
+    setPreview(null);
+    // Reset file input
+    const fileInput = document.getElementById('validator-import-file-input') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.value = '';
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      setFiles(Array.from(e.target.files));
+      setPreview(null);
+      setMessage(null);
+    }
+  };
+
+  const handleFileButtonClick = () => {
+    const fileInput = document.getElementById('validator-import-file-input') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.click();
+    }
+  };
+
+  const post = async (url: string, formData: FormData) => {
+    const response = await fetch(url, { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed');
+    }
+    return data;
+  };
+
+  const finishImport = (text: string, title?: string) => {
+    setMessage({ type: 'success', text, title });
+    resetFiles();
+    fetchImports();
+    onImport();
+  };
+
+  const handleUpload = async () => {
+    if (files.length === 0) {
+      setMessage({ type: 'error', text: 'Please select a CSV or key files' });
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setMessage(null);
+
+      if (isCsv) {
+        const formData = new FormData();
+        formData.append('csv', files[0]);
+        setPreview(await post('/api/upload-csv?dryRun=true', formData));
+        return;
+      }
+
+      const formData = new FormData();
+      files.forEach((file) => formData.append('files', file));
+      const data = await post('/api/upload-keys', formData);
+      finishImport(
+        `Import #${data.importId}: ${data.inserted} new, ${data.updated} changed` +
+          (data.errors.length > 0 ? `, ${data.errors.length} files skipped` : ''),
+        [
+          `${data.keystores} keystores, ${data.deposits} deposits in ${data.files} files`,
+          ...data.errors.map((e: { file: string; error: string }) => `${e.file}: ${e.error}`)
+        ].join('\n')
+      );
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Upload failed'
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append('csv', files[0]);
+      const data = await post('/api/upload-csv', formData);
+      finishImport(`Import #${data.importId}: ${data.inserted} new, ${data.updated} changed, ${data.unchanged} unchanged`);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Upload failed'
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRevert = async (record: ImportRecord) => {
+    if (!window.confirm(`Revert import #${record.id} "${record.filename}"? Keys it created are deleted and keys it changed get their previous values back.`)) {
+      return;
+    }
+
+    try {
+      setRevertingId(record.id);
+      const response = await fetch(`/api/imports/${record.id}/revert`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Revert failed');
+      }
+      setMessage({
+        type: 'success',
+        text: `Reverted import #${record.id}: ${data.deleted} deleted, ${data.restored} restored` +
+          (data.skipped > 0 ? `, ${data.skipped} skipped` : '')
+      });
+      fetchImports();
+      onImport();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Revert failed'
+      });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="exit-csv-upload-container validator-import">
+      <div className="exit-csv-upload-form">
+        <input
+          id="validator-import-file-input"
+          type="file"
+          accept=".csv,.tsv,.json,.zip"
+          multiple
+          onChange={handleFileChange}
+          disabled={uploading}
+          className="file-input-hidden"
+        />
+        <button
+          type="button"
+          onClick={handleFileButtonClick}
+          disabled={uploading}
+          className="file-select-button"
+          title="A validator CSV, or keystore / deposit_data JSON files and zips of them"
+        >
+          {files.length === 0
+            ? 'Select CSV or Key Files'
+            : files.length === 1 ? files[0].name : `${files.length} files`}
+        </button>
+        <button
+          onClick={handleUpload}
+          disabled={files.length === 0 || uploading || preview !== null}
+          className="upload-button"
+        >
+          {uploading && !preview ? (isCsv ? 'Checking...' : 'Importing...') : 'Upload'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowHistory(!showHistory)}
+          className="import-history-toggle"
+        >
+          {showHistory ? 'Hide History' : `Import History (${imports.length})`}
+        </button>
+        {message && (
+          <div className={`upload-message-inline ${message.type}`} title={message.title || message.text}>
+            {message.text}
+          </div>
+        )}
+      </div>
+      {preview && (
+        <UploadPreview
+          report={preview}
+          busy={uploading}
+          onConfirm={handleConfirm}
+          onCancel={() => setPreview(null)}
+        />
+      )}
+      {showHistory && (
+        <table className="import-history-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>File</th>
+              <th>Source</th>
+              <th>Imported</th>
+              <th>Rows</th>
+              <th>New</th>
+              <th>Changed</th>
+              <th>Providers</th>
+              <th>Keys</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {imports.map((record) => (
+              <tr key={record.id} className={record.reverted_at ? 'reverted' : ''}>
+                <td>{record.id}</td>
+                <td className="import-filename" title={record.filename}>{record.filename}</td>
+                <td>{SOURCE_LABELS[record.source] || record.source}</td>
+                <td>{formatSqlTime(record.imported_at)}</td>
+                <td className="number-cell">{record.row_count.toLocaleString()}</td>
+                <td className="number-cell">{record.inserted.toLocaleString()}</td>
+                <td className="number-cell">{record.updated.toLocaleString()}</td>
+                <td>
+                  {Object.entries(record.providers)
+                    .map(([provider, count]) => `${provider} ${count.toLocaleString()}`)
+                    .join(', ') || '-'}
+                </td>
+                <td className="number-cell" title="Keys this import created or last changed">
+                  {record.key_count.toLocaleString()}
+                </td>
+                <td>
+                  {record.reverted_at ? (
+                    <span className="import-reverted" title={`Reverted ${formatSqlTime(record.reverted_at)}`}>Reverted</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRevert(record)}
+                      disabled={revertingId !== null}
+                      className="import-revert-button"
+                    >
+                      {revertingId === record.id ? 'Reverting...' : 'Revert'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {imports.length === 0 && (
+              <tr>
+                <td colSpan={10} className="empty">No imports yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ValidatorImport;
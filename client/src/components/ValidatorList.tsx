@@ -1,18 +1,30 @@
 import React, { useEffect, useState } from 'react';
 import './ValidatorList.css';
-
-// Provider logos mapping
-const PROVIDER_LOGOS: { [key: string]: string } = {
-  'Lido': 'https://s2.coinmarketcap.com/static/img/coins/64x64/8085.png',
-  'Etherfi': 'https://s2.coinmarketcap.com/static/img/coins/64x64/29814.png',
-  'Mantle': 'https://s2.coinmarketcap.com/static/img/coins/64x64/27075.png',
-};
+import StatusHistory from './StatusHistory';
+import { LIFECYCLE_LABELS, LIFECYCLE_STATES, LifecycleState } from '../lifecycle';
+import { formatEpoch, formatGwei, shortenHex } from '../format';
+import { getProviderLogo, useProviders } from '../providers';
 
 type Validator = {
   pubkey: string;
   provider: string;
   status: string;
+  beacon_status?: string | null;
+  lifecycle?: LifecycleState | null;
+  validator_index?: number | null;
+  balance?: number | null;
+  effective_balance?: number | null;
+  activation_epoch?: number | null;
+  exit_epoch?: number | null;
+  withdrawable_epoch?: number | null;
+  slashed?: number | null;
+  withdrawal_credentials?: string | null;
+  fetch_error?: string | null;
   json_filename?: string | null;
+  // From imported keystores / deposit data (deposit_amount in gwei)
+  derivation_path?: string | null;
+  deposit_withdrawal_credentials?: string | null;
+  deposit_amount?: number | null;
   bucket_no?: string | null;
   updated_at?: string;
 };
@@ -27,12 +39,15 @@ type ApiResponse = {
 interface ValidatorListProps {
   initialProvider?: string;
   initialBucketNo?: string;
+  // Bumped after an import or revert to reload the current page
+  refreshKey?: number;
 }
 
 const DEFAULT_PAGE_SIZE = 20;
 const PAGE_SIZE_OPTIONS = [20, 50, 100];
 
-const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', initialBucketNo = '' }) => {
+const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', initialBucketNo = '', refreshKey = 0 }) => {
+  const registry = useProviders();
   const [items, setItems] = useState<Validator[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
@@ -43,6 +58,9 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
   const [bucketNo, setBucketNo] = useState(initialBucketNo);
   const [provider, setProvider] = useState(initialProvider);
   const [status, setStatus] = useState('');
+  const [lifecycle, setLifecycle] = useState('');
+  const [slashedOnly, setSlashedOnly] = useState(false);
+  const [historyPubkey, setHistoryPubkey] = useState<string | null>(null);
 
   const fetchData = async () => {
     try {
@@ -54,6 +72,8 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
       if (bucketNo) params.append('bucket_no', bucketNo);
       if (provider) params.append('provider', provider);
       if (status) params.append('status', status);
+      if (lifecycle) params.append('lifecycle', lifecycle);
+      if (slashedOnly) params.append('slashed', '1');
 
       const res = await fetch(`/api/validators?${params.toString()}`);
       if (!res.ok) throw new Error('Failed to fetch validators');
@@ -83,7 +103,7 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
   useEffect(() => {
     fetchData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, pageSize]);
+  }, [page, pageSize, refreshKey]);
 
   // Auto-search with debounce when search text filters change (q, bucketNo)
   // Uses OR condition - user can input one or both
@@ -102,7 +122,7 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [q, bucketNo]);
 
-  // Immediate search when dropdown filters change (provider, status)
+  // Immediate search when dropdown filters change (provider, status, lifecycle, slashed)
   // These are individual filters applied with AND condition
   useEffect(() => {
     if (page !== 0) {
@@ -111,7 +131,7 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
       fetchData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [provider, status]);
+  }, [provider, status, lifecycle, slashedOnly]);
 
   const handleSearch = () => {
     setPage(0);
@@ -132,6 +152,13 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
     // fetchData will be triggered by useEffect
   };
 
+  // Handle lifecycle change - immediate filter (including "All Lifecycle")
+  const handleLifecycleChange = (value: string) => {
+    setLifecycle(value);
+    setPage(0);
+    // fetchData will be triggered by useEffect
+  };
+
   const handlePageSizeChange = (newSize: number) => {
     setPageSize(newSize);
     setPage(0);
@@ -158,9 +185,9 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
           />
           <select value={provider} onChange={(e) => handleProviderChange(e.target.value)}>
             <option value="">All Providers</option>
-            <option value="Lido">Lido</option>
-            <option value="Etherfi">Etherfi</option>
-            <option value="Mantle">Mantle</option>
+            {registry.map((p) => (
+              <option key={p.id} value={p.name}>{p.name}</option>
+            ))}
           </select>
           <select value={status} onChange={(e) => handleStatusChange(e.target.value)}>
             <option value="">All Status</option>
@@ -169,6 +196,22 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
             <option value="inactive">inactive</option>
             <option value="pending">pending</option>
           </select>
+          <select value={lifecycle} onChange={(e) => handleLifecycleChange(e.target.value)}>
+            <option value="">All Lifecycle</option>
+            {LIFECYCLE_STATES.map((state) => (
+              <option key={state} value={state}>{LIFECYCLE_LABELS[state]}</option>
+            ))}
+          </select>
+          <select
+            value={slashedOnly ? '1' : ''}
+            onChange={(e) => {
+              setSlashedOnly(e.target.value === '1');
+              setPage(0);
+            }}
+          >
+            <option value="">All Keys</option>
+            <option value="1">Slashed only</option>
+          </select>
           <button onClick={handleSearch} disabled={loading}>
             {loading ? 'Loading...' : 'Search'}
           </button>
@@ -185,6 +228,14 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
               <th>JSON File</th>
               <th>Pubkey</th>
               <th>Status</th>
+              <th>Lifecycle</th>
+              <th>Index</th>
+              <th>Balance</th>
+              <th>Eff. Balance</th>
+              <th>Activation</th>
+              <th>Exit</th>
+              <th>Withdrawable</th>
+              <th>Withdrawal Credentials</th>
             </tr>
           </thead>
           <tbody>
@@ -193,10 +244,13 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
               const pubkeyWithoutPrefix = v.pubkey.startsWith('0x') ? v.pubkey.slice(2) : v.pubkey;
               const beaconchaUrl = `https://beaconcha.in/validator/${pubkeyWithoutPrefix}`;
               
-              const providerLogo = v.provider ? PROVIDER_LOGOS[v.provider] : null;
+              const providerLogo = getProviderLogo(registry, v.provider);
+              
+              const isHistoryOpen = historyPubkey === v.pubkey;
               
               return (
-                <tr key={v.pubkey}>
+                <React.Fragment key={v.pubkey}>
+                <tr>
                   <td className="number-cell">{(page * pageSize) + index + 1}</td>
                   <td className="provider-cell">
                     {v.provider ? (
@@ -215,7 +269,7 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
                     )}
                   </td>
                   <td>{v.bucket_no || '-'}</td>
-                  <td className="json-file-cell">{v.json_filename || '-'}</td>
+                  <td className="json-file-cell" title={v.derivation_path ? `Path: ${v.derivation_path}` : undefined}>{v.json_filename || '-'}</td>
                   <td className="pubkey-cell mono">
                     <a 
                       href={beaconchaUrl} 
@@ -227,14 +281,66 @@ const ValidatorList: React.FC<ValidatorListProps> = ({ initialProvider = '', ini
                     </a>
                   </td>
                   <td>
-                    <span className={`status-badge status-${v.status}`}>{v.status}</span>
+                    <span
+                      className={`status-badge status-${v.status} clickable`}
+                      onClick={() => setHistoryPubkey(isHistoryOpen ? null : v.pubkey)}
+                      title="Show status history"
+                    >
+                      {v.status}
+                    </span>
+                  </td>
+                  <td>
+                    {v.fetch_error ? (
+                      <span
+                        className="lifecycle-badge lifecycle-fetch-failed"
+                        title={`Last known: ${LIFECYCLE_LABELS[v.lifecycle || 'unknown']} (${v.beacon_status || 'not synced'})\n${v.fetch_error}`}
+                      >
+                        Unknown (fetch failed)
+                      </span>
+                    ) : (
+                      <span
+                        className={`lifecycle-badge lifecycle-${v.lifecycle || 'unknown'}`}
+                        title={v.beacon_status || 'Not synced'}
+                      >
+                        {LIFECYCLE_LABELS[v.lifecycle || 'unknown']}
+                      </span>
+                    )}
+                    {v.slashed && v.lifecycle !== 'slashed' ? (
+                      <span className="lifecycle-badge lifecycle-slashed slashed-flag" title="Slashed on the beacon chain">
+                        Slashed
+                      </span>
+                    ) : null}
+                  </td>
+                  <td className="number-cell">{v.validator_index ?? '-'}</td>
+                  <td className="number-cell">{formatGwei(v.balance)}</td>
+                  <td className="number-cell">{formatGwei(v.effective_balance, 0)}</td>
+                  <td className="number-cell">{formatEpoch(v.activation_epoch)}</td>
+                  <td className="number-cell">{formatEpoch(v.exit_epoch)}</td>
+                  <td className="number-cell">{formatEpoch(v.withdrawable_epoch)}</td>
+                  <td
+                    className="mono"
+                    title={v.withdrawal_credentials
+                      ? v.withdrawal_credentials
+                      : v.deposit_withdrawal_credentials
+                        ? `From deposit data (${formatGwei(v.deposit_amount, 0)} ETH): ${v.deposit_withdrawal_credentials}`
+                        : undefined}
+                  >
+                    {shortenHex(v.withdrawal_credentials || v.deposit_withdrawal_credentials)}
                   </td>
                 </tr>
+                {isHistoryOpen && (
+                  <tr className="history-row">
+                    <td colSpan={14}>
+                      <StatusHistory pubkey={v.pubkey} />
+                    </td>
+                  </tr>
+                )}
+                </React.Fragment>
               );
             })}
             {items.length === 0 && !loading && (
               <tr>
-                <td colSpan={6} className="empty">
+                <td colSpan={14} className="empty">
                   No data
                 </td>
               </tr>
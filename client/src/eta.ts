@@ -0,0 +1,69 @@
+// Exit and withdrawal estimates (see server/etaService.js)
+
+// 'chain': exit epochs assigned on chain, 'queue': projected from the current exit queue
+export type EtaBasis = 'withdrawn' | 'chain' | 'queue' | null;
+
+export type ValidatorEta = {
+  basis: EtaBasis;
+  exit_at: string | null;
+  withdrawable_at: string | null;
+  withdrawn_by: string | null;
+};
+
+export type EtaSummary = {
+  total: number;
+  withdrawn: number;
+  from_chain: number;
+  from_queue: number;
+  unknown: number;
+  exit_by: string | null;
+  withdrawable_by: string | null;
+  withdrawn_by: string | null;
+};
+
+const formatDate = (iso: string | null): string => {
+  if (!iso) return '-';
+  return new Date(iso).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+};
+
+// "Expected fully withdrawn by" label for a group of validators
+export const formatEtaSummary = (eta?: EtaSummary): string => {
+  if (!eta || eta.total === 0) return '-';
+  if (eta.withdrawn === eta.total) return 'Withdrawn';
+  return formatDate(eta.withdrawn_by);
+};
+
+export const etaSummaryTitle = (eta?: EtaSummary): string | undefined => {
+  if (!eta || eta.total === 0) return undefined;
+  const lines = [
+    `Exited by: ${formatDate(eta.exit_by)}`,
+    `Withdrawable by: ${formatDate(eta.withdrawable_by)}`,
+    `Withdrawn: ${eta.withdrawn}, on-chain epochs: ${eta.from_chain}, queue projection: ${eta.from_queue}`
+  ];
+  if (eta.from_queue > 0) {
+    lines.push('Queue projection assumes exits not yet requested are submitted now');
+  }
+  if (eta.unknown > 0) {
+    lines.push(`${eta.unknown} without an estimate (not synced or not active)`);
+  }
+  return lines.join('\n');
+};
+
+export const formatValidatorEta = (eta?: ValidatorEta): string => {
+  if (!eta || !eta.basis) return '-';
+  if (eta.basis === 'withdrawn') return 'Withdrawn';
+  return formatDate(eta.withdrawn_by);
+};
+
+export const validatorEtaTitle = (eta?: ValidatorEta): string | undefined => {
+  if (!eta || !eta.basis || eta.basis === 'withdrawn') return undefined;
+  return [
+    `Exit: ${formatDate(eta.exit_at)}`,
+    `Withdrawable: ${formatDate(eta.withdrawable_at)}`,
+    eta.basis === 'queue' ? 'Projected from the current exit queue' : 'From on-chain exit epochs'
+  ].join('\n');
+};
@@ -0,0 +1,25 @@
+// Display helpers for beacon chain values
+
+const GWEI_PER_ETH = 1e9;
+
+// Format a gwei amount as ETH, e.g. 32000000000 -> "32.0000"
+export const formatGwei = (gwei?: number | null, digits = 4): string => {
+  if (gwei === undefined || gwei === null) return '-';
+  return (gwei / GWEI_PER_ETH).toLocaleString(undefined, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  });
+};
+
+// Format an epoch (null means not scheduled)
+export const formatEpoch = (epoch?: number | null): string => {
+  if (epoch === undefined || epoch === null) return '-';
+  return epoch.toLocaleString();
+};
+
+// Shorten a long hex string for table cells, e.g. 0x010000…abcd
+export const shortenHex = (value?: string | null, head = 8, tail = 4): string => {
+  if (!value) return '-';
+  if (value.length <= head + tail + 1) return value;
+  return `${value.slice(0, head)}…${value.slice(-tail)}`;
+};
@@ -0,0 +1,101 @@
+// Lifecycle states derived from the full beacon status (see server/beaconApi.js)
+export const LIFECYCLE_STATES = [
+  'pending',
+  'active',
+  'exiting',
+  'exited',
+  'withdrawable',
+  'withdrawn',
+  'slashed',
+  'unknown'
+] as const;
+
+export type LifecycleState = typeof LIFECYCLE_STATES[number];
+
+export type LifecycleCounts = {
+  [state in LifecycleState]?: number;
+};
+
+export const LIFECYCLE_LABELS: { [state in LifecycleState]: string } = {
+  pending: 'Pending',
+  active: 'Active',
+  exiting: 'Exiting',
+  exited: 'Exited',
+  withdrawable: 'Withdrawable',
+  withdrawn: 'Withdrawn',
+  slashed: 'Slashed',
+  unknown: 'Unknown'
+};
+
+// Three-bucket rollup kept alongside the lifecycle view
+export const ROLLUP_STATES = ['active', 'exit_queue', 'inactive'] as const;
+
+export type RollupState = typeof ROLLUP_STATES[number];
+
+export const ROLLUP_LABELS: { [state in RollupState]: string } = {
+  active: 'Active',
+  exit_queue: 'Exit Queue',
+  inactive: 'Inactive'
+};
+
+export type StatusView = 'rollup' | 'lifecycle';
+
+export type StatusUnit = 'count' | 'eth';
+
+// Balance sums in ETH, shaped like the counts so the same columns can read them
+export interface EthSums {
+  total: number;
+  effective_total: number;
+  active: number;
+  exit_queue: number;
+  inactive: number;
+  lifecycle?: LifecycleCounts;
+}
+
+export interface StatusCounts {
+  total: number;
+  active: number;
+  exit_queue: number;
+  inactive: number;
+  lifecycle?: LifecycleCounts;
+  eth?: EthSums;
+}
+
+const NO_ETH: EthSums = { total: 0, effective_total: 0, active: 0, exit_queue: 0, inactive: 0 };
+
+// Stats measured in the selected unit (ETH sums are zero when the server sent none)
+export const inUnit = (stats: StatusCounts, unit: StatusUnit): StatusCounts => {
+  return unit === 'eth' ? (stats.eth || NO_ETH) : stats;
+};
+
+export const formatUnitValue = (value: number, unit: StatusUnit): string => {
+  if (unit === 'eth') {
+    return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ETH`;
+  }
+  return value.toLocaleString();
+};
+
+export interface StatusColumn {
+  key: string;
+  label: string;
+  className: string;
+  value: (stats: StatusCounts) => number;
+}
+
+// Count columns shown by the statistics tables for the selected view
+export const getStatusColumns = (view: StatusView): StatusColumn[] => {
+  if (view === 'lifecycle') {
+    return LIFECYCLE_STATES.map((state) => ({
+      key: state,
+      label: LIFECYCLE_LABELS[state],
+      className: `lifecycle-${state}`,
+      value: (stats: StatusCounts) => (stats.lifecycle && stats.lifecycle[state]) || 0
+    }));
+  }
+  return ROLLUP_STATES.map((state) => ({
+    key: state,
+    label: ROLLUP_LABELS[state],
+    className: state === 'exit_queue' ? 'exit-queue' : state,
+    value: (stats: StatusCounts) => stats[state] || 0
+  }));
+};
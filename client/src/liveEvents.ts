@@ -0,0 +1,69 @@
+// Live updates pushed by the server over Server-Sent Events (/api/events)
+// One EventSource is shared by all subscribers and closed when the last one leaves
+
+type Handler = (data: unknown) => void;
+
+const EVENTS_URL = '/api/events';
+
+const listeners = new Map<string, Set<Handler>>();
+let source: EventSource | null = null;
+
+const dispatch = (event: Event) => {
+  const handlers = listeners.get(event.type);
+  if (!handlers) return;
+  let data: unknown;
+  try {
+    data = JSON.parse((event as MessageEvent).data);
+  } catch (err) {
+    return;
+  }
+  handlers.forEach((handler) => handler(data));
+};
+
+// Subscribe to a server event; returns the unsubscribe function
+export const subscribe = <T>(eventName: string, handler: (data: T) => void): (() => void) => {
+  if (typeof EventSource === 'undefined') {
+    return () => {};
+  }
+  if (!source) {
+    source = new EventSource(EVENTS_URL);
+  }
+
+  const wrapped = handler as Handler;
+  let handlers = listeners.get(eventName);
+  if (!handlers) {
+    handlers = new Set();
+    listeners.set(eventName, handlers);
+    source.addEventListener(eventName, dispatch);
+  }
+  handlers.add(wrapped);
+
+  return () => {
+    const current = listeners.get(eventName);
+    if (!current) return;
+    current.delete(wrapped);
+    if (current.size === 0) {
+      listeners.delete(eventName);
+      source?.removeEventListener(eventName, dispatch);
+    }
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+};
+
+export type StatusTransition = {
+  pubkey: string;
+  batch_id: number | null;
+  old_status: string | null;
+  new_status: string;
+  old_beacon_status: string | null;
+  new_beacon_status: string | null;
+};
+
+export type StatusTransitionsEvent = {
+  jobId: number;
+  type: 'validators' | 'exit';
+  transitions: StatusTransition[];
+};
@@ -0,0 +1,72 @@
+// Provider registry (see server/providers.js), loaded once and kept current over live events
+import { useEffect, useState } from 'react';
+import { subscribe } from './liveEvents';
+
+export type Provider = {
+  id: number;
+  name: string;
+  aliases: string[];
+  logo_url: string | null;
+  // Expected withdrawal credentials or withdrawal addresses, empty when not checked
+  withdrawal_credentials: string[];
+  sort_order: number;
+};
+
+let providers: Provider[] = [];
+let loading: Promise<void> | null = null;
+const listeners = new Set<(providers: Provider[]) => void>();
+
+const setAll = (next: Provider[]) => {
+  providers = next;
+  listeners.forEach((listener) => listener(next));
+};
+
+const load = (): Promise<void> => {
+  if (!loading) {
+    loading = fetch('/api/providers')
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error('Failed to fetch providers'))))
+      .then((body) => setAll(body.data))
+      .catch((err) => {
+        console.error('Error fetching providers:', err);
+        // Try again on the next mount
+        loading = null;
+      });
+  }
+  return loading;
+};
+
+// Registered providers in display order
+export const useProviders = (): Provider[] => {
+  const [current, setCurrent] = useState<Provider[]>(providers);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    load();
+    const unsubscribe = subscribe<Provider[]>('providers', setAll);
+    return () => {
+      listeners.delete(setCurrent);
+      unsubscribe();
+    };
+  }, []);
+
+  return current;
+};
+
+export const getProviderLogo = (registry: Provider[], name?: string | null): string | null => {
+  if (!name) return null;
+  const provider = registry.find((p) => p.name === name);
+  return provider ? provider.logo_url : null;
+};
+
+// Provider names in registry order, followed by unregistered names alphabetically
+export const sortProviderNames = (registry: Provider[], names: string[]): string[] => {
+  const order = registry.map((p) => p.name);
+  return [...names].sort((a, b) => {
+    const aIndex = order.indexOf(a);
+    const bIndex = order.indexOf(b);
+    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
+    if (aIndex !== -1) return -1;
+    if (bIndex !== -1) return 1;
+    return a.localeCompare(b);
+  });
+};
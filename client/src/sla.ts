@@ -0,0 +1,58 @@
+// Exit deadlines and SLA (see server/exitSla.js)
+
+// met / late: reached active_exiting by / after the deadline; pending / overdue: not yet, deadline ahead / passed
+export type SlaStatus = 'met' | 'late' | 'pending' | 'overdue';
+
+export type SlaSummary = {
+  // Worst status among the keys, null when no deadline applies
+  status: SlaStatus | null;
+  met: number;
+  late: number;
+  pending: number;
+  overdue: number;
+  // Seconds from the batch request to active_exiting, over keys that got there
+  avg_time_to_exiting: number | null;
+  max_time_to_exiting: number | null;
+};
+
+export const SLA_LABELS: Record<SlaStatus, string> = {
+  met: 'Met',
+  late: 'Late',
+  pending: 'Pending',
+  overdue: 'Overdue'
+};
+
+// SQLite UTC timestamp ("YYYY-MM-DD HH:MM:SS") to a local date-time
+export const formatSqlTime = (value?: string | null): string => {
+  if (!value) return '-';
+  return new Date(value.replace(' ', 'T') + 'Z').toLocaleString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+// Compact duration, e.g. 3d 4h, 5h 12m, 40m
+export const formatDuration = (seconds?: number | null): string => {
+  if (seconds === undefined || seconds === null) return '-';
+  const minutes = Math.max(0, Math.round(seconds / 60));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+export const slaSummaryTitle = (sla?: SlaSummary, deadline?: string | null, requested?: string | null): string | undefined => {
+  if (!sla) return undefined;
+  const lines = [
+    requested !== undefined && `Requested: ${formatSqlTime(requested)}`,
+    deadline !== undefined && `Deadline: ${formatSqlTime(deadline)}`,
+    sla.status && `Met ${sla.met}, late ${sla.late}, pending ${sla.pending}, overdue ${sla.overdue}`,
+    sla.avg_time_to_exiting !== null && `Time to exiting: avg ${formatDuration(sla.avg_time_to_exiting)}, max ${formatDuration(sla.max_time_to_exiting)}`
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
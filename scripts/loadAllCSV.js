@@ -1,6 +1,8 @@
 require('dotenv').config();
 const { initDatabase, getDatabase } = require('../server/db');
 const { parseCSV } = require('../server/csvParser');
+const { TARGET_VALIDATORS, checkUpload } = require('../server/uploadCheck');
+const { SOURCE_SCRIPT, importValidators } = require('../server/validatorImports');
 const path = require('path');
 const fs = require('fs');
 
@@ -20,7 +22,8 @@ async function loadAllCSV() {
     
     const db = getDatabase();
     let totalInserted = 0;
-    let totalErrors = 0;
+    let totalUpdated = 0;
+    let totalSkipped = 0;
     
     for (const csvFile of csvFiles) {
       const csvFilePath = path.join(__dirname, '..', csvFile);
@@ -47,74 +50,28 @@ async function loadAllCSV() {
         continue;
       }
       
-      let inserted = 0;
-      let errors = 0;
-      
-      // Process validators in batches
-      const batchSize = 100;
-      for (let i = 0; i < validators.length; i += batchSize) {
-        const batch = validators.slice(i, i + batchSize);
-        
-        await new Promise((resolve, reject) => {
-          db.serialize(() => {
-            db.run('BEGIN TRANSACTION;');
-            
-            const stmt = db.prepare(`
-              INSERT OR REPLACE INTO validators (pubkey, provider, status, json_filename, bucket_no, updated_at)
-              VALUES (?, ?, 'pending', ?, ?, CURRENT_TIMESTAMP)
-            `);
-            
-            batch.forEach(validator => {
-              stmt.run(
-                validator.pubkey,
-                validator.provider,
-                validator.json_filename,
-                validator.bucket_no || null,
-                (err) => {
-                  if (err) {
-                    console.error(`Error inserting validator ${validator.pubkey}:`, err.message);
-                    errors++;
-                  } else {
-                    inserted++;
-                  }
-                }
-              );
-            });
-            
-            stmt.finalize((err) => {
-              if (err) {
-                db.run('ROLLBACK;');
-                reject(err);
-              } else {
-                db.run('COMMIT;', (commitErr) => {
-                  if (commitErr) {
-                    console.error('Error committing transaction:', commitErr);
-                    reject(commitErr);
-                  } else {
-                    resolve();
-                  }
-                });
-              }
-            });
-          });
-        });
-        
-        // Progress indicator
-        if ((i + batchSize) % 1000 === 0 || i + batchSize >= validators.length) {
-          console.log(`  Processed ${Math.min(i + batchSize, validators.length)}/${validators.length} validators...`);
-        }
-      }
+      // One import per file, so each load shows in the import history and can be reverted
+      const { accepted, report } = await checkUpload(validators, TARGET_VALIDATORS);
+      const result = await importValidators({
+        filename: csvFile,
+        source: SOURCE_SCRIPT,
+        rowCount: validators.length,
+        records: accepted.map(({ pubkey, provider, json_filename, bucket_no }) => ({ pubkey, provider, json_filename, bucket_no }))
+      });
+      const skipped = report.invalid.count + report.duplicates.count;
       
-      console.log(`✅ ${csvFile}: ${inserted} inserted/updated, ${errors} errors`);
-      totalInserted += inserted;
-      totalErrors += errors;
+      console.log(`✅ ${csvFile}: import #${result.importId}, ${result.inserted} inserted, ${result.updated} updated, ${result.unchanged} unchanged, ${skipped} skipped`);
+      totalInserted += result.inserted;
+      totalUpdated += result.updated;
+      totalSkipped += skipped;
     }
     
     console.log('\n' + '='.repeat(60));
     console.log('📊 Final Summary');
     console.log('='.repeat(60));
-    console.log(`Total Inserted/Updated: ${totalInserted}`);
-    console.log(`Total Errors: ${totalErrors}`);
+    console.log(`Total Inserted: ${totalInserted}`);
+    console.log(`Total Updated: ${totalUpdated}`);
+    console.log(`Total Skipped: ${totalSkipped}`);
     
     // Get final statistics
     const stats = await new Promise((resolve, reject) => {
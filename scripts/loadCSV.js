@@ -1,6 +1,8 @@
 require('dotenv').config();
 const { initDatabase, getDatabase } = require('../server/db');
 const { parseCSV } = require('../server/csvParser');
+const { TARGET_VALIDATORS, checkUpload } = require('../server/uploadCheck');
+const { SOURCE_SCRIPT, importValidators } = require('../server/validatorImports');
 const path = require('path');
 
 /**
@@ -21,61 +23,21 @@ async function loadCSV(csvFilePath) {
     
     console.log(`Found ${validators.length} validators`);
     
-    const db = getDatabase();
-    let inserted = 0;
-    let updated = 0;
-    let errors = 0;
-    
-    // Process validators in batches
-    const batchSize = 100;
-    for (let i = 0; i < validators.length; i += batchSize) {
-      const batch = validators.slice(i, i + batchSize);
-      
-      await new Promise((resolve, reject) => {
-        db.serialize(() => {
-          const stmt = db.prepare(`
-            INSERT OR REPLACE INTO validators (pubkey, provider, status, json_filename, bucket_no, updated_at)
-            VALUES (?, ?, 'pending', ?, ?, CURRENT_TIMESTAMP)
-          `);
-          
-          batch.forEach(validator => {
-            stmt.run(
-              validator.pubkey,
-              validator.provider,
-              validator.json_filename,
-              validator.bucket_no || null,
-              (err) => {
-                if (err) {
-                  console.error(`Error inserting validator ${validator.pubkey}:`, err.message);
-                  errors++;
-                } else {
-                  inserted++;
-                }
-              }
-            );
-          });
-          
-          stmt.finalize((err) => {
-            if (err) {
-              reject(err);
-            } else {
-              resolve();
-            }
-          });
-        });
-      });
-      
-      // Progress indicator
-      if ((i + batchSize) % 1000 === 0 || i + batchSize >= validators.length) {
-        console.log(`Processed ${Math.min(i + batchSize, validators.length)}/${validators.length} validators...`);
-      }
-    }
+    // Same checks and import as an upload, so the load shows in the import history and can be reverted
+    const { accepted, report } = await checkUpload(validators, TARGET_VALIDATORS);
+    const result = await importValidators({
+      filename: path.basename(csvFilePath),
+      source: SOURCE_SCRIPT,
+      rowCount: validators.length,
+      records: accepted.map(({ pubkey, provider, json_filename, bucket_no }) => ({ pubkey, provider, json_filename, bucket_no }))
+    });
     
     console.log('\n=== Load Complete ===');
     console.log(`Total validators: ${validators.length}`);
-    console.log(`Inserted/Updated: ${inserted}`);
-    console.log(`Errors: ${errors}`);
+    console.log(`Import #${result.importId}: ${result.inserted} inserted, ${result.updated} updated, ${result.unchanged} unchanged`);
+    console.log(`Skipped: ${report.invalid.count} invalid, ${report.duplicates.count} duplicates`);
     
+    const db = getDatabase();
     // Get statistics
     const stats = await new Promise((resolve, reject) => {
       db.all(`
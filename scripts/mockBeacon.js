@@ -0,0 +1,156 @@
+const express = require('express');
+
+/**
+ * Minimal local beacon node for rehearsing syncs and exit submissions
+ *
+ * Every pubkey asked for is registered as an active validator with the next free index.
+ * An accepted voluntary exit turns the validator into active_exiting.
+ *
+ * Usage: node scripts/mockBeacon.js, then BEACON_API_URL=http://localhost:5052
+ * MOCK_BEACON_PORT changes the port, MOCK_REJECT_INDICES (comma list) makes the
+ * pool reject exits of those validator indices, MOCK_SLASHED_INDICES (comma list)
+ * reports those validators as slashed
+ */
+
+const PORT = parseInt(process.env.MOCK_BEACON_PORT, 10) || 5052;
+function indexList(value) {
+  return (value || '')
+    .split(',')
+    .map(index => index.trim())
+    .filter(Boolean);
+}
+
+const REJECT_INDICES = indexList(process.env.MOCK_REJECT_INDICES);
+const SLASHED_INDICES = indexList(process.env.MOCK_SLASHED_INDICES);
+
+// Mainnet genesis
+const GENESIS_TIME = 1606824023;
+const SLOTS_PER_EPOCH = 32;
+const SECONDS_PER_SLOT = 12;
+const FAR_FUTURE_EPOCH = '18446744073709551615';
+const MAX_SEED_LOOKAHEAD = 4;
+const MIN_VALIDATOR_WITHDRAWABILITY_DELAY = 256;
+
+const validators = new Map();
+const exitPool = [];
+
+function headSlot() {
+  return Math.floor((Date.now() / 1000 - GENESIS_TIME) / SECONDS_PER_SLOT);
+}
+
+function currentEpoch() {
+  return Math.floor(headSlot() / SLOTS_PER_EPOCH);
+}
+
+function getValidator(pubkey) {
+  const key = pubkey.toLowerCase();
+  if (!validators.has(key)) {
+    validators.set(key, {
+      index: String(validators.size),
+      pubkey: key,
+      status: 'active_ongoing',
+      activation_epoch: '0',
+      exit_epoch: FAR_FUTURE_EPOCH,
+      withdrawable_epoch: FAR_FUTURE_EPOCH
+    });
+  }
+  return validators.get(key);
+}
+
+function toApiValidator(validator) {
+  const slashed = SLASHED_INDICES.includes(validator.index);
+  return {
+    index: validator.index,
+    balance: '32000000000',
+    status: slashed && validator.status.startsWith('active') ? 'active_slashed' : validator.status,
+    validator: {
+      pubkey: validator.pubkey,
+      withdrawal_credentials: `0x01${'0'.repeat(22)}${'ab'.repeat(20)}`,
+      effective_balance: '32000000000',
+      slashed,
+      activation_eligibility_epoch: '0',
+      activation_epoch: validator.activation_epoch,
+      exit_epoch: validator.exit_epoch,
+      withdrawable_epoch: validator.withdrawable_epoch
+    }
+  };
+}
+
+const app = express();
+app.use(express.json());
+
+app.use((req, res, next) => {
+  console.log(`${req.method} ${req.path}`);
+  next();
+});
+
+app.get('/eth/v1/node/syncing', (req, res) => {
+  res.json({ data: { head_slot: String(headSlot()), sync_distance: '0', is_syncing: false, is_optimistic: false } });
+});
+
+app.get('/eth/v1/beacon/genesis', (req, res) => {
+  res.json({
+    data: {
+      genesis_time: String(GENESIS_TIME),
+      genesis_validators_root: '0x4b363db94e286120d76eb905340fdd4e54bfe9f06bf33ff6cf5ad27f511bfe95',
+      genesis_fork_version: '0x00000000'
+    }
+  });
+});
+
+app.get('/eth/v1/config/spec', (req, res) => {
+  res.json({ data: { SECONDS_PER_SLOT: String(SECONDS_PER_SLOT), SLOTS_PER_EPOCH: String(SLOTS_PER_EPOCH), CAPELLA_FORK_VERSION: '0x03000000' } });
+});
+
+app.get('/eth/v1/beacon/headers/head', (req, res) => {
+  res.json({ data: { header: { message: { slot: String(headSlot()) } } } });
+});
+
+app.post('/eth/v1/beacon/states/:stateId/validators', (req, res) => {
+  const ids = (req.body && req.body.ids) || [];
+  res.json({ data: ids.map(id => toApiValidator(getValidator(id))) });
+});
+
+app.get('/eth/v1/beacon/states/:stateId/validators/:id', (req, res) => {
+  if (!req.params.id.startsWith('0x')) {
+    return res.status(404).json({ code: 404, message: 'Validator not found' });
+  }
+  res.json({ data: toApiValidator(getValidator(req.params.id)) });
+});
+
+app.get('/eth/v1/beacon/pool/voluntary_exits', (req, res) => {
+  res.json({ data: exitPool });
+});
+
+app.post('/eth/v1/beacon/pool/voluntary_exits', (req, res) => {
+  const signedExit = req.body || {};
+  const message = signedExit.message || {};
+  if (!/^\d+$/.test(String(message.epoch)) || !/^\d+$/.test(String(message.validator_index)) || !signedExit.signature) {
+    return res.status(400).json({ code: 400, message: 'Invalid voluntary exit' });
+  }
+
+  const validator = [...validators.values()].find(v => v.index === String(message.validator_index));
+  if (!validator) {
+    return res.status(400).json({ code: 400, message: `Unknown validator index ${message.validator_index}` });
+  }
+  if (REJECT_INDICES.includes(validator.index)) {
+    return res.status(400).json({ code: 400, message: 'Invalid signature' });
+  }
+  if (validator.exit_epoch !== FAR_FUTURE_EPOCH) {
+    return res.status(400).json({ code: 400, message: 'Validator has already initiated exit' });
+  }
+  if (parseInt(message.epoch, 10) > currentEpoch()) {
+    return res.status(400).json({ code: 400, message: 'Voluntary exit epoch is in the future' });
+  }
+
+  const exitEpoch = currentEpoch() + 1 + MAX_SEED_LOOKAHEAD;
+  validator.status = 'active_exiting';
+  validator.exit_epoch = String(exitEpoch);
+  validator.withdrawable_epoch = String(exitEpoch + MIN_VALIDATOR_WITHDRAWABILITY_DELAY);
+  exitPool.push(signedExit);
+  res.json({});
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock beacon node listening on port ${PORT}`);
+});
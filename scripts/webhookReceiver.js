@@ -0,0 +1,60 @@
+const crypto = require('crypto');
+const express = require('express');
+
+/**
+ * Minimal local webhook receiver for trying out webhook notifications
+ *
+ * Logs every delivery and checks its X-Webhook-Signature against WEBHOOK_SECRET.
+ *
+ * Usage: node scripts/webhookReceiver.js, then register http://localhost:5060/webhook
+ * WEBHOOK_RECEIVER_PORT changes the port, WEBHOOK_SECRET is the secret returned when the
+ * webhook was registered, WEBHOOK_FAIL_FIRST answers the first n deliveries with HTTP 500
+ * to exercise retries
+ */
+
+const PORT = parseInt(process.env.WEBHOOK_RECEIVER_PORT, 10) || 5060;
+const SECRET = process.env.WEBHOOK_SECRET || '';
+let failRemaining = parseInt(process.env.WEBHOOK_FAIL_FIRST, 10) || 0;
+
+const app = express();
+// Keep the raw body: the signature covers the exact bytes sent
+app.use(express.raw({ type: '*/*', limit: '10mb' }));
+
+function verifySignature(body, header) {
+  if (!SECRET) return 'not checked (WEBHOOK_SECRET unset)';
+  const expected = `sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`;
+  const valid = typeof header === 'string'
+    && header.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+  return valid ? 'valid' : 'INVALID';
+}
+
+app.post('*', (req, res) => {
+  const body = req.body instanceof Buffer ? req.body : Buffer.from('');
+  const event = req.get('X-Webhook-Event');
+  const delivery = req.get('X-Webhook-Delivery');
+  const signature = verifySignature(body, req.get('X-Webhook-Signature'));
+
+  if (failRemaining > 0) {
+    failRemaining -= 1;
+    console.log(`[${new Date().toISOString()}] ${event} #${delivery} -> 500 (simulated failure)`);
+    return res.status(500).json({ error: 'Simulated failure' });
+  }
+
+  let summary = '';
+  try {
+    const { data } = JSON.parse(body.toString('utf8'));
+    if (data && Array.isArray(data.transitions)) summary = `${data.transitions.length} transitions`;
+    else if (data && Array.isArray(data.alerts)) summary = `${data.alerts.length} slashed keys`;
+    else if (data && data.batch_id) summary = `batch ${data.batch_id} (${data.total} keys)`;
+    else if (data && data.error) summary = data.error;
+  } catch (error) {
+    summary = 'unparseable body';
+  }
+  console.log(`[${new Date().toISOString()}] ${event} #${delivery} signature ${signature}${summary ? ` - ${summary}` : ''}`);
+  res.status(signature === 'INVALID' ? 401 : 200).json({ received: true });
+});
+
+app.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}`);
+});
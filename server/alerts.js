@@ -0,0 +1,63 @@
+const { dbAll, dbRun, dbPrepare } = require('./db');
+
+const ALERT_SLASHING = 'slashing';
+
+// Prepare an insert statement for alerts; a pubkey gets one alert per type
+// Must be used inside the caller's dbTransaction and finalized before it returns
+function prepareAlertInsert() {
+  return dbPrepare(`
+    INSERT OR IGNORE INTO alerts (type, pubkey, source, beacon_status)
+    VALUES (?, ?, ?, ?)
+  `);
+}
+
+// Alerts with provider, bucket and exit batches of the key, newest first
+// Only open (unacknowledged) alerts unless includeAcknowledged; pubkeys limits to those keys
+async function listAlerts({ includeAcknowledged = false, pubkeys, limit = 100 } = {}) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (!includeAcknowledged) {
+    where += ' AND a.acknowledged_at IS NULL';
+  }
+  if (pubkeys) {
+    if (pubkeys.length === 0) return [];
+    where += ` AND a.pubkey IN (${pubkeys.map(() => '?').join(',')})`;
+    params.push(...pubkeys);
+  }
+  return dbAll(`
+    SELECT
+      a.id,
+      a.type,
+      a.pubkey,
+      a.source,
+      a.beacon_status,
+      a.detected_at,
+      a.acknowledged_at,
+      v.provider,
+      v.bucket_no,
+      (SELECT GROUP_CONCAT(DISTINCT e.batch_id) FROM exit_validators e WHERE e.pubkey = a.pubkey) as exit_batch_ids
+    FROM alerts a
+    LEFT JOIN validators v ON a.pubkey = v.pubkey
+    ${where}
+    ORDER BY a.detected_at DESC, a.id DESC
+    LIMIT ?
+  `, [...params, Math.min(parseInt(limit, 10) || 100, 1000)]);
+}
+
+// Acknowledge alerts by id, or every open alert when ids is omitted; returns the number updated
+async function acknowledgeAlerts(ids) {
+  if (ids !== undefined && ids.length === 0) return 0;
+  const filter = ids === undefined ? '' : ` AND id IN (${ids.map(() => '?').join(',')})`;
+  const result = await dbRun(
+    `UPDATE alerts SET acknowledged_at = CURRENT_TIMESTAMP WHERE acknowledged_at IS NULL${filter}`,
+    ids || []
+  );
+  return result.changes;
+}
+
+module.exports = {
+  ALERT_SLASHING,
+  prepareAlertInsert,
+  listAlerts,
+  acknowledgeAlerts
+};
@@ -0,0 +1,32 @@
+const { dbAll, dbPrepare } = require('./db');
+
+// Prepare an insert statement for balance snapshots
+// Must be used inside the caller's dbTransaction and finalized before it returns
+function prepareSnapshotInsert() {
+  return dbPrepare(`
+    INSERT INTO balance_snapshots (job_id, source, pubkey, balance, effective_balance, state_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+}
+
+// Balance snapshots of a pubkey, newest first
+function getBalanceHistory(pubkey, { source, limit = 500 } = {}) {
+  let where = 'WHERE pubkey = ?';
+  const params = [pubkey];
+  if (source) {
+    where += ' AND source = ?';
+    params.push(source);
+  }
+  return dbAll(`
+    SELECT id, job_id, source, balance, effective_balance, state_id, captured_at
+    FROM balance_snapshots
+    ${where}
+    ORDER BY captured_at DESC, id DESC
+    LIMIT ?
+  `, [...params, Math.min(parseInt(limit, 10) || 500, 5000)]);
+}
+
+module.exports = {
+  prepareSnapshotInsert,
+  getBalanceHistory
+};
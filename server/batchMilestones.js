@@ -0,0 +1,79 @@
+const { dbAll, dbRun } = require('./db');
+const { SOURCE_EXIT } = require('./statusHistory');
+const { isJobSynced, isLiveJob } = require('./syncService');
+const { sqlNow } = require('./utils');
+const events = require('./events');
+
+const MILESTONE_EXITED = 'exited';
+const MILESTONE_WITHDRAWN = 'withdrawn';
+
+// Beacon statuses of keys that have left the active set
+const EXITED_BEACON_STATUSES = ['exited_unslashed', 'exited_slashed', 'withdrawal_possible', 'withdrawal_done'];
+
+let running = null;
+let listening = false;
+
+// Mark exit batches whose keys have all exited / all been withdrawn since the last check
+// Each milestone is reached once per batch; returns the new milestones
+async function checkBatchMilestones() {
+  const placeholders = EXITED_BEACON_STATUSES.map(() => '?').join(',');
+  const rows = await dbAll(`
+    SELECT
+      b.id as batch_id,
+      b.filename,
+      b.fully_exited_at,
+      b.fully_withdrawn_at,
+      COUNT(e.id) as total,
+      SUM(CASE WHEN e.beacon_status IN (${placeholders}) THEN 1 ELSE 0 END) as exited,
+      SUM(CASE WHEN e.beacon_status = 'withdrawal_done' THEN 1 ELSE 0 END) as withdrawn,
+      SUM(e.withdrawn_amount) as withdrawn_amount
+    FROM exit_batches b
+    JOIN exit_validators e ON e.batch_id = b.id
+    WHERE b.fully_exited_at IS NULL OR b.fully_withdrawn_at IS NULL
+    GROUP BY b.id
+  `, EXITED_BEACON_STATUSES);
+
+  const now = sqlNow();
+  const milestones = [];
+  for (const row of rows) {
+    const summary = { batch_id: row.batch_id, filename: row.filename, total: row.total, reached_at: now };
+    if (!row.fully_exited_at && row.exited === row.total) {
+      await dbRun('UPDATE exit_batches SET fully_exited_at = ? WHERE id = ?', [now, row.batch_id]);
+      milestones.push({ ...summary, milestone: MILESTONE_EXITED });
+    }
+    if (!row.fully_withdrawn_at && row.withdrawn === row.total) {
+      await dbRun('UPDATE exit_batches SET fully_withdrawn_at = ? WHERE id = ?', [now, row.batch_id]);
+      milestones.push({ ...summary, milestone: MILESTONE_WITHDRAWN, withdrawn_amount: row.withdrawn_amount });
+    }
+  }
+  return milestones;
+}
+
+// Check milestones after every exit list sync that wrote current statuses (completed or partial,
+// not at a past state) and publish new ones on the event bus
+function startBatchMilestoneDetection() {
+  if (listening) return;
+  listening = true;
+  events.on('sync-job', job => {
+    if (!job || job.type !== SOURCE_EXIT || !isJobSynced(job) || !isLiveJob(job) || running) return;
+    running = checkBatchMilestones()
+      .then(milestones => {
+        if (milestones.length > 0) {
+          events.emit('batch-milestones', milestones);
+        }
+      })
+      .catch(error => {
+        console.warn('Batch milestone check failed:', error.message);
+      })
+      .finally(() => {
+        running = null;
+      });
+  });
+}
+
+module.exports = {
+  MILESTONE_EXITED,
+  MILESTONE_WITHDRAWN,
+  checkBatchMilestones,
+  startBatchMilestoneDetection
+};
@@ -1,31 +1,55 @@
 const axios = require('axios');
 const { normalizePubkey } = require('./utils');
+const { requestWithFailover, requestAllHealthy, isQuorumEnabled } = require('./beaconNodes');
+const { scheduleRequest, isRetryable } = require('./requestScheduler');
 
-const BEACON_API_URL = process.env.BEACON_API_URL || 'https://ethereum-beacon-api.publicnode.com';
+// Request timeouts and fallback chunk size (.env)
+const BEACON_REQUEST_TIMEOUT_MS = parseInt(process.env.BEACON_REQUEST_TIMEOUT_MS, 10) || 10000;
+const BEACON_BATCH_TIMEOUT_MS = parseInt(process.env.BEACON_BATCH_TIMEOUT_MS, 10) || 60000;
+const BEACON_CHUNK_SIZE = parseInt(process.env.BEACON_CHUNK_SIZE, 10) || 50;
 
-// Get validator status from beacon API
-async function getValidatorStatus(pubkey) {
+// Epoch value used by the beacon chain for "not scheduled"
+const FAR_FUTURE_EPOCH = '18446744073709551615';
+
+// Parse an epoch string, returning null for FAR_FUTURE_EPOCH
+function parseEpoch(value) {
+  if (value === undefined || value === null || value === FAR_FUTURE_EPOCH) return null;
+  return parseInt(value, 10);
+}
+
+// Flatten a beacon API validator entry into the fields we persist
+function toValidatorRecord(validator) {
+  return {
+    status: validator.status,
+    pubkey: validator.validator.pubkey,
+    validator_index: validator.index !== undefined ? parseInt(validator.index, 10) : null,
+    balance: validator.balance !== undefined ? parseInt(validator.balance, 10) : null,
+    effective_balance: parseInt(validator.validator.effective_balance, 10),
+    slashed: String(validator.validator.slashed) === 'true' ? 1 : 0,
+    activation_epoch: parseEpoch(validator.validator.activation_epoch),
+    exit_epoch: parseEpoch(validator.validator.exit_epoch),
+    withdrawable_epoch: parseEpoch(validator.validator.withdrawable_epoch),
+    withdrawal_credentials: validator.validator.withdrawal_credentials
+  };
+}
+
+// Get validator status from beacon API at stateId (head, finalized, justified or a slot)
+async function getValidatorStatus(pubkey, stateId = 'head') {
   try {
     const formattedPubkey = normalizePubkey(pubkey);
     
-    const response = await axios.get(
-      `${BEACON_API_URL}/eth/v1/beacon/states/head/validators/${formattedPubkey}`,
+    const response = await scheduleRequest(() => requestWithFailover(baseUrl => axios.get(
+      `${baseUrl}/eth/v1/beacon/states/${stateId}/validators/${formattedPubkey}`,
       {
-        timeout: 10000,
+        timeout: BEACON_REQUEST_TIMEOUT_MS,
         headers: {
           'Accept': 'application/json'
         }
       }
-    );
+    )), { label: `Status request for ${formattedPubkey.slice(0, 10)}...` });
 
     if (response.data && response.data.data) {
-      const validator = response.data.data;
-      return {
-        status: validator.status,
-        pubkey: validator.validator.pubkey,
-        effective_balance: validator.validator.effective_balance,
-        slashed: validator.validator.slashed
-      };
+      return toValidatorRecord(response.data.data);
     }
     
     return null;
@@ -36,58 +60,181 @@ async function getValidatorStatus(pubkey) {
   }
 }
 
-// Get validator statuses in batch
-async function getValidatorStatusesBatch(pubkeys) {
-  try {
-    const formattedPubkeys = pubkeys.map(pk => normalizePubkey(pk));
-    const response = await axios.post(
-      `${BEACON_API_URL}/eth/v1/beacon/states/head/validators`,
-      { ids: formattedPubkeys },
-      {
-        timeout: 60000,
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json'
-        }
+// POST a batch of pubkeys to one beacon node
+async function fetchStatusesBatch(baseUrl, pubkeys, stateId) {
+  const response = await axios.post(
+    `${baseUrl}/eth/v1/beacon/states/${stateId}/validators`,
+    { ids: pubkeys },
+    {
+      timeout: BEACON_BATCH_TIMEOUT_MS,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
       }
-    );
-
-    if (response.data && response.data.data) {
-      return response.data.data.map(validator => ({
-        status: validator.status,
-        pubkey: validator.validator.pubkey,
-        effective_balance: validator.validator.effective_balance,
-        slashed: validator.validator.slashed
-      }));
     }
-    
-    return [];
+  );
+
+  if (response.data && response.data.data) {
+    return response.data.data.map(toValidatorRecord);
+  }
+
+  return [];
+}
+
+// POST a batch through the scheduler, failing over between nodes
+function requestStatusesBatch(pubkeys, stateId) {
+  return scheduleRequest(
+    () => requestWithFailover(baseUrl => fetchStatusesBatch(baseUrl, pubkeys, stateId)),
+    { label: `Batch request for ${pubkeys.length} statuses` }
+  );
+}
+
+// Get validator statuses in batch
+// Returns { statuses, failed } where failed lists { pubkey, error } for keys no node answered
+// Keys missing from statuses but not in failed are unknown to the beacon chain
+async function getValidatorStatusesBatch(pubkeys, stateId = 'head') {
+  const formattedPubkeys = pubkeys.map(pk => normalizePubkey(pk));
+  try {
+    return { statuses: await requestStatusesBatch(formattedPubkeys, stateId), failed: [] };
   } catch (error) {
-    // Fallback to individual requests
-    console.warn('Batch request failed, falling back to individual requests:', error.message);
-    const results = [];
-    const CHUNK_SIZE = 50;
-    for (let i = 0; i < pubkeys.length; i += CHUNK_SIZE) {
-      const chunk = pubkeys.slice(i, i + CHUNK_SIZE);
-      const chunkPromises = chunk.map(async (pubkey) => {
+    if (error.response && error.response.status === 404) {
+      // Batch requests only 404 when the state itself is unknown (e.g. pruned on a non-archive node)
+      const stateError = new Error(`State ${stateId} is not available on the beacon node`);
+      stateError.status = 404;
+      throw stateError;
+    }
+    console.warn(`Batch request failed (${error.message}), retrying in chunks of ${BEACON_CHUNK_SIZE}`);
+  }
+
+  const chunks = [];
+  for (let i = 0; i < formattedPubkeys.length; i += BEACON_CHUNK_SIZE) {
+    chunks.push(formattedPubkeys.slice(i, i + BEACON_CHUNK_SIZE));
+  }
+
+  const statuses = [];
+  const failed = [];
+  await Promise.all(chunks.map(async (chunk) => {
+    try {
+      statuses.push(...await requestStatusesBatch(chunk, stateId));
+    } catch (chunkError) {
+      if (isRetryable(chunkError)) {
+        // Nodes are unreachable or overloaded even after retries, per-key requests won't fare better
+        chunk.forEach(pubkey => failed.push({ pubkey, error: chunkError.message }));
+        return;
+      }
+      // The node rejected the chunk (e.g. a malformed key), isolate it with per-key requests
+      await Promise.all(chunk.map(async (pubkey) => {
         try {
-          return await getValidatorStatus(pubkey);
+          const record = await getValidatorStatus(pubkey, stateId);
+          if (record) statuses.push(record);
         } catch (err) {
-          console.error(`Error fetching status for ${pubkey}:`, err.message);
-          return null;
+          failed.push({ pubkey, error: err.message });
         }
-      });
-      const chunkResults = await Promise.all(chunkPromises);
-      results.push(...chunkResults.filter(r => r !== null));
-      if (i + CHUNK_SIZE < pubkeys.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
+      }));
+    }
+  }));
+
+  return { statuses, failed };
+}
+
+// Get validator statuses, cross-checked between nodes when quorum mode is enabled
+// Returns { statuses, failed, discrepancies } (see getValidatorStatusesBatch); each discrepancy is
+// { pubkey, statuses: { nodeUrl: beaconStatus|null } }
+// The status reported by most nodes wins; ties go to the node listed first
+async function getValidatorStatusesChecked(pubkeys, stateId = 'head') {
+  if (!isQuorumEnabled()) {
+    return { ...await getValidatorStatusesBatch(pubkeys, stateId), discrepancies: [] };
+  }
+
+  const formattedPubkeys = pubkeys.map(pk => normalizePubkey(pk));
+  const responses = await requestAllHealthy(baseUrl => scheduleRequest(
+    () => fetchStatusesBatch(baseUrl, formattedPubkeys, stateId),
+    { label: `Batch request for ${formattedPubkeys.length} statuses to ${baseUrl}` }
+  ));
+  if (responses.length < 2) {
+    // Nothing to compare against
+    return { ...await getValidatorStatusesBatch(pubkeys, stateId), discrepancies: [] };
+  }
+
+  // pubkey -> nodeUrl -> record
+  const byPubkey = {};
+  responses.forEach(({ url, result }) => {
+    result.forEach(record => {
+      const pubkey = normalizePubkey(record.pubkey);
+      byPubkey[pubkey] = byPubkey[pubkey] || {};
+      byPubkey[pubkey][url] = record;
+    });
+  });
+
+  const statuses = [];
+  const discrepancies = [];
+  formattedPubkeys.forEach(pubkey => {
+    const records = byPubkey[pubkey] || {};
+    const votes = {};
+    const reported = {};
+    responses.forEach(({ url }) => {
+      const status = records[url] ? records[url].status : null;
+      reported[url] = status;
+      votes[status] = votes[status] || { count: 0, url };
+      votes[status].count += 1;
+    });
+
+    const winner = Object.values(votes).reduce((best, vote) => (vote.count > best.count ? vote : best));
+    if (records[winner.url]) {
+      statuses.push(records[winner.url]);
+    }
+    if (Object.keys(votes).length > 1) {
+      discrepancies.push({ pubkey, statuses: reported });
+    }
+  });
+
+  return { statuses, failed: [], discrepancies };
+}
+
+// Submit a SignedVoluntaryExit to the beacon node's operation pool
+// Returns { accepted: true } or { accepted: false, error } when the node rejects the message (400);
+// network errors and 5xx are thrown
+async function submitVoluntaryExit(signedExit) {
+  // A 400 is the node's verdict on the message, not a node failure, so it must not trigger failover
+  const response = await scheduleRequest(() => requestWithFailover(baseUrl => axios.post(
+    `${baseUrl}/eth/v1/beacon/pool/voluntary_exits`,
+    signedExit,
+    {
+      timeout: BEACON_REQUEST_TIMEOUT_MS,
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      validateStatus: status => status < 300 || status === 400
     }
-    return results;
+  )), { label: `Voluntary exit for validator ${signedExit.message.validator_index}` });
+
+  if (response.status === 400) {
+    const body = response.data || {};
+    return { accepted: false, error: body.message || 'Rejected by beacon node' };
   }
+  return { accepted: true };
+}
+
+// Lifecycle states derived from the full beacon status
+// 'unknown' covers keys never synced or not found on the beacon chain
+const LIFECYCLE_STATES = ['pending', 'active', 'exiting', 'exited', 'withdrawable', 'withdrawn', 'slashed', 'unknown'];
+
+const LIFECYCLE_BY_BEACON_STATUS = {
+  pending_initialized: 'pending',
+  pending_queued: 'pending',
+  active_ongoing: 'active',
+  active_exiting: 'exiting',
+  active_slashed: 'slashed',
+  exited_unslashed: 'exited',
+  exited_slashed: 'slashed',
+  withdrawal_possible: 'withdrawable',
+  withdrawal_done: 'withdrawn'
+};
+
+// Map beacon API status to lifecycle state
+function mapLifecycleStatus(beaconStatus) {
+  return LIFECYCLE_BY_BEACON_STATUS[beaconStatus] || 'unknown';
 }
 
-// Map beacon API status to internal status
+// Map beacon API status to internal status (three-bucket rollup)
 function mapBeaconStatus(beaconStatus) {
   if (beaconStatus === 'active_ongoing' || beaconStatus === 'active_exiting' || beaconStatus === 'active_slashed') {
     return 'active';
@@ -100,6 +247,10 @@ function mapBeaconStatus(beaconStatus) {
 module.exports = {
   getValidatorStatus,
   getValidatorStatusesBatch,
-  mapBeaconStatus
+  getValidatorStatusesChecked,
+  submitVoluntaryExit,
+  mapBeaconStatus,
+  mapLifecycleStatus,
+  LIFECYCLE_STATES
 };
 
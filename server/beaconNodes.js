@@ -0,0 +1,197 @@
+const axios = require('axios');
+
+// Beacon node config (.env): BEACON_API_URLS is a comma-separated list in priority order,
+// BEACON_API_URL is kept for single-node setups
+const BEACON_API_URLS = (process.env.BEACON_API_URLS || process.env.BEACON_API_URL || 'https://ethereum-beacon-api.publicnode.com')
+  .split(',')
+  .map(url => url.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+const BEACON_HEALTH_CHECK_INTERVAL_SECONDS = parseFloat(process.env.BEACON_HEALTH_CHECK_INTERVAL_SECONDS) || 30;
+// A node further behind head than this (in slots) is treated as unhealthy
+const BEACON_MAX_SYNC_DISTANCE = parseInt(process.env.BEACON_MAX_SYNC_DISTANCE, 10) || 8;
+// Quorum mode: query every healthy node and flag pubkeys whose status differs
+const BEACON_QUORUM = /^(1|true|yes)$/i.test(process.env.BEACON_QUORUM || '');
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+const nodes = BEACON_API_URLS.map(url => ({
+  url,
+  // null until the first health check
+  healthy: null,
+  headSlot: null,
+  syncDistance: null,
+  isSyncing: null,
+  isOptimistic: null,
+  lastCheckedAt: null,
+  lastError: null,
+  lastErrorAt: null,
+  requests: 0,
+  errors: 0,
+  totalLatencyMs: 0,
+  lastLatencyMs: null
+}));
+
+let healthTimer = null;
+
+// Only network errors, timeouts and 5xx mean the node is in trouble. A 4xx is an answer about the
+// request (404 unknown key, 400 malformed pubkey or state_id, a rejected exit) that every node would
+// give, and 429 is throttling, which the request scheduler backs off from
+function isNodeFailure(error) {
+  return !error.response || error.response.status >= 500;
+}
+
+function recordResult(node, startedAt, error) {
+  const latency = Date.now() - startedAt;
+  node.requests += 1;
+  node.totalLatencyMs += latency;
+  node.lastLatencyMs = latency;
+  if (error && isNodeFailure(error)) {
+    node.errors += 1;
+    node.lastError = error.message;
+    node.lastErrorAt = new Date();
+  }
+}
+
+// Run a request against one node, tracking latency and errors
+async function requestNode(node, request) {
+  const startedAt = Date.now();
+  try {
+    const result = await request(node.url);
+    recordResult(node, startedAt, null);
+    return result;
+  } catch (error) {
+    recordResult(node, startedAt, error);
+    if (isNodeFailure(error) && node.healthy !== false) {
+      // Skip this node until the next health check confirms it is back
+      node.healthy = false;
+      console.warn(`Beacon node ${node.url} marked unhealthy: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// Nodes to try, healthy (or unchecked) first, in configured order
+function getOrderedNodes() {
+  const usable = nodes.filter(node => node.healthy !== false);
+  const unhealthy = nodes.filter(node => node.healthy === false);
+  return [...usable, ...unhealthy];
+}
+
+function getHealthyNodes() {
+  return nodes.filter(node => node.healthy !== false);
+}
+
+// Run request(baseUrl) against nodes in order until one succeeds
+// Unhealthy nodes are still tried as a last resort
+async function requestWithFailover(request) {
+  let lastError = null;
+  for (const node of getOrderedNodes()) {
+    try {
+      return await requestNode(node, request);
+    } catch (error) {
+      // Another node would reject the same request the same way
+      if (!isNodeFailure(error)) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError || new Error('No beacon nodes configured');
+}
+
+// Run request(baseUrl) against every healthy node in parallel
+// Returns [{ url, result }] for nodes that answered, in configured order
+async function requestAllHealthy(request) {
+  const targets = getHealthyNodes();
+  const settled = await Promise.allSettled(targets.map(node => requestNode(node, request)));
+  const results = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      results.push({ url: targets[i].url, result: outcome.value });
+    }
+  });
+  return results;
+}
+
+async function checkNodeHealth(node) {
+  const startedAt = Date.now();
+  try {
+    const response = await axios.get(`${node.url}/eth/v1/node/syncing`, {
+      timeout: HEALTH_CHECK_TIMEOUT_MS,
+      headers: { 'Accept': 'application/json' }
+    });
+    const data = response.data.data;
+    recordResult(node, startedAt, null);
+    node.headSlot = parseInt(data.head_slot, 10);
+    node.syncDistance = parseInt(data.sync_distance, 10);
+    node.isSyncing = data.is_syncing;
+    node.isOptimistic = !!data.is_optimistic;
+
+    const wasHealthy = node.healthy;
+    node.healthy = !node.isSyncing && !node.isOptimistic && node.syncDistance <= BEACON_MAX_SYNC_DISTANCE;
+    if (!node.healthy) {
+      node.lastError = `Node is syncing (distance ${node.syncDistance} slots)`;
+      node.lastErrorAt = new Date();
+    }
+    if (wasHealthy === false && node.healthy) {
+      console.log(`Beacon node ${node.url} is healthy again`);
+    }
+  } catch (error) {
+    recordResult(node, startedAt, error);
+    node.healthy = false;
+  } finally {
+    node.lastCheckedAt = new Date();
+  }
+}
+
+function checkAllNodes() {
+  return Promise.all(nodes.map(checkNodeHealth));
+}
+
+function startHealthChecks() {
+  if (healthTimer) return;
+  checkAllNodes();
+  healthTimer = setInterval(checkAllNodes, BEACON_HEALTH_CHECK_INTERVAL_SECONDS * 1000);
+}
+
+function stopHealthChecks() {
+  if (healthTimer) {
+    clearInterval(healthTimer);
+    healthTimer = null;
+  }
+}
+
+function isQuorumEnabled() {
+  return BEACON_QUORUM && nodes.length > 1;
+}
+
+function getNodeStats() {
+  return {
+    quorum: isQuorumEnabled(),
+    maxSyncDistance: BEACON_MAX_SYNC_DISTANCE,
+    healthCheckIntervalSeconds: BEACON_HEALTH_CHECK_INTERVAL_SECONDS,
+    nodes: nodes.map((node, i) => ({
+      url: node.url,
+      priority: i + 1,
+      healthy: node.healthy,
+      headSlot: node.headSlot,
+      syncDistance: node.syncDistance,
+      isSyncing: node.isSyncing,
+      isOptimistic: node.isOptimistic,
+      requests: node.requests,
+      errors: node.errors,
+      avgLatencyMs: node.requests > 0 ? Math.round(node.totalLatencyMs / node.requests) : null,
+      lastLatencyMs: node.lastLatencyMs,
+      lastError: node.lastError,
+      lastErrorAt: node.lastErrorAt ? node.lastErrorAt.toISOString() : null,
+      lastCheckedAt: node.lastCheckedAt ? node.lastCheckedAt.toISOString() : null
+    }))
+  };
+}
+
+module.exports = {
+  requestWithFailover,
+  requestAllHealthy,
+  isQuorumEnabled,
+  startHealthChecks,
+  stopHealthChecks,
+  getNodeStats
+};
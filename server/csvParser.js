@@ -2,23 +2,26 @@ const csv = require('csv-parser');
 const fs = require('fs');
 const path = require('path');
 const { normalizePubkey } = require('./utils');
+const { DEFAULT_PROVIDER, detectProvider, listProviders } = require('./providers');
 
 // Parse CSV file and extract validator information
 // Supports multiple formats: full keystore, simple (pubkey,provider,json_filename), or Lido format
-function parseCSV(filePath) {
+// Each row carries its line number (header = line 1); pubkeys are normalized but not validated
+// Providers are matched against the registry (name or alias in the provider column, else in the
+// filename, else the first registered provider); unknown provider column values are kept as-is
+async function parseCSV(filePath, filename = path.basename(filePath)) {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`CSV file not found: ${filePath}`);
+  }
+  const providers = await listProviders();
+
   return new Promise((resolve, reject) => {
     const results = [];
-    
-    if (!fs.existsSync(filePath)) {
-      reject(new Error(`CSV file not found: ${filePath}`));
-      return;
-    }
+    let line = 1;
 
     // Detect provider from filename
-    const filename = path.basename(filePath).toLowerCase();
-    let defaultProvider = 'Lido';
-    if (filename.includes('etherfi')) defaultProvider = 'Etherfi';
-    else if (filename.includes('mantle')) defaultProvider = 'Mantle';
+    const defaultProvider = detectProvider(providers, filename)
+      || (providers.length > 0 ? providers[0].name : DEFAULT_PROVIDER);
 
     // Detect delimiter
     const firstLine = fs.readFileSync(filePath, 'utf8').split('\n')[0];
@@ -27,6 +30,7 @@ function parseCSV(filePath) {
     fs.createReadStream(filePath)
       .pipe(csv({ separator: delimiter }))
       .on('data', (data) => {
+        line++;
         let pubkey = (data.pubkey || data.pubKey || data.pub_key || '').trim();
         if (!pubkey) return;
 
@@ -39,14 +43,10 @@ function parseCSV(filePath) {
         const provider = (data.provider || data.Provider || '').trim();
         
         // Normalize provider
-        let normalizedProvider = provider.toLowerCase();
-        if (normalizedProvider.includes('lido')) normalizedProvider = 'Lido';
-        else if (normalizedProvider.includes('etherfi')) normalizedProvider = 'Etherfi';
-        else if (normalizedProvider.includes('mantle')) normalizedProvider = 'Mantle';
-        else if (provider) normalizedProvider = provider;
-        else normalizedProvider = defaultProvider;
+        const normalizedProvider = detectProvider(providers, provider) || provider || defaultProvider;
 
         results.push({
+          line,
           pubkey: pubkey,
           provider: normalizedProvider,
           json_filename: jsonFilename || null,
@@ -1,6 +1,7 @@
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
+const { AsyncLocalStorage } = require('async_hooks');
 
 const DB_PATH = process.env.DB_PATH || path.join(__dirname, '../data/eth_exit.db');
 
@@ -24,6 +25,15 @@ function getDatabase() {
   return db;
 }
 
+// Add a column to an existing table, ignoring "duplicate column" errors
+function addColumn(database, table, columnDef) {
+  database.run(`ALTER TABLE ${table} ADD COLUMN ${columnDef}`, (err) => {
+    if (err && !/duplicate column/i.test(err.message)) {
+      console.error(`Error adding column to ${table}:`, err);
+    }
+  });
+}
+
 function initDatabase() {
   return new Promise((resolve, reject) => {
     const database = getDatabase();
@@ -144,12 +154,583 @@ function initDatabase() {
           reject(err);
           return;
         }
+      });
+
+      // Columns added after the initial schema (no-op if they already exist)
+      addColumn(database, 'validators', 'beacon_status TEXT');
+      addColumn(database, 'validators', "lifecycle TEXT DEFAULT 'unknown'");
+      addColumn(database, 'exit_validators', 'beacon_status TEXT');
+      addColumn(database, 'exit_validators', "lifecycle TEXT DEFAULT 'unknown'");
+
+      // Beacon chain fields (balances in gwei, epochs NULL when not scheduled)
+      ['validators', 'exit_validators'].forEach(table => {
+        addColumn(database, table, 'validator_index INTEGER');
+        addColumn(database, table, 'balance INTEGER');
+        addColumn(database, table, 'effective_balance INTEGER');
+        addColumn(database, table, 'activation_epoch INTEGER');
+        addColumn(database, table, 'exit_epoch INTEGER');
+        addColumn(database, table, 'withdrawable_epoch INTEGER');
+        addColumn(database, table, 'withdrawal_credentials TEXT');
+        // Slashed flag from the beacon state (1 once slashed, whatever the status)
+        addColumn(database, table, 'slashed INTEGER');
+        // Last fetch error; the row keeps its last known status until a fetch succeeds
+        addColumn(database, table, 'fetch_error TEXT');
+      });
+
+      // Pre-signed voluntary exit (SignedVoluntaryExit JSON) and its last broadcast result
+      addColumn(database, 'exit_validators', 'exit_message TEXT');
+      addColumn(database, 'exit_validators', 'exit_message_epoch INTEGER');
+      addColumn(database, 'exit_validators', 'exit_message_uploaded_at DATETIME');
+      // 'accepted', 'rejected' (by the beacon node) or 'failed' (not delivered)
+      addColumn(database, 'exit_validators', 'exit_submission_status TEXT');
+      addColumn(database, 'exit_validators', 'exit_submission_error TEXT');
+      addColumn(database, 'exit_validators', 'exit_submitted_at DATETIME');
+      // BLS check of the stored message against the pubkey: 'valid' or 'invalid' (NULL until checked)
+      addColumn(database, 'exit_validators', 'exit_signature_status TEXT');
+      addColumn(database, 'exit_validators', 'exit_signature_error TEXT');
+      addColumn(database, 'exit_validators', 'exit_signature_checked_at DATETIME');
+      // Final withdrawal sweep: amount (gwei) and slot; source 'block' (found in the sweep block)
+      // or 'balance' (balance seen dropping to zero: the sweep slot is unknown and left NULL,
+      // withdrawn_seen_slot is the slot by which the zero balance was seen)
+      addColumn(database, 'exit_validators', 'withdrawn_amount INTEGER');
+      addColumn(database, 'exit_validators', 'withdrawn_slot INTEGER');
+      addColumn(database, 'exit_validators', 'withdrawn_at DATETIME');
+      addColumn(database, 'exit_validators', 'withdrawal_source TEXT');
+      addColumn(database, 'exit_validators', 'withdrawn_seen_slot INTEGER');
+      // Balance-detected sweeps used to store the detection slot as the sweep slot
+      database.run(`
+        UPDATE exit_validators
+        SET withdrawn_seen_slot = withdrawn_slot, withdrawn_slot = NULL, withdrawn_at = NULL
+        WHERE withdrawal_source = 'balance' AND withdrawn_slot IS NOT NULL
+      `, (err) => {
+        if (err) console.error('Error moving balance-detected withdrawal slots:', err);
+      });
+      // Exit deadline: when the provider requested the exits (NULL = upload time) and when keys are due
+      // to reach active_exiting; exiting_at is when each key was first seen there
+      addColumn(database, 'exit_batches', 'requested_at DATETIME');
+      addColumn(database, 'exit_batches', 'deadline_at DATETIME');
+      addColumn(database, 'exit_validators', 'exiting_at DATETIME');
+      // Set once when every key of the batch has exited / been fully withdrawn
+      addColumn(database, 'exit_batches', 'fully_exited_at DATETIME');
+      addColumn(database, 'exit_batches', 'fully_withdrawn_at DATETIME');
+      // From imported key files: keystore derivation path, and the deposit's withdrawal credentials and
+      // amount (gwei); withdrawal_credentials itself stays the beacon value
+      addColumn(database, 'validators', 'derivation_path TEXT');
+      addColumn(database, 'validators', 'deposit_withdrawal_credentials TEXT');
+      addColumn(database, 'validators', 'deposit_amount INTEGER');
+      // Validator import (imports.id) that created or last changed the row
+      addColumn(database, 'validators', 'import_id INTEGER');
+
+      // Create status_history table (one row per status transition seen during sync)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS status_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pubkey TEXT NOT NULL,
+          source TEXT NOT NULL,
+          batch_id INTEGER,
+          old_status TEXT,
+          new_status TEXT NOT NULL,
+          old_beacon_status TEXT,
+          new_beacon_status TEXT,
+          changed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating status_history table:', err);
+          reject(err);
+          return;
+        }
+      });
+      addColumn(database, 'status_history', 'old_beacon_status TEXT');
+      addColumn(database, 'status_history', 'new_beacon_status TEXT');
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_history_pubkey 
+        ON status_history(pubkey, changed_at)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating history_pubkey index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create sync_jobs table (durable progress of status sync runs)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS sync_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'queued',
+          total INTEGER DEFAULT 0,
+          processed INTEGER DEFAULT 0,
+          failed INTEGER DEFAULT 0,
+          batch_size INTEGER NOT NULL,
+          total_batches INTEGER DEFAULT 0,
+          completed_batches INTEGER DEFAULT 0,
+          cursor INTEGER DEFAULT 0,
+          error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          started_at DATETIME,
+          finished_at DATETIME,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating sync_jobs table:', err);
+          reject(err);
+          return;
+        }
+      });
+      // What started the job: 'manual' (API) or 'schedule'
+      addColumn(database, 'sync_jobs', "trigger TEXT DEFAULT 'manual'");
+      // Beacon state the job reads from (head, finalized, justified or a slot)
+      addColumn(database, 'sync_jobs', "state_id TEXT DEFAULT 'head'");
+
+      // Create sync_job_errors table (per-pubkey failures of a sync job)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS sync_job_errors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER NOT NULL,
+          pubkey TEXT,
+          batch_no INTEGER,
+          error TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (job_id) REFERENCES sync_jobs(id)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating sync_job_errors table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_sync_job_errors_job 
+        ON sync_job_errors(job_id)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating sync_job_errors index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create status_discrepancies table (pubkeys whose status differed between beacon nodes)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS status_discrepancies (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER,
+          pubkey TEXT NOT NULL,
+          source TEXT NOT NULL,
+          node_statuses TEXT NOT NULL,
+          detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (job_id) REFERENCES sync_jobs(id)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating status_discrepancies table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_status_discrepancies_pubkey 
+        ON status_discrepancies(pubkey)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating status_discrepancies index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create exit_queue_snapshots table (periodic exit queue figures, one row per computation)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS exit_queue_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          computed_at DATETIME NOT NULL UNIQUE,
+          head_slot INTEGER,
+          current_epoch INTEGER,
+          queue_eth REAL,
+          exiting_validators INTEGER,
+          wait_epochs INTEGER,
+          wait_seconds INTEGER,
+          churn_eth_per_epoch REAL,
+          sweep_delay_seconds INTEGER,
+          validator_count INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating exit_queue_snapshots table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create el_exit_requests table (EIP-7002 requests imported from contract event exports)
+      // amount_gwei 0 is a full exit request, anything else a partial withdrawal
+      database.run(`
+        CREATE TABLE IF NOT EXISTS el_exit_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pubkey TEXT NOT NULL,
+          source_address TEXT,
+          amount_gwei INTEGER NOT NULL DEFAULT 0,
+          tx_hash TEXT NOT NULL,
+          block_number INTEGER,
+          block_time DATETIME,
+          log_index INTEGER,
+          filename TEXT,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(tx_hash, pubkey, amount_gwei)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating el_exit_requests table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_el_exit_requests_pubkey 
+        ON el_exit_requests(pubkey)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating el_exit_requests index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create lido_exit_requests table (ValidatorExitRequest events imported from ValidatorsExitBusOracle exports)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS lido_exit_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pubkey TEXT NOT NULL,
+          validator_index INTEGER,
+          staking_module_id INTEGER,
+          node_operator_id INTEGER,
+          ref_slot INTEGER,
+          requested_at DATETIME,
+          tx_hash TEXT,
+          block_number INTEGER,
+          log_index INTEGER,
+          batch_id INTEGER,
+          filename TEXT,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (batch_id) REFERENCES exit_batches(id)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating lido_exit_requests table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_lido_exit_requests_pubkey
+        ON lido_exit_requests(pubkey)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating lido_exit_requests index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create balance_snapshots table (balances of every key returned by each sync)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS balance_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER,
+          source TEXT NOT NULL,
+          pubkey TEXT NOT NULL,
+          balance INTEGER,
+          effective_balance INTEGER,
+          state_id TEXT,
+          captured_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating balance_snapshots table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_balance_snapshots_pubkey 
+        ON balance_snapshots(pubkey, captured_at)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating balance_snapshots index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create alerts table (incidents detected during sync, one per type and pubkey)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          pubkey TEXT NOT NULL,
+          source TEXT NOT NULL,
+          beacon_status TEXT,
+          detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          acknowledged_at DATETIME,
+          UNIQUE(type, pubkey)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating alerts table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create webhooks table (outbound notification targets; events is a comma list, NULL for all)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT,
+          description TEXT,
+          enabled INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating webhooks table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create webhook_deliveries table (one row per event and webhook, updated on every attempt)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER DEFAULT 0,
+          response_status INTEGER,
+          error TEXT,
+          next_attempt_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          delivered_at DATETIME,
+          FOREIGN KEY (webhook_id) REFERENCES webhooks(id)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating webhook_deliveries table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+        ON webhook_deliveries(webhook_id, id)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating webhook_deliveries index:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create providers table (aliases and withdrawal_credentials are comma lists)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS providers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          aliases TEXT,
+          logo_url TEXT,
+          withdrawal_credentials TEXT,
+          sort_order INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating providers table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Seed the providers that used to be built in, on first start only
+      database.run(`
+        INSERT INTO providers (name, aliases, logo_url, sort_order)
+        SELECT * FROM (VALUES
+          ('Lido', 'lido', 'https://s2.coinmarketcap.com/static/img/coins/64x64/8085.png', 1),
+          ('Etherfi', 'etherfi,ether.fi', 'https://s2.coinmarketcap.com/static/img/coins/64x64/29814.png', 2),
+          ('Mantle', 'mantle', 'https://s2.coinmarketcap.com/static/img/coins/64x64/27075.png', 3)
+        )
+        WHERE NOT EXISTS (SELECT 1 FROM providers)
+      `, (err) => {
+        if (err) {
+          console.error('Error seeding providers:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create imports table (one row per validator CSV or key file upload; providers is a JSON
+      // object of key counts per provider)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS imports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filename TEXT NOT NULL,
+          source TEXT NOT NULL,
+          row_count INTEGER DEFAULT 0,
+          inserted INTEGER DEFAULT 0,
+          updated INTEGER DEFAULT 0,
+          unchanged INTEGER DEFAULT 0,
+          providers TEXT,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          reverted_at DATETIME
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating imports table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      // Create import_changes table (keys an import created or changed; previous holds the changed
+      // columns and import_id as they were before, as JSON, so the import can be reverted)
+      database.run(`
+        CREATE TABLE IF NOT EXISTS import_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          import_id INTEGER NOT NULL,
+          pubkey TEXT NOT NULL,
+          action TEXT NOT NULL,
+          previous TEXT,
+          FOREIGN KEY (import_id) REFERENCES imports(id)
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating import_changes table:', err);
+          reject(err);
+          return;
+        }
+      });
+
+      database.run(`
+        CREATE INDEX IF NOT EXISTS idx_import_changes_import
+        ON import_changes(import_id)
+      `, (err) => {
+        if (err) {
+          console.error('Error creating import_changes index:', err);
+          reject(err);
+          return;
+        }
         resolve();
       });
     });
   });
 }
 
+// Promise wrappers around the callback API
+// Writes (dbRun, dbPrepare().run) take the write lock; reads do not
+function dbRun(sql, params = []) {
+  return withWriteLock(() => new Promise((resolve, reject) => {
+    getDatabase().run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  }));
+}
+
+function dbGet(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
+}
+
+function dbAll(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+// Promise wrapper around a prepared statement, for repeated writes inside a transaction
+function dbPrepare(sql) {
+  const stmt = getDatabase().prepare(sql);
+  return {
+    run(params = []) {
+      return withWriteLock(() => new Promise((resolve, reject) => {
+        stmt.run(params, function(err) {
+          if (err) reject(err);
+          else resolve({ lastID: this.lastID, changes: this.changes });
+        });
+      }));
+    },
+    finalize() {
+      return new Promise((resolve, reject) => {
+        stmt.finalize(err => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }
+  };
+}
+
+// Serializes writes: every module shares one connection, so a write issued while a transaction is
+// open would run inside it and commit or roll back with it. All writes go through dbRun, dbPrepare or
+// dbTransaction, which queue here; code already holding the lock (fn and what it awaits) runs in place
+let writeQueue = Promise.resolve();
+const lockHolder = new AsyncLocalStorage();
+
+function withWriteLock(fn) {
+  const holder = lockHolder.getStore();
+  if (holder && holder.held) {
+    return Promise.resolve().then(fn);
+  }
+  const result = writeQueue.then(() => {
+    const store = { held: true };
+    // Callbacks fn leaves behind (timers, background jobs) keep the store; they queue again once fn settles
+    return lockHolder.run(store, () => Promise.resolve().then(fn)).finally(() => {
+      store.held = false;
+    });
+  });
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+// Run fn between BEGIN and COMMIT under the write lock; ROLLBACK and rethrow when it fails
+function dbTransaction(fn) {
+  return withWriteLock(async () => {
+    await dbRun('BEGIN TRANSACTION');
+    try {
+      const result = await fn();
+      await dbRun('COMMIT');
+      return result;
+    } catch (error) {
+      await dbRun('ROLLBACK').catch(() => {});
+      throw error;
+    }
+  });
+}
+
 function closeDatabase() {
   if (db) {
     db.close((err) => {
@@ -164,6 +745,12 @@ function closeDatabase() {
 module.exports = {
   getDatabase,
   initDatabase,
-  closeDatabase
+  closeDatabase,
+  dbRun,
+  dbGet,
+  dbAll,
+  dbPrepare,
+  withWriteLock,
+  dbTransaction
 };
 
@@ -0,0 +1,171 @@
+const { dbRun, dbAll } = require('./db');
+const { normalizePubkey } = require('./utils');
+const { pick, readExport, parseBlockTime, parseInteger } = require('./eventExports');
+
+// EIP-7002 withdrawal request contract (same address on every network)
+const WITHDRAWAL_REQUEST_CONTRACT = '0x00000961ef480eb55e80d19ad83579a64c007002';
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/;
+const PUBKEY_PATTERN = /^0x[0-9a-f]{96}$/;
+const TX_HASH_PATTERN = /^0x[0-9a-f]{64}$/;
+// Raw contract log data: source_address (20) ++ validator_pubkey (48) ++ amount (8, big endian)
+const LOG_DATA_PATTERN = /^0x[0-9a-f]{152}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// Normalize one exported event into a request record; returns { record } or { error }
+function toRequestRecord(row) {
+  let pubkey = pick(row, ['validator_pubkey', 'validatorPubkey', 'pubkey', 'validator']);
+  let sourceAddress = pick(row, ['source_address', 'sourceAddress', 'source', 'from']);
+  let amount = pick(row, ['amount', 'amount_gwei', 'amountGwei']);
+
+  // Raw log export: decode the request from the log data
+  const data = pick(row, ['data']);
+  if (data && LOG_DATA_PATTERN.test(data.toLowerCase())) {
+    const address = pick(row, ['address', 'contract_address', 'contractAddress']);
+    if (address && address.toLowerCase() !== WITHDRAWAL_REQUEST_CONTRACT) {
+      return { error: `Log from ${address} is not from the withdrawal request contract` };
+    }
+    const hex = data.toLowerCase().slice(2);
+    sourceAddress = `0x${hex.slice(0, 40)}`;
+    pubkey = `0x${hex.slice(40, 136)}`;
+    amount = BigInt(`0x${hex.slice(136)}`).toString();
+  }
+
+  const txHash = pick(row, ['tx_hash', 'txHash', 'transaction_hash', 'transactionHash', 'hash']);
+  if (!pubkey) return { error: 'Missing validator_pubkey' };
+  pubkey = normalizePubkey(pubkey);
+  if (!PUBKEY_PATTERN.test(pubkey)) return { error: `Invalid validator_pubkey: ${pubkey}` };
+  if (!txHash || !TX_HASH_PATTERN.test(txHash.toLowerCase())) return { error: `Missing or invalid tx hash for ${pubkey}` };
+  sourceAddress = sourceAddress ? sourceAddress.toLowerCase() : null;
+  if (sourceAddress && !ADDRESS_PATTERN.test(sourceAddress)) return { error: `Invalid source_address: ${sourceAddress}` };
+  // Exports of exit events often omit the amount; 0 is a full exit request
+  if (amount !== null && !/^\d+$/.test(amount)) return { error: `Invalid amount: ${amount}` };
+
+  return {
+    record: {
+      pubkey,
+      source_address: sourceAddress,
+      amount_gwei: amount !== null ? Number(amount) : 0,
+      tx_hash: txHash.toLowerCase(),
+      block_number: parseInteger(pick(row, ['block_number', 'blockNumber', 'block'])),
+      block_time: parseBlockTime(pick(row, ['block_timestamp', 'blockTimestamp', 'block_time', 'timestamp', 'time'])),
+      log_index: parseInteger(pick(row, ['log_index', 'logIndex']))
+    }
+  };
+}
+
+// Import EIP-7002 request events from an export file and match them to exit validators
+// Requests with amount 0 are full exits; partial withdrawal requests are stored but do not trigger exits
+async function importElExitRequests(filePath, filename) {
+  const rows = await readExport(filePath, filename);
+  if (rows.length === 0) {
+    throw badRequest('No request records found in file');
+  }
+
+  const errors = [];
+  const records = [];
+  rows.forEach((row, i) => {
+    const { record, error } = toRequestRecord(row);
+    if (error) errors.push({ row: i + 1, error });
+    else records.push(record);
+  });
+
+  let imported = 0;
+  for (const record of records) {
+    // The same request can appear in overlapping exports
+    const result = await dbRun(`
+      INSERT OR IGNORE INTO el_exit_requests (
+        pubkey, source_address, amount_gwei, tx_hash, block_number, block_time, log_index, filename
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      record.pubkey,
+      record.source_address,
+      record.amount_gwei,
+      record.tx_hash,
+      record.block_number,
+      record.block_time,
+      record.log_index,
+      filename
+    ]);
+    imported += result.changes;
+  }
+
+  // Match against exit validators; the consensus layer ignores requests whose source
+  // is not the validator's withdrawal address
+  const pubkeys = [...new Set(records.map(record => record.pubkey))];
+  const matched = {};
+  for (let i = 0; i < pubkeys.length; i += 500) {
+    const chunk = pubkeys.slice(i, i + 500);
+    const rowsForChunk = await dbAll(`
+      SELECT pubkey, withdrawal_credentials
+      FROM exit_validators
+      WHERE pubkey IN (${chunk.map(() => '?').join(',')})
+    `, chunk);
+    rowsForChunk.forEach(row => {
+      matched[row.pubkey] = row.withdrawal_credentials;
+    });
+  }
+
+  const sourceMismatches = [];
+  records.forEach(record => {
+    const credentials = matched[record.pubkey];
+    if (!credentials || !record.source_address || credentials.startsWith('0x00')) return;
+    const withdrawalAddress = `0x${credentials.slice(-40)}`.toLowerCase();
+    if (withdrawalAddress !== record.source_address) {
+      sourceMismatches.push({ pubkey: record.pubkey, tx_hash: record.tx_hash, source_address: record.source_address, withdrawal_address: withdrawalAddress });
+    }
+  });
+
+  return {
+    filename,
+    total: rows.length,
+    imported,
+    duplicates: records.length - imported,
+    exitRequests: records.filter(record => record.amount_gwei === 0).length,
+    partialRequests: records.filter(record => record.amount_gwei > 0).length,
+    matched: pubkeys.filter(pubkey => matched[pubkey] !== undefined).length,
+    unmatched: pubkeys.filter(pubkey => matched[pubkey] === undefined).length,
+    sourceMismatches,
+    errors
+  };
+}
+
+// Imported requests, newest first; filter by pubkey or exit batch
+async function listElExitRequests({ pubkey, batchId, limit = 100 } = {}) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (pubkey) {
+    where += ' AND r.pubkey = ?';
+    params.push(normalizePubkey(pubkey));
+  }
+  if (batchId) {
+    where += ' AND r.pubkey IN (SELECT pubkey FROM exit_validators WHERE batch_id = ?)';
+    params.push(batchId);
+  }
+  return dbAll(`
+    SELECT r.*
+    FROM el_exit_requests r
+    ${where}
+    ORDER BY r.block_number DESC, r.log_index DESC
+    LIMIT ?
+  `, [...params, Math.min(parseInt(limit, 10) || 100, 1000)]);
+}
+
+// SQL for the latest full exit request of exit_validators row e (use as a correlated subquery)
+const LATEST_EL_EXIT_REQUEST = `
+  SELECT r.tx_hash FROM el_exit_requests r
+  WHERE r.pubkey = e.pubkey AND r.amount_gwei = 0
+  ORDER BY r.block_number DESC, r.log_index DESC
+  LIMIT 1
+`;
+
+module.exports = {
+  LATEST_EL_EXIT_REQUEST,
+  importElExitRequests,
+  listElExitRequests
+};
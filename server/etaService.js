@@ -0,0 +1,157 @@
+const { getGenesisTime, SLOTS_PER_EPOCH, SECONDS_PER_SLOT } = require('./stateId');
+const { peekExitQueueInfo } = require('./exitQueueService');
+
+const EPOCH_SECONDS = SLOTS_PER_EPOCH * SECONDS_PER_SLOT;
+// Epochs between exit and withdrawability (MIN_VALIDATOR_WITHDRAWABILITY_DELAY)
+const MIN_VALIDATOR_WITHDRAWABILITY_DELAY = 256;
+
+let genesisTime = null;
+let genesisLoading = null;
+
+// Genesis time once loaded; the first call starts loading it in the background
+function peekGenesisTime() {
+  if (genesisTime === null && !genesisLoading) {
+    genesisLoading = getGenesisTime()
+      .then(time => {
+        genesisTime = time;
+      })
+      .catch(error => {
+        console.warn('ETA: genesis time unavailable:', error.message);
+      })
+      .finally(() => {
+        genesisLoading = null;
+      });
+  }
+  return genesisTime;
+}
+
+// Load estimate inputs ahead of the first request
+function warmEtaInputs() {
+  peekGenesisTime();
+  peekExitQueueInfo();
+}
+
+// Inputs shared by every estimate, never waits on the beacon node
+// Returns null until genesis time is known
+function getEtaContext() {
+  const genesis = peekGenesisTime();
+  if (genesis === null) return null;
+  const queue = peekExitQueueInfo();
+  return {
+    genesisTime: genesis,
+    now: Math.floor(Date.now() / 1000),
+    queueWaitSeconds: queue && queue.wait_seconds !== undefined ? queue.wait_seconds : null,
+    sweepDelaySeconds: queue && queue.sweep_delay_seconds !== undefined ? queue.sweep_delay_seconds : null
+  };
+}
+
+function epochToSeconds(epoch, context) {
+  return context.genesisTime + epoch * EPOCH_SECONDS;
+}
+
+// Estimate for one exit validator ({ lifecycle, exit_epoch, withdrawable_epoch }), times in unix seconds
+// basis: 'withdrawn' (done), 'chain' (exit epochs assigned on chain), 'queue' (not exiting yet,
+// assumes the exit is submitted now) or null (no estimate)
+function estimateSeconds(row, context) {
+  const none = { basis: null, exitAt: null, withdrawableAt: null, withdrawnBy: null };
+  if (row.lifecycle === 'withdrawn') return { ...none, basis: 'withdrawn' };
+  if (!context) return none;
+
+  let basis;
+  let exitAt;
+  let withdrawableAt;
+  if (row.exit_epoch !== null && row.exit_epoch !== undefined
+    && row.withdrawable_epoch !== null && row.withdrawable_epoch !== undefined) {
+    basis = 'chain';
+    exitAt = epochToSeconds(row.exit_epoch, context);
+    withdrawableAt = epochToSeconds(row.withdrawable_epoch, context);
+  } else if (row.lifecycle === 'active' && context.queueWaitSeconds !== null) {
+    basis = 'queue';
+    exitAt = context.now + context.queueWaitSeconds;
+    withdrawableAt = exitAt + MIN_VALIDATOR_WITHDRAWABILITY_DELAY * EPOCH_SECONDS;
+  } else {
+    return none;
+  }
+
+  // The sweep reaches a withdrawable validator within one full cycle
+  const withdrawnBy = context.sweepDelaySeconds !== null
+    ? Math.max(context.now, withdrawableAt + context.sweepDelaySeconds)
+    : null;
+  return { basis, exitAt, withdrawableAt, withdrawnBy };
+}
+
+function toIso(seconds) {
+  return seconds === null ? null : new Date(seconds * 1000).toISOString();
+}
+
+// ETA of one exit validator with ISO times
+function estimateEta(row, context) {
+  const eta = estimateSeconds(row, context);
+  return {
+    basis: eta.basis,
+    exit_at: toIso(eta.exitAt),
+    withdrawable_at: toIso(eta.withdrawableAt),
+    withdrawn_by: toIso(eta.withdrawnBy)
+  };
+}
+
+// Running aggregate of validator ETAs (see summarizeEta)
+function createEtaSummary() {
+  return {
+    total: 0,
+    withdrawn: 0,
+    chain: 0,
+    queue: 0,
+    unknown: 0,
+    exitAt: null,
+    withdrawableAt: null,
+    withdrawnBy: null,
+    withdrawnByUnknown: false
+  };
+}
+
+function addToEtaSummary(summary, row, context) {
+  const eta = estimateSeconds(row, context);
+  summary.total += 1;
+  if (eta.basis === 'withdrawn') {
+    summary.withdrawn += 1;
+    return;
+  }
+  if (eta.basis === null) {
+    summary.unknown += 1;
+    return;
+  }
+  summary[eta.basis] += 1;
+  summary.exitAt = Math.max(summary.exitAt || 0, eta.exitAt);
+  summary.withdrawableAt = Math.max(summary.withdrawableAt || 0, eta.withdrawableAt);
+  if (eta.withdrawnBy === null) {
+    summary.withdrawnByUnknown = true;
+  } else {
+    summary.withdrawnBy = Math.max(summary.withdrawnBy || 0, eta.withdrawnBy);
+  }
+}
+
+// Latest estimates across a group: by when every key has exited, become withdrawable and been swept
+// withdrawn_by is null while any key still lacks an estimate
+function summarizeEta(summary) {
+  const complete = summary.unknown === 0 && !summary.withdrawnByUnknown;
+  return {
+    total: summary.total,
+    withdrawn: summary.withdrawn,
+    from_chain: summary.chain,
+    from_queue: summary.queue,
+    unknown: summary.unknown,
+    exit_by: toIso(summary.exitAt),
+    withdrawable_by: toIso(summary.withdrawableAt),
+    withdrawn_by: complete ? toIso(summary.withdrawnBy) : null
+  };
+}
+
+module.exports = {
+  warmEtaInputs,
+  getEtaContext,
+  estimateEta,
+  createEtaSummary,
+  addToEtaSummary,
+  summarizeEta
+};
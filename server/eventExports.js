@@ -0,0 +1,79 @@
+const csv = require('csv-parser');
+const fs = require('fs');
+
+// Reading contract event exports (JSON or CSV) shared by the exit request importers
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// First non-empty field among the accepted spellings
+function pick(record, names) {
+  for (const name of names) {
+    const value = record[name];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return null;
+}
+
+function parseCsvFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const firstLine = fs.readFileSync(filePath, 'utf8').split('\n')[0];
+    const rows = [];
+    fs.createReadStream(filePath)
+      .pipe(csv({ separator: firstLine.includes('\t') ? '\t' : ',' }))
+      .on('data', row => rows.push(row))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
+
+// Rows of an export: JSON (array, { data: [...] } or one object per line) or CSV
+async function readExport(filePath, filename) {
+  const text = fs.readFileSync(filePath, 'utf8').trim();
+  if (!text.startsWith('[') && !text.startsWith('{')) {
+    return parseCsvFile(filePath);
+  }
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    try {
+      parsed = text.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+    } catch (lineError) {
+      throw badRequest(`${filename}: not valid JSON or CSV`);
+    }
+  }
+  if (Array.isArray(parsed)) return parsed;
+  if (Array.isArray(parsed.data)) return parsed.data;
+  if (Array.isArray(parsed.result)) return parsed.result;
+  return [parsed];
+}
+
+// Block time as ISO: unix seconds, unix ms or a date string
+function parseBlockTime(value) {
+  if (value === null) return null;
+  if (/^\d+$/.test(value)) {
+    const number = parseInt(value, 10);
+    return new Date(number > 1e12 ? number : number * 1000).toISOString();
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+}
+
+// Parse an integer that may be hex (as in raw RPC logs)
+function parseInteger(value) {
+  if (value === null) return null;
+  return value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+}
+
+module.exports = {
+  pick,
+  readExport,
+  parseBlockTime,
+  parseInteger
+};
@@ -0,0 +1,13 @@
+const { EventEmitter } = require('events');
+
+// In-process event bus for sync activity
+// Events:
+//   'sync-job'           - sync_jobs row after every status or progress change
+//   'status-transitions' - { jobId, type, transitions } after each synced batch
+//   'alerts'             - new alert rows (see server/alerts.js), e.g. newly slashed keys
+//   'batch-milestones'   - exit batches that became fully exited or fully withdrawn (server/batchMilestones.js)
+//   'providers'          - provider registry after every change (server/providers.js)
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+module.exports = events;
@@ -0,0 +1,167 @@
+const axios = require('axios');
+const { requestWithFailover } = require('./beaconNodes');
+const { scheduleRequest } = require('./requestScheduler');
+const { SLOTS_PER_EPOCH } = require('./stateId');
+
+// Electra exit churn (consensus specs, mainnet preset), in whole ETH
+// get_balance_churn_limit: max(MIN_PER_EPOCH_CHURN_LIMIT_ELECTRA, total active balance / CHURN_LIMIT_QUOTIENT)
+// get_activation_exit_churn_limit: min(MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT, balance churn)
+const MIN_PER_EPOCH_CHURN_LIMIT_ETH = 128;
+const MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH = 256;
+const CHURN_LIMIT_QUOTIENT = 65536;
+const MAX_SEED_LOOKAHEAD = 4;
+const MIN_ACTIVATION_BALANCE_ETH = 32;
+const GWEI_PER_ETH = 1e9;
+
+// The state is read as SSZ and only up to the end of the validator list (~121 bytes per validator);
+// the rest of the stream is dropped
+const STATE_TIMEOUT_MS = 180000;
+// Forks with the Electra BeaconState layout up to earliest_exit_epoch
+const SUPPORTED_FORKS = ['electra', 'fulu'];
+
+// Byte positions in the fixed part of an Electra BeaconState (mainnet preset)
+const SLOT_POS = 40;
+const VALIDATORS_OFFSET_POS = 524552;
+const BALANCES_OFFSET_POS = 524556;
+const EXIT_BALANCE_TO_CONSUME_POS = 2736669;
+const EARLIEST_EXIT_EPOCH_POS = 2736677;
+const FIXED_BYTES_NEEDED = EARLIEST_EXIT_EPOCH_POS + 8;
+
+// Validator container: pubkey (48), withdrawal_credentials (32), effective_balance, slashed (1),
+// activation_eligibility_epoch, activation_epoch, exit_epoch, withdrawable_epoch
+const VALIDATOR_BYTES = 121;
+const EFFECTIVE_BALANCE_POS = 80;
+const ACTIVATION_EPOCH_POS = 97;
+const EXIT_EPOCH_POS = 105;
+
+// uint64 as a Number; FAR_FUTURE_EPOCH stays larger than any real epoch
+function readUint64(buffer, position) {
+  return Number(buffer.readBigUInt64LE(position));
+}
+
+// Read the fields the exit churn depends on from an SSZ state response, then drop the stream
+function readStateStream(response) {
+  return new Promise((resolve, reject) => {
+    const stream = response.data;
+    const fork = String(response.headers['eth-consensus-version'] || '').toLowerCase();
+    if (!SUPPORTED_FORKS.includes(fork)) {
+      stream.destroy();
+      reject(new Error(`Unsupported fork for exit churn: ${fork || 'unknown'}`));
+      return;
+    }
+
+    const fixed = Buffer.alloc(FIXED_BYTES_NEEDED);
+    let position = 0;
+    let state = null;
+    let validatorsStart = 0;
+    let validatorsEnd = 0;
+    let pending = Buffer.alloc(0);
+    let activeIncrements = 0;
+    let settled = false;
+
+    const timer = setTimeout(() => finish(new Error(`Beacon state read timed out after ${STATE_TIMEOUT_MS}ms`)), STATE_TIMEOUT_MS);
+
+    function finish(error) {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      stream.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ ...state, totalActiveBalanceEth: Math.max(1, activeIncrements) });
+      }
+    }
+
+    function countValidators(bytes) {
+      const data = pending.length > 0 ? Buffer.concat([pending, bytes]) : bytes;
+      const whole = data.length - (data.length % VALIDATOR_BYTES);
+      for (let offset = 0; offset < whole; offset += VALIDATOR_BYTES) {
+        const activationEpoch = readUint64(data, offset + ACTIVATION_EPOCH_POS);
+        const exitEpoch = readUint64(data, offset + EXIT_EPOCH_POS);
+        if (activationEpoch <= state.currentEpoch && state.currentEpoch < exitEpoch) {
+          // Effective balances are whole ETH
+          activeIncrements += Math.floor(readUint64(data, offset + EFFECTIVE_BALANCE_POS) / GWEI_PER_ETH);
+        }
+      }
+      pending = data.subarray(whole);
+    }
+
+    stream.on('data', chunk => {
+      if (settled) return;
+      const start = position;
+      position += chunk.length;
+
+      if (start < FIXED_BYTES_NEEDED) {
+        chunk.copy(fixed, start, 0, Math.min(chunk.length, FIXED_BYTES_NEEDED - start));
+      }
+      if (!state && position >= FIXED_BYTES_NEEDED) {
+        const slot = readUint64(fixed, SLOT_POS);
+        state = {
+          slot,
+          currentEpoch: Math.floor(slot / SLOTS_PER_EPOCH),
+          exitBalanceToConsumeGwei: readUint64(fixed, EXIT_BALANCE_TO_CONSUME_POS),
+          earliestExitEpoch: readUint64(fixed, EARLIEST_EXIT_EPOCH_POS)
+        };
+        validatorsStart = fixed.readUInt32LE(VALIDATORS_OFFSET_POS);
+        validatorsEnd = fixed.readUInt32LE(BALANCES_OFFSET_POS);
+        if (validatorsStart < FIXED_BYTES_NEEDED || validatorsEnd < validatorsStart) {
+          finish(new Error('Beacon state does not have the expected layout'));
+          return;
+        }
+      }
+      if (!state) return;
+
+      const from = Math.max(start, validatorsStart);
+      const to = Math.min(position, validatorsEnd);
+      if (from < to) {
+        countValidators(chunk.subarray(from - start, to - start));
+      }
+      if (position >= validatorsEnd) {
+        finish(null);
+      }
+    });
+    stream.on('error', error => finish(error));
+    stream.on('end', () => finish(state && position >= validatorsEnd ? null : new Error('Beacon state ended early')));
+  });
+}
+
+// Exit churn inputs from a beacon state. Returns { slot, currentEpoch, totalActiveBalanceEth,
+// exitBalanceToConsumeGwei, earliestExitEpoch }
+async function getExitChurnState(stateId = 'head') {
+  const response = await scheduleRequest(
+    () => requestWithFailover(baseUrl => axios.get(`${baseUrl}/eth/v2/debug/beacon/states/${stateId}`, {
+      timeout: STATE_TIMEOUT_MS,
+      responseType: 'stream',
+      headers: { 'Accept': 'application/octet-stream' }
+    })),
+    { label: 'Beacon state request', retries: 1 }
+  );
+  return readStateStream(response);
+}
+
+// get_activation_exit_churn_limit in whole ETH per epoch
+function getExitChurnLimitEth(totalActiveBalanceEth) {
+  const balanceChurn = Math.max(MIN_PER_EPOCH_CHURN_LIMIT_ETH, Math.floor(totalActiveBalanceEth / CHURN_LIMIT_QUOTIENT));
+  return Math.min(MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH, balanceChurn);
+}
+
+// compute_exit_epoch_and_update_churn for an exit of exitBalanceEth requested now, without updating the state
+function projectExitEpoch(state, churnEth, exitBalanceEth = MIN_ACTIVATION_BALANCE_ETH) {
+  const churnGwei = churnEth * GWEI_PER_ETH;
+  const exitBalanceGwei = exitBalanceEth * GWEI_PER_ETH;
+  let exitEpoch = Math.max(state.earliestExitEpoch, state.currentEpoch + 1 + MAX_SEED_LOOKAHEAD);
+  const balanceToConsume = state.earliestExitEpoch < exitEpoch ? churnGwei : state.exitBalanceToConsumeGwei;
+  if (exitBalanceGwei > balanceToConsume) {
+    exitEpoch += Math.floor((exitBalanceGwei - balanceToConsume - 1) / churnGwei) + 1;
+  }
+  return exitEpoch;
+}
+
+module.exports = {
+  MIN_PER_EPOCH_CHURN_LIMIT_ETH,
+  MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH,
+  getExitChurnState,
+  getExitChurnLimitEth,
+  projectExitEpoch
+};
@@ -0,0 +1,118 @@
+const { dbRun, dbAll } = require('./db');
+const { getExitQueueInfo } = require('./exitQueueService');
+
+// Exit queue snapshot interval (.env)
+const EXIT_QUEUE_SNAPSHOT_MINUTES = parseFloat(process.env.EXIT_QUEUE_SNAPSHOT_MINUTES) || 60;
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_ROWS = 10000;
+
+let timer = null;
+
+// Store the current exit queue figures; stale or unavailable figures are skipped
+// Returns true when a new snapshot was written
+async function recordSnapshot() {
+  const info = await getExitQueueInfo();
+  if (info.source !== 'beacon' || info.stale) {
+    console.warn('Exit queue snapshot skipped:', info.error || 'figures are stale');
+    return false;
+  }
+
+  // computed_at is unique, so cached figures are not stored twice
+  const result = await dbRun(`
+    INSERT OR IGNORE INTO exit_queue_snapshots (
+      computed_at, head_slot, current_epoch, queue_eth, exiting_validators,
+      wait_epochs, wait_seconds, churn_eth_per_epoch, sweep_delay_seconds, validator_count
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    info.computed_at,
+    info.head_slot,
+    info.current_epoch,
+    info.eth,
+    info.exiting_validators,
+    info.wait_epochs,
+    info.wait_seconds,
+    info.churn_eth_per_epoch,
+    info.sweep_delay_seconds,
+    info.validator_count
+  ]);
+  return result.changes > 0;
+}
+
+function runSnapshot() {
+  recordSnapshot().catch(error => {
+    console.error('Failed to record exit queue snapshot:', error);
+  });
+}
+
+function startExitQueueSnapshots() {
+  if (timer) return;
+  runSnapshot();
+  timer = setInterval(runSnapshot, EXIT_QUEUE_SNAPSHOT_MINUTES * 60 * 1000);
+}
+
+function stopExitQueueSnapshots() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+function parseDate(value, name) {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    const error = new Error(`Invalid ${name} date: ${value}`);
+    error.status = 400;
+    throw error;
+  }
+  return new Date(timestamp);
+}
+
+// Snapshots between from and to (ISO dates, default the last 30 days), oldest first
+async function getExitQueueHistory({ from, to } = {}) {
+  const toDate = to ? parseDate(to, 'to') : new Date();
+  const fromDate = from
+    ? parseDate(from, 'from')
+    : new Date(toDate.getTime() - DEFAULT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  if (fromDate > toDate) {
+    const error = new Error('from must be before to');
+    error.status = 400;
+    throw error;
+  }
+
+  // Newest rows win when the range holds more than MAX_HISTORY_ROWS
+  const rows = await dbAll(`
+    SELECT * FROM (
+      SELECT
+        computed_at,
+        head_slot,
+        current_epoch,
+        queue_eth,
+        exiting_validators,
+        wait_epochs,
+        wait_seconds,
+        churn_eth_per_epoch,
+        sweep_delay_seconds,
+        validator_count
+      FROM exit_queue_snapshots
+      WHERE computed_at >= ? AND computed_at <= ?
+      ORDER BY computed_at DESC
+      LIMIT ?
+    ) ORDER BY computed_at ASC
+  `, [fromDate.toISOString(), toDate.toISOString(), MAX_HISTORY_ROWS]);
+
+  return {
+    from: fromDate.toISOString(),
+    to: toDate.toISOString(),
+    intervalMinutes: EXIT_QUEUE_SNAPSHOT_MINUTES,
+    truncated: rows.length === MAX_HISTORY_ROWS,
+    data: rows
+  };
+}
+
+module.exports = {
+  startExitQueueSnapshots,
+  stopExitQueueSnapshots,
+  recordSnapshot,
+  getExitQueueHistory
+};
@@ -1,58 +1,254 @@
 const axios = require('axios');
+const { requestWithFailover } = require('./beaconNodes');
+const { scheduleRequest } = require('./requestScheduler');
+const { SLOTS_PER_EPOCH, SECONDS_PER_SLOT } = require('./stateId');
+const {
+  MIN_PER_EPOCH_CHURN_LIMIT_ETH,
+  MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH,
+  getExitChurnState,
+  getExitChurnLimitEth,
+  projectExitEpoch
+} = require('./exitChurn');
 
-const EXIT_QUEUE_URL = process.env.EXIT_QUEUE_URL || 'https://www.validatorqueue.com/';
+// Exit queue figures are recomputed from beacon data at most this often (.env)
+const EXIT_QUEUE_REFRESH_MINUTES = parseFloat(process.env.EXIT_QUEUE_REFRESH_MINUTES) || 10;
 
-// Fallback data when network request fails
-const FALLBACK_EXIT_QUEUE = {
-  eth: 838850,
-  wait: '14 days 14 hours',
-  churn: '256/epoch',
-  sweep_delay: '8.6 days'
-};
+const GWEI_PER_ETH = 1e9;
+// Distance between the two blocks used to measure withdrawal sweep speed
+const SWEEP_SAMPLE_SLOTS = 300;
+// The exiting validator set can be tens of MB
+const EXITING_TIMEOUT_MS = 120000;
 
-async function getExitQueueInfo() {
+let cached = null;
+let refreshing = null;
+// Highest validator index known to exist, speeds up the next count
+let knownValidatorCount = 0;
+
+function beaconGet(path, label, timeout = 30000) {
+  return scheduleRequest(
+    () => requestWithFailover(baseUrl => axios.get(`${baseUrl}${path}`, {
+      timeout,
+      headers: { 'Accept': 'application/json' }
+    })),
+    { label }
+  );
+}
+
+function isNotFound(error) {
+  return error.response && error.response.status === 404;
+}
+
+// Human readable duration, e.g. "14 days 14 hours" or "3 hours 20 minutes"
+function formatDuration(seconds) {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'} ${hours} hour${hours === 1 ? '' : 's'}`;
+  if (hours > 0) return `${hours} hour${hours === 1 ? '' : 's'} ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Latest block at or before slot, skipping missed slots
+async function getBlockAtOrBefore(slot) {
+  for (let candidate = slot; candidate > slot - SLOTS_PER_EPOCH && candidate >= 0; candidate--) {
+    try {
+      const response = await beaconGet(`/eth/v2/beacon/blocks/${candidate}`, `Block ${candidate} request`);
+      return response.data.data.message;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+  throw new Error(`No block found in the epoch before slot ${slot}`);
+}
+
+async function validatorExists(index) {
   try {
-    const response = await axios.get(EXIT_QUEUE_URL, { 
-      timeout: 8000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-    const html = response.data || '';
-
-    // Find Exit Queue section
-    const exitQueueSection = html.match(/Exit Queue[\s\S]*?<\/h5>/i);
-    if (!exitQueueSection) {
-      console.warn('Exit Queue section not found, using fallback');
-      return FALLBACK_EXIT_QUEUE;
+    await beaconGet(`/eth/v1/beacon/states/head/validators/${index}`, `Validator ${index} request`);
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) return false;
+    throw error;
+  }
+}
+
+// Number of validators in the registry, found by galloping then bisecting over indices
+async function countValidators(hint) {
+  let low = hint > 0 && await validatorExists(hint - 1) ? hint - 1 : 0;
+  let step = 1024;
+  while (await validatorExists(low + step)) {
+    low += step;
+    step *= 2;
+  }
+  let high = low + step;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (await validatorExists(mid)) low = mid;
+    else high = mid;
+  }
+  return low + 1;
+}
+
+function lastWithdrawalIndex(block) {
+  const withdrawals = (block.body.execution_payload && block.body.execution_payload.withdrawals) || [];
+  if (withdrawals.length === 0) return null;
+  return parseInt(withdrawals[withdrawals.length - 1].validator_index, 10);
+}
+
+// Time for the withdrawal sweep to cycle through every validator, measured from how far it
+// moved between two blocks. Returns { sweepDelaySeconds, validatorCount }
+async function measureSweep(headSlot) {
+  const [headBlock, pastBlock] = await Promise.all([
+    getBlockAtOrBefore(headSlot),
+    getBlockAtOrBefore(headSlot - SWEEP_SAMPLE_SLOTS)
+  ]);
+  const headIndex = lastWithdrawalIndex(headBlock);
+  const pastIndex = lastWithdrawalIndex(pastBlock);
+  if (headIndex === null || pastIndex === null) {
+    return { sweepDelaySeconds: null, validatorCount: null };
+  }
+
+  const validatorCount = await countValidators(Math.max(knownValidatorCount, headIndex + 1));
+  knownValidatorCount = validatorCount;
+
+  const slots = parseInt(headBlock.slot, 10) - parseInt(pastBlock.slot, 10);
+  const advanced = (headIndex - pastIndex + validatorCount) % validatorCount;
+  if (slots <= 0 || advanced === 0) {
+    return { sweepDelaySeconds: null, validatorCount };
+  }
+  return {
+    sweepDelaySeconds: Math.round((validatorCount / (advanced / slots)) * SECONDS_PER_SLOT),
+    validatorCount
+  };
+}
+
+// Exit queue from the head state. The churn is get_activation_exit_churn_limit of the total active
+// balance, and the wait is how long an exit submitted now takes, projected from the state's
+// earliest_exit_epoch and exit_balance_to_consume. When the state cannot be read, the queue ends at
+// the latest exit_epoch of the active_exiting validators and the churn is the observed drain rate
+// (queued ETH / epochs left) clamped to the protocol bounds
+async function computeExitQueue() {
+  const [header, exiting, churnState] = await Promise.all([
+    beaconGet('/eth/v1/beacon/headers/head', 'Head header request'),
+    beaconGet('/eth/v1/beacon/states/head/validators?status=active_exiting', 'Exiting validators request', EXITING_TIMEOUT_MS),
+    getExitChurnState('head').catch(error => {
+      console.warn('Exit churn state unavailable, using the observed drain:', error.message);
+      return null;
+    })
+  ]);
+
+  const headSlot = parseInt(header.data.data.header.message.slot, 10);
+  const currentEpoch = Math.floor(headSlot / SLOTS_PER_EPOCH);
+
+  let queueGwei = 0;
+  let exitingValidators = 0;
+  let latestExitEpoch = currentEpoch;
+  exiting.data.data.forEach(validator => {
+    const exitEpoch = parseInt(validator.validator.exit_epoch, 10);
+    if (exitEpoch > currentEpoch) {
+      queueGwei += parseInt(validator.validator.effective_balance, 10);
+      exitingValidators += 1;
+      latestExitEpoch = Math.max(latestExitEpoch, exitEpoch);
     }
+  });
 
-    const section = exitQueueSection[0];
-
-    // Extract ETH, Wait, Churn, Sweep Delay
-    const ethMatch = section.match(/ETH:[\s\S]*?<span[^>]*>([\d,]+)<\/span>/i) || 
-                     html.match(/Exit Queue[\s\S]*?ETH:[\s\S]*?<span[^>]*>([\d,]+)<\/span>/i);
-    const waitMatch = section.match(/Wait:[\s\S]*?<span[^>]*>([^<]+)<\/span>/i) ||
-                      html.match(/Exit Queue[\s\S]*?Wait:[\s\S]*?<span[^>]*>([^<]+)<\/span>/i);
-    const churnMatch = section.match(/Churn:[\s\S]*?<span[^>]*>([^<]+)<\/span>/i) ||
-                       html.match(/Exit Queue[\s\S]*?Churn:[\s\S]*?<span[^>]*>([^<]+)<\/span>/i);
-    const sweepMatch = html.match(/Sweep Delay[^:]*:[\s\S]*?<span[^>]*>([^<]+)<\/span>/i);
-
-    const parsed = {
-      eth: ethMatch ? parseInt(ethMatch[1].replace(/,/g, ''), 10) : FALLBACK_EXIT_QUEUE.eth,
-      wait: waitMatch ? waitMatch[1].trim() : FALLBACK_EXIT_QUEUE.wait,
-      churn: churnMatch ? churnMatch[1].trim() : FALLBACK_EXIT_QUEUE.churn,
-      sweep_delay: sweepMatch ? sweepMatch[1].trim() : FALLBACK_EXIT_QUEUE.sweep_delay
+  let churnEth;
+  let waitEpochs;
+  if (churnState) {
+    churnEth = getExitChurnLimitEth(churnState.totalActiveBalanceEth);
+    latestExitEpoch = churnState.earliestExitEpoch;
+    waitEpochs = Math.max(0, projectExitEpoch(churnState, churnEth) - currentEpoch);
+  } else {
+    waitEpochs = latestExitEpoch - currentEpoch;
+    // A queue that is not saturated drains slower than the churn limit, which never drops below the minimum
+    const observedEth = waitEpochs > 0 ? queueGwei / GWEI_PER_ETH / waitEpochs : MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH;
+    churnEth = Math.round(Math.min(MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT_ETH, Math.max(MIN_PER_EPOCH_CHURN_LIMIT_ETH, observedEth)));
+  }
+  const waitSeconds = waitEpochs * SLOTS_PER_EPOCH * SECONDS_PER_SLOT;
+
+  // Sweep is best effort, the queue figures stand on their own
+  let sweep = { sweepDelaySeconds: null, validatorCount: null };
+  try {
+    sweep = await measureSweep(headSlot);
+  } catch (error) {
+    console.warn('Withdrawal sweep measurement failed:', error.message);
+  }
+
+  return {
+    source: 'beacon',
+    stale: false,
+    computed_at: new Date().toISOString(),
+    eth: Math.round(queueGwei / GWEI_PER_ETH),
+    wait: formatDuration(waitSeconds),
+    churn: `${churnEth} ETH/epoch`,
+    sweep_delay: sweep.sweepDelaySeconds !== null ? formatDuration(sweep.sweepDelaySeconds) : null,
+    head_slot: headSlot,
+    current_epoch: currentEpoch,
+    latest_exit_epoch: latestExitEpoch,
+    // 'state' (protocol churn and projection) or 'observed' (fallback)
+    churn_source: churnState ? 'state' : 'observed',
+    total_active_balance_eth: churnState ? churnState.totalActiveBalanceEth : null,
+    exit_balance_to_consume_eth: churnState ? churnState.exitBalanceToConsumeGwei / GWEI_PER_ETH : null,
+    exiting_validators: exitingValidators,
+    wait_epochs: waitEpochs,
+    wait_seconds: waitSeconds,
+    churn_eth_per_epoch: churnEth,
+    sweep_delay_seconds: sweep.sweepDelaySeconds,
+    validator_count: sweep.validatorCount
+  };
+}
+
+// Current exit queue figures, recomputed when older than EXIT_QUEUE_REFRESH_MINUTES
+// On failure the last computed figures are returned with stale: true; without any,
+// source is 'unavailable' and every figure is null
+async function getExitQueueInfo() {
+  const maxAgeMs = EXIT_QUEUE_REFRESH_MINUTES * 60 * 1000;
+  if (cached && Date.now() - cached.at < maxAgeMs) {
+    return cached.info;
+  }
+
+  if (!refreshing) {
+    refreshing = computeExitQueue()
+      .then(info => {
+        cached = { info, at: Date.now() };
+        return info;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+
+  try {
+    return await refreshing;
+  } catch (error) {
+    console.warn('Exit queue computation failed:', error.message);
+    if (cached) {
+      return { ...cached.info, stale: true, error: error.message };
+    }
+    return {
+      source: 'unavailable',
+      stale: true,
+      computed_at: null,
+      error: error.message,
+      eth: null,
+      wait: null,
+      churn: null,
+      sweep_delay: null
     };
+  }
+}
 
-    return parsed;
-  } catch (err) {
-    console.warn('Exit queue fetch failed, using fallback:', err.message);
-    return FALLBACK_EXIT_QUEUE;
+// Last computed figures without waiting (null if none yet); starts a refresh when missing or old
+function peekExitQueueInfo() {
+  if (!cached || Date.now() - cached.at >= EXIT_QUEUE_REFRESH_MINUTES * 60 * 1000) {
+    getExitQueueInfo();
   }
+  return cached ? cached.info : null;
 }
 
 module.exports = {
-  getExitQueueInfo
+  getExitQueueInfo,
+  peekExitQueueInfo,
+  getBlockAtOrBefore,
+  lastWithdrawalIndex,
+  formatDuration
 };
-
@@ -0,0 +1,111 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const { bls12_381: bls } = require('@noble/curves/bls12-381');
+const { requestWithFailover } = require('./beaconNodes');
+const { scheduleRequest } = require('./requestScheduler');
+const { getGenesis } = require('./stateId');
+
+const DOMAIN_VOLUNTARY_EXIT = Buffer.from('04000000', 'hex');
+// Proof-of-possession ciphersuite used by the consensus layer
+const BLS_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+
+// Since Deneb (EIP-7044) voluntary exits are always signed with the Capella fork version
+// Known networks by genesis fork version, used when the node does not expose its spec
+const NETWORKS = {
+  '0x00000000': { network: 'mainnet', capellaForkVersion: '0x03000000' },
+  '0x90000069': { network: 'sepolia', capellaForkVersion: '0x90000072' },
+  '0x01017000': { network: 'holesky', capellaForkVersion: '0x04017000' },
+  '0x10000910': { network: 'hoodi', capellaForkVersion: '0x40000910' }
+};
+
+let signingContext = null;
+
+function sha256(...chunks) {
+  const hash = crypto.createHash('sha256');
+  chunks.forEach(chunk => hash.update(chunk));
+  return hash.digest();
+}
+
+function hexToBytes(hex) {
+  return Buffer.from(hex.replace(/^0x/, ''), 'hex');
+}
+
+// SSZ uint64 as a 32-byte chunk
+function uint64Chunk(value) {
+  const chunk = Buffer.alloc(32);
+  chunk.writeBigUInt64LE(BigInt(value), 0);
+  return chunk;
+}
+
+// compute_domain(DOMAIN_VOLUNTARY_EXIT, fork_version, genesis_validators_root)
+function computeDomain(forkVersion, genesisValidatorsRoot) {
+  const versionChunk = Buffer.alloc(32);
+  hexToBytes(forkVersion).copy(versionChunk);
+  const forkDataRoot = sha256(versionChunk, hexToBytes(genesisValidatorsRoot));
+  return Buffer.concat([DOMAIN_VOLUNTARY_EXIT, forkDataRoot.subarray(0, 28)]);
+}
+
+// compute_signing_root(VoluntaryExit(epoch, validator_index), domain)
+function computeSigningRoot(epoch, validatorIndex, domain) {
+  const objectRoot = sha256(uint64Chunk(epoch), uint64Chunk(validatorIndex));
+  return sha256(objectRoot, domain);
+}
+
+async function getCapellaForkVersion(genesisForkVersion) {
+  try {
+    const response = await scheduleRequest(
+      () => requestWithFailover(baseUrl => axios.get(`${baseUrl}/eth/v1/config/spec`, {
+        timeout: 10000,
+        headers: { 'Accept': 'application/json' }
+      })),
+      { label: 'Spec request', retries: 1 }
+    );
+    if (response.data.data.CAPELLA_FORK_VERSION) {
+      return response.data.data.CAPELLA_FORK_VERSION;
+    }
+  } catch (error) {
+    console.warn('Spec request failed, using the known fork version table:', error.message);
+  }
+  const known = NETWORKS[genesisForkVersion];
+  if (!known) {
+    const error = new Error(`Unknown network (genesis fork version ${genesisForkVersion}) and no CAPELLA_FORK_VERSION in the node spec`);
+    error.status = 502;
+    throw error;
+  }
+  return known.capellaForkVersion;
+}
+
+// Network and signing domain of the connected beacon node, cached for the process lifetime
+// Returns { network, forkVersion, genesisValidatorsRoot, domain }
+async function getSigningContext() {
+  if (signingContext === null) {
+    const { genesisValidatorsRoot, genesisForkVersion } = await getGenesis();
+    const forkVersion = await getCapellaForkVersion(genesisForkVersion);
+    signingContext = {
+      network: NETWORKS[genesisForkVersion] ? NETWORKS[genesisForkVersion].network : 'unknown',
+      forkVersion,
+      genesisValidatorsRoot,
+      domain: computeDomain(forkVersion, genesisValidatorsRoot)
+    };
+  }
+  return signingContext;
+}
+
+// Check a SignedVoluntaryExit signature against the validator pubkey
+// Returns { valid, error }; malformed keys or signatures count as invalid
+function verifyExitSignature(pubkey, signedExit, context) {
+  try {
+    const { epoch, validator_index: validatorIndex } = signedExit.message;
+    const signingRoot = computeSigningRoot(epoch, validatorIndex, context.domain);
+    const message = bls.G2.hashToCurve(signingRoot, { DST: BLS_DST });
+    const valid = bls.verify(hexToBytes(signedExit.signature), message, hexToBytes(pubkey));
+    return { valid, error: valid ? null : `Signature does not match the validator pubkey (${context.network} exit domain)` };
+  } catch (error) {
+    return { valid: false, error: `Malformed signature or pubkey: ${error.message}` };
+  }
+}
+
+module.exports = {
+  getSigningContext,
+  verifyExitSignature
+};
@@ -0,0 +1,132 @@
+const { dbGet, dbRun } = require('./db');
+const { sqlNow } = require('./utils');
+
+// Exit deadlines: a batch is requested at requested_at (default: upload time) and its keys are due
+// to reach active_exiting by deadline_at. exit_validators.exiting_at records when a key got there.
+
+const SLA_MET = 'met';
+const SLA_LATE = 'late';
+const SLA_PENDING = 'pending';
+const SLA_OVERDUE = 'overdue';
+
+// Lifecycle states at or past active_exiting, and the beacon statuses behind them
+const EXIT_STARTED_LIFECYCLES = ['exiting', 'exited', 'withdrawable', 'withdrawn', 'slashed'];
+const EXIT_STARTED_BEACON_STATUSES = [
+  'active_exiting',
+  'active_slashed',
+  'exited_unslashed',
+  'exited_slashed',
+  'withdrawal_possible',
+  'withdrawal_done'
+];
+
+function sqlList(values) {
+  return values.map(value => `'${value}'`).join(', ');
+}
+
+// Sync SET expression for exit_validators taking the new lifecycle: stamp the first sync that sees the
+// key at or past active_exiting; status history dates keys that got there before exiting_at existed
+const EXITING_AT_SET = `exiting_at = CASE
+  WHEN exiting_at IS NULL AND ? IN (${sqlList(EXIT_STARTED_LIFECYCLES)}) THEN COALESCE(
+    (SELECT MIN(h.changed_at) FROM status_history h
+     WHERE h.pubkey = exit_validators.pubkey AND h.new_beacon_status IN (${sqlList(EXIT_STARTED_BEACON_STATUSES)})),
+    CURRENT_TIMESTAMP
+  )
+  ELSE exiting_at END`;
+
+// Request time of exit_batches row b
+const BATCH_REQUESTED_AT = 'COALESCE(b.requested_at, b.uploaded_at)';
+
+// SLA status of exit_validators row e in exit_batches row b, NULL when the batch has no deadline
+const KEY_SLA_STATUS = `(CASE
+  WHEN b.deadline_at IS NULL THEN NULL
+  WHEN e.exiting_at IS NOT NULL THEN CASE WHEN e.exiting_at <= b.deadline_at THEN '${SLA_MET}' ELSE '${SLA_LATE}' END
+  WHEN b.deadline_at < CURRENT_TIMESTAMP THEN '${SLA_OVERDUE}'
+  ELSE '${SLA_PENDING}' END)`;
+
+// Seconds from the batch request until row e reached active_exiting, NULL before that
+const TIME_TO_EXITING = `CAST(ROUND((julianday(e.exiting_at) - julianday(${BATCH_REQUESTED_AT})) * 86400) AS INTEGER)`;
+
+// SQL aggregate columns for SLA counts and times; needs exit_validators as e joined to exit_batches as b
+function slaSumColumns() {
+  return [
+    ...[SLA_MET, SLA_LATE, SLA_PENDING, SLA_OVERDUE].map(status =>
+      `SUM(CASE WHEN ${KEY_SLA_STATUS} = '${status}' THEN 1 ELSE 0 END) as sla_${status}`
+    ),
+    `AVG(${TIME_TO_EXITING}) as sla_avg_seconds`,
+    `MAX(${TIME_TO_EXITING}) as sla_max_seconds`
+  ].join(',\n        ');
+}
+
+// SLA summary from a row selected with slaSumColumns(); status is the worst key status
+function slaFromRow(row) {
+  const counts = {
+    met: row.sla_met || 0,
+    late: row.sla_late || 0,
+    pending: row.sla_pending || 0,
+    overdue: row.sla_overdue || 0
+  };
+  let status = null;
+  if (counts.overdue > 0) status = SLA_OVERDUE;
+  else if (counts.pending > 0) status = SLA_PENDING;
+  else if (counts.late > 0) status = SLA_LATE;
+  else if (counts.met > 0) status = SLA_MET;
+  return {
+    status,
+    ...counts,
+    avg_time_to_exiting: row.sla_avg_seconds === null || row.sla_avg_seconds === undefined
+      ? null
+      : Math.round(row.sla_avg_seconds),
+    max_time_to_exiting: row.sla_max_seconds ?? null
+  };
+}
+
+// Parse a requested_at / deadline_at input (ISO date or date-time) to a SQLite UTC timestamp
+// Empty values give null; invalid ones throw a 400 error
+function parseBatchTime(value, field) {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    const error = new Error(`${field} must be an ISO date or date-time`);
+    error.status = 400;
+    throw error;
+  }
+  return sqlNow(date);
+}
+
+// Set requested_at and/or deadline_at of an exit batch (null clears); returns the batch row
+async function setBatchDeadline(batchId, { requested_at: requestedAt, deadline_at: deadlineAt }) {
+  const updates = {};
+  if (requestedAt !== undefined) updates.requested_at = parseBatchTime(requestedAt, 'requested_at');
+  if (deadlineAt !== undefined) updates.deadline_at = parseBatchTime(deadlineAt, 'deadline_at');
+
+  const batch = await dbGet('SELECT id FROM exit_batches WHERE id = ?', [batchId]);
+  if (!batch) {
+    const error = new Error('Exit batch not found');
+    error.status = 404;
+    throw error;
+  }
+  const keys = Object.keys(updates);
+  if (keys.length > 0) {
+    await dbRun(
+      `UPDATE exit_batches SET ${keys.map(key => `${key} = ?`).join(', ')} WHERE id = ?`,
+      [...keys.map(key => updates[key]), batchId]
+    );
+  }
+  return dbGet('SELECT * FROM exit_batches WHERE id = ?', [batchId]);
+}
+
+module.exports = {
+  SLA_MET,
+  SLA_LATE,
+  SLA_PENDING,
+  SLA_OVERDUE,
+  EXITING_AT_SET,
+  BATCH_REQUESTED_AT,
+  KEY_SLA_STATUS,
+  TIME_TO_EXITING,
+  slaSumColumns,
+  slaFromRow,
+  parseBatchTime,
+  setBatchDeadline
+};
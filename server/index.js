@@ -5,6 +5,14 @@ const bodyParser = require('body-parser');
 const path = require('path');
 const { initDatabase } = require('./db');
 const { setupRoutes } = require('./routes');
+const { resumeSyncJobs } = require('./syncService');
+const { startScheduler } = require('./scheduler');
+const { startHealthChecks } = require('./beaconNodes');
+const { warmEtaInputs } = require('./etaService');
+const { startExitQueueSnapshots } = require('./exitQueueHistory');
+const { startWithdrawalSweepDetection } = require('./withdrawalSweeps');
+const { startBatchMilestoneDetection } = require('./batchMilestones');
+const { startWebhookNotifications } = require('./webhooks');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -29,6 +37,23 @@ initDatabase().then(() => {
   
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
+
+    startHealthChecks();
+    // Genesis time and exit queue figures feed ETA estimates
+    warmEtaInputs();
+    startExitQueueSnapshots();
+    startWithdrawalSweepDetection();
+    startBatchMilestoneDetection();
+    startWebhookNotifications();
+
+    // Pick up sync jobs interrupted by a restart
+    resumeSyncJobs().catch(err => {
+      console.error('Failed to resume sync jobs:', err);
+    });
+
+    startScheduler().catch(err => {
+      console.error('Failed to start sync schedule:', err);
+    });
   });
 }).catch(err => {
   console.error('Failed to initialize database:', err);
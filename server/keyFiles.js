@@ -0,0 +1,171 @@
+const fs = require('fs');
+const path = require('path');
+const AdmZip = require('adm-zip');
+const { normalizePubkey } = require('./utils');
+const { DEFAULT_PROVIDER, detectProvider, listProviders } = require('./providers');
+const { SOURCE_KEY_FILES, importValidators } = require('./validatorImports');
+
+// Key files as produced by staking-deposit-cli: EIP-2335 keystores (keystore-m_*.json, read without
+// decrypting) and deposit data (deposit_data-*.json), uploaded as files or inside zips
+const PUBKEY_PATTERN = /^0x[0-9a-f]{96}$/;
+const CREDENTIALS_PATTERN = /^0x[0-9a-f]{64}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// Uploaded files as { source, name, text } entries; zips are expanded to their .json entries
+function readUploadedFiles(files, errors) {
+  const entries = [];
+  files.forEach(file => {
+    const name = file.originalname || path.basename(file.path);
+    if (!/\.zip$/i.test(name)) {
+      entries.push({ source: name, name, text: fs.readFileSync(file.path, 'utf8') });
+      return;
+    }
+    let zipEntries;
+    try {
+      zipEntries = new AdmZip(file.path).getEntries();
+    } catch (error) {
+      errors.push({ file: name, error: `Not a valid zip: ${error.message}` });
+      return;
+    }
+    zipEntries
+      .filter(entry => !entry.isDirectory && !entry.entryName.startsWith('__MACOSX/') && /\.json$/i.test(entry.entryName))
+      .forEach(entry => entries.push({
+        source: `${name}/${entry.entryName}`,
+        name: path.posix.basename(entry.entryName),
+        text: entry.getData().toString('utf8')
+      }));
+  });
+  return entries;
+}
+
+function parsePubkey(value) {
+  const pubkey = typeof value === 'string' ? normalizePubkey(value) : '';
+  return PUBKEY_PATTERN.test(pubkey) ? pubkey : null;
+}
+
+// Keys of one key file: [{ pubkey, derivation_path? } | { pubkey, deposit_withdrawal_credentials, deposit_amount }]
+function parseKeyFile(entry) {
+  let parsed;
+  try {
+    parsed = JSON.parse(entry.text);
+  } catch (error) {
+    throw badRequest('Not valid JSON');
+  }
+
+  // deposit_data-*.json: array of deposits
+  if (Array.isArray(parsed)) {
+    return parsed.map((deposit, i) => {
+      const pubkey = parsePubkey(deposit && deposit.pubkey);
+      const credentials = deposit && typeof deposit.withdrawal_credentials === 'string'
+        ? normalizePubkey(deposit.withdrawal_credentials)
+        : '';
+      const amount = deposit ? Number(deposit.amount) : NaN;
+      if (!pubkey) throw badRequest(`Deposit ${i + 1}: invalid pubkey`);
+      if (!CREDENTIALS_PATTERN.test(credentials)) throw badRequest(`Deposit ${i + 1}: invalid withdrawal_credentials`);
+      if (!Number.isSafeInteger(amount) || amount <= 0) throw badRequest(`Deposit ${i + 1}: invalid amount`);
+      return { pubkey, deposit_withdrawal_credentials: credentials, deposit_amount: amount };
+    });
+  }
+
+  // EIP-2335 keystore: pubkey is optional in the standard but written by every common tool
+  if (parsed && typeof parsed === 'object' && parsed.crypto) {
+    const pubkey = parsePubkey(parsed.pubkey);
+    if (!pubkey) throw badRequest('Keystore without a valid pubkey');
+    return [{
+      pubkey,
+      json_filename: entry.name,
+      derivation_path: typeof parsed.path === 'string' && parsed.path ? parsed.path : null
+    }];
+  }
+
+  throw badRequest('Not a keystore or deposit data file');
+}
+
+// Merge the keys of all files by pubkey; a key may come from a keystore and a deposit data file
+function collectKeys(entries, errors) {
+  const keys = new Map();
+  let keystores = 0;
+  let deposits = 0;
+  let duplicates = 0;
+  entries.forEach(entry => {
+    let records;
+    try {
+      records = parseKeyFile(entry);
+    } catch (error) {
+      errors.push({ file: entry.source, error: error.message });
+      return;
+    }
+    records.forEach(record => {
+      const isKeystore = record.json_filename !== undefined;
+      if (isKeystore) keystores++;
+      else deposits++;
+      const key = keys.get(record.pubkey) || { pubkey: record.pubkey, sources: [] };
+      if ((isKeystore && key.json_filename !== undefined) || (!isKeystore && key.deposit_amount !== undefined)) {
+        duplicates++;
+        return;
+      }
+      key.sources.push(entry.source);
+      keys.set(record.pubkey, Object.assign(key, record));
+    });
+  });
+  return { keys: [...keys.values()], keystores, deposits, duplicates };
+}
+
+// Import keystores and deposit data as validators (one import, see server/validatorImports.js).
+// New keys get the given provider (or the one detected from the file names); known keys keep
+// theirs unless a provider is given. Key file fields replace the stored ones when present.
+async function importKeyFiles(files, { provider } = {}) {
+  if (!files || files.length === 0) {
+    throw badRequest('No key files uploaded');
+  }
+  const errors = [];
+  const entries = readUploadedFiles(files, errors);
+  const { keys, keystores, deposits, duplicates } = collectKeys(entries, errors);
+  if (keys.length === 0) {
+    throw badRequest(errors.length > 0
+      ? `No keys found: ${errors.map(e => `${e.file}: ${e.error}`).join('; ')}`
+      : 'No keystore or deposit data files found');
+  }
+
+  const providers = await listProviders();
+  const fallbackProvider = providers.length > 0 ? providers[0].name : DEFAULT_PROVIDER;
+  const givenProvider = provider ? detectProvider(providers, provider) || provider : null;
+
+  const result = await importValidators({
+    filename: files.length === 1 ? files[0].originalname : `${files[0].originalname} (+${files.length - 1} files)`,
+    source: SOURCE_KEY_FILES,
+    rowCount: keystores + deposits,
+    records: keys.map(key => ({
+      pubkey: key.pubkey,
+      provider: givenProvider,
+      default_provider: key.sources.map(source => detectProvider(providers, source)).find(Boolean) || fallbackProvider,
+      json_filename: key.json_filename,
+      derivation_path: key.derivation_path,
+      deposit_withdrawal_credentials: key.deposit_withdrawal_credentials,
+      deposit_amount: key.deposit_amount
+    }))
+  });
+
+  return {
+    files: entries.length,
+    keystores,
+    deposits,
+    duplicates,
+    total: keys.length,
+    importId: result.importId,
+    inserted: result.inserted,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    byProvider: result.byProvider,
+    errors
+  };
+}
+
+module.exports = {
+  importKeyFiles
+};
@@ -0,0 +1,289 @@
+const { dbAll, dbGet, dbPrepare, dbTransaction } = require('./db');
+const { normalizePubkey, sqlNow } = require('./utils');
+const { pick, readExport, parseBlockTime, parseInteger } = require('./eventExports');
+
+// Lido ValidatorsExitBusOracle; raw logs from any other contract are rejected (set for testnets)
+const LIDO_EXIT_BUS_ORACLE = (process.env.LIDO_EXIT_BUS_ORACLE || '0x0De4Ea0184c2ad0BacA7183356Aea5B8d5Bf5c6e').toLowerCase();
+
+const PUBKEY_PATTERN = /^0x[0-9a-f]{96}$/;
+const TX_HASH_PATTERN = /^0x[0-9a-f]{64}$/;
+
+const EVENT_EXIT_REQUEST = 'ValidatorExitRequest';
+const EVENT_PROCESSING_STARTED = 'ProcessingStarted';
+// topics[0] of raw logs: keccak256 of the event signatures
+const TOPIC_EXIT_REQUEST = '0x96395f55c4997466e5035d777f0e1ba82b8cae217aaad05cf07839eb7c75bcf2'; // ValidatorExitRequest(uint256,uint256,uint256,bytes,uint256)
+const TOPIC_PROCESSING_STARTED = '0xf73febded7d4502284718948a3e1d75406151c6326bde069424a584a4f6af87a'; // ProcessingStarted(uint256,bytes32)
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// Decoded exports may nest event arguments (ethers "args", web3 "returnValues")
+function flatten(row) {
+  return { ...row, ...(row.args || {}), ...(row.returnValues || {}) };
+}
+
+function topicsOf(row) {
+  if (Array.isArray(row.topics)) return row.topics.map(topic => String(topic).toLowerCase());
+  return ['topic0', 'topic1', 'topic2', 'topic3']
+    .map(name => pick(row, [name]))
+    .filter(Boolean)
+    .map(topic => topic.toLowerCase());
+}
+
+function hexWord(hex, index) {
+  return hex.slice(index * 64, (index + 1) * 64);
+}
+
+// Normalize one exported event; returns { exitRequest }, { refSlot } (ProcessingStarted), or { error }
+// Raw logs: ValidatorExitRequest(uint256 indexed stakingModuleId, uint256 indexed nodeOperatorId,
+// uint256 indexed validatorIndex, bytes validatorPubkey, uint256 timestamp) and
+// ProcessingStarted(uint256 indexed refSlot, bytes32 hash), told apart by topics[0]; other events are skipped
+function toLidoRecord(raw) {
+  const row = flatten(raw);
+  const txHash = pick(row, ['tx_hash', 'txHash', 'transaction_hash', 'transactionHash', 'hash']);
+  const common = {
+    tx_hash: txHash && TX_HASH_PATTERN.test(txHash.toLowerCase()) ? txHash.toLowerCase() : null,
+    block_number: parseInteger(pick(row, ['block_number', 'blockNumber', 'block'])),
+    log_index: parseInteger(pick(row, ['log_index', 'logIndex']))
+  };
+  const eventName = pick(row, ['event', 'event_name', 'eventName', 'name']);
+  const data = pick(row, ['data']);
+  const topics = topicsOf(row);
+
+  if (data && topics.length > 0) {
+    const address = pick(row, ['address', 'contract_address', 'contractAddress']);
+    if (address && address.toLowerCase() !== LIDO_EXIT_BUS_ORACLE) {
+      return { error: `Log from ${address} is not from the ValidatorsExitBusOracle` };
+    }
+    const hex = data.toLowerCase().replace(/^0x/, '');
+    if (topics[0] === TOPIC_PROCESSING_STARTED) {
+      if (topics.length !== 2) return { error: `ProcessingStarted log with ${topics.length} topics` };
+      return { refSlot: { ...common, ref_slot: parseInteger(topics[1]) } };
+    }
+    if (topics[0] !== TOPIC_EXIT_REQUEST) {
+      return { skipped: true };
+    }
+    if (topics.length !== 4) {
+      return { error: `ValidatorExitRequest log with ${topics.length} topics` };
+    }
+    const offset = parseInt(hexWord(hex, 0), 16) * 2;
+    const length = parseInt(hex.slice(offset, offset + 64), 16) * 2;
+    return toExitRequest({
+      ...common,
+      pubkey: `0x${hex.slice(offset + 64, offset + 64 + length)}`,
+      staking_module_id: parseInteger(topics[1]),
+      node_operator_id: parseInteger(topics[2]),
+      validator_index: parseInteger(topics[3]),
+      timestamp: parseInteger(`0x${hexWord(hex, 1)}`)
+    });
+  }
+
+  if (eventName === EVENT_PROCESSING_STARTED) {
+    const refSlot = parseInteger(pick(row, ['refSlot', 'ref_slot', 'reference_slot']));
+    if (refSlot === null || Number.isNaN(refSlot)) return { error: 'ProcessingStarted without refSlot' };
+    return { refSlot: { ...common, ref_slot: refSlot } };
+  }
+  if (eventName && eventName !== EVENT_EXIT_REQUEST) {
+    return { skipped: true };
+  }
+
+  const pubkey = pick(row, ['validatorPubkey', 'validator_pubkey', 'pubkey']);
+  if (!pubkey) return { error: 'Missing validatorPubkey' };
+  const timestamp = pick(row, ['timestamp', 'request_timestamp', 'block_timestamp', 'blockTimestamp', 'block_time']);
+  return toExitRequest({
+    ...common,
+    pubkey,
+    staking_module_id: parseInteger(pick(row, ['stakingModuleId', 'staking_module_id'])),
+    node_operator_id: parseInteger(pick(row, ['nodeOperatorId', 'node_operator_id', 'operator_id'])),
+    validator_index: parseInteger(pick(row, ['validatorIndex', 'validator_index'])),
+    ref_slot: parseInteger(pick(row, ['refSlot', 'ref_slot', 'reference_slot'])),
+    timestamp: timestamp && parseBlockTime(timestamp)
+  });
+}
+
+function toExitRequest(fields) {
+  const pubkey = normalizePubkey(fields.pubkey);
+  if (!PUBKEY_PATTERN.test(pubkey)) return { error: `Invalid validatorPubkey: ${fields.pubkey}` };
+  const requestedAt = typeof fields.timestamp === 'number'
+    ? new Date(fields.timestamp * 1000).toISOString()
+    : fields.timestamp || null;
+  return {
+    exitRequest: {
+      pubkey,
+      validator_index: Number.isNaN(fields.validator_index) ? null : fields.validator_index,
+      staking_module_id: Number.isNaN(fields.staking_module_id) ? null : fields.staking_module_id,
+      node_operator_id: Number.isNaN(fields.node_operator_id) ? null : fields.node_operator_id,
+      ref_slot: fields.ref_slot === undefined || Number.isNaN(fields.ref_slot) ? null : fields.ref_slot,
+      requested_at: requestedAt,
+      tx_hash: fields.tx_hash,
+      block_number: fields.block_number,
+      log_index: fields.log_index
+    }
+  };
+}
+
+// Import ValidatorExitRequest events from an export and turn the new ones into an exit batch
+// Reference slots come from the row or from ProcessingStarted events of the same transaction;
+// nodeOperatorIds limits the import to those operators
+async function importLidoExitRequests(filePath, filename, { nodeOperatorIds, deadlineAt = null } = {}) {
+  const rows = await readExport(filePath, filename);
+  if (rows.length === 0) {
+    throw badRequest('No exit request records found in file');
+  }
+
+  const errors = [];
+  const requests = [];
+  const refSlotsByTx = {};
+  rows.forEach((row, i) => {
+    const { exitRequest, refSlot, error } = toLidoRecord(row);
+    if (error) errors.push({ row: i + 1, error });
+    else if (refSlot && refSlot.tx_hash) refSlotsByTx[refSlot.tx_hash] = refSlot.ref_slot;
+    else if (exitRequest) requests.push(exitRequest);
+  });
+
+  const operatorFiltered = nodeOperatorIds
+    ? requests.filter(request => nodeOperatorIds.includes(request.node_operator_id))
+    : requests;
+  operatorFiltered.forEach(request => {
+    if (request.ref_slot === null && request.tx_hash && refSlotsByTx[request.tx_hash] !== undefined) {
+      request.ref_slot = refSlotsByTx[request.tx_hash];
+    }
+  });
+
+  // The duplicate check and the batch, its keys and the requests are written in one transaction: a
+  // failure stores nothing, so a retry finds no request already taken and recreates the whole batch
+  const { fresh, batchId } = await dbTransaction(async () => {
+    // Requests seen before (same key, report and tx) are skipped, within the file and across imports
+    const seen = new Set();
+    const fresh = [];
+    for (const request of operatorFiltered) {
+      const key = `${request.pubkey}:${request.ref_slot}:${request.tx_hash}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const existing = await dbGet(
+        'SELECT id FROM lido_exit_requests WHERE pubkey = ? AND ref_slot IS ? AND tx_hash IS ?',
+        [request.pubkey, request.ref_slot, request.tx_hash]
+      );
+      if (!existing) fresh.push(request);
+    }
+    if (fresh.length === 0) {
+      return { fresh, batchId: null };
+    }
+
+    // The batch is requested when the earliest of its requests was emitted
+    const batchPubkeys = [...new Set(fresh.map(request => request.pubkey))];
+    const times = fresh.map(request => request.requested_at).filter(Boolean).sort();
+    const batchStmt = dbPrepare(`
+      INSERT INTO exit_batches (filename, total_validators, requested_at, deadline_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const validatorStmt = dbPrepare(`
+      INSERT OR IGNORE INTO exit_validators (batch_id, pubkey, status, updated_at)
+      VALUES (?, ?, 'pending', CURRENT_TIMESTAMP)
+    `);
+    const requestStmt = dbPrepare(`
+      INSERT INTO lido_exit_requests (
+        pubkey, validator_index, staking_module_id, node_operator_id, ref_slot,
+        requested_at, tx_hash, block_number, log_index, batch_id, filename
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    try {
+      const { lastID } = await batchStmt.run([
+        filename, batchPubkeys.length, times.length > 0 ? sqlNow(new Date(times[0])) : null, deadlineAt
+      ]);
+      for (const pubkey of batchPubkeys) {
+        await validatorStmt.run([lastID, pubkey]);
+      }
+      for (const request of fresh) {
+        await requestStmt.run([
+          request.pubkey,
+          request.validator_index,
+          request.staking_module_id,
+          request.node_operator_id,
+          request.ref_slot,
+          request.requested_at,
+          request.tx_hash,
+          request.block_number,
+          request.log_index,
+          lastID,
+          filename
+        ]);
+      }
+      return { fresh, batchId: lastID };
+    } finally {
+      await Promise.all([batchStmt, validatorStmt, requestStmt].map(statement => statement.finalize()));
+    }
+  });
+  const pubkeys = [...new Set(fresh.map(request => request.pubkey))];
+
+  // Requested keys we do not operate (or have not loaded into validators)
+  const known = new Set();
+  for (let i = 0; i < pubkeys.length; i += 500) {
+    const chunk = pubkeys.slice(i, i + 500);
+    const found = await dbAll(
+      `SELECT pubkey FROM validators WHERE pubkey IN (${chunk.map(() => '?').join(',')})`,
+      chunk
+    );
+    found.forEach(row => known.add(row.pubkey));
+  }
+  const missingFromValidators = fresh
+    .filter(request => !known.has(request.pubkey))
+    .map(({ pubkey, validator_index, node_operator_id, ref_slot }) => ({ pubkey, validator_index, node_operator_id, ref_slot }));
+
+  return {
+    filename,
+    total: rows.length,
+    requests: requests.length,
+    otherOperators: requests.length - operatorFiltered.length,
+    imported: fresh.length,
+    duplicates: operatorFiltered.length - fresh.length,
+    batchId,
+    batchSize: pubkeys.length,
+    refSlots: [...new Set(fresh.map(request => request.ref_slot).filter(slot => slot !== null))].sort((a, b) => a - b),
+    missingRefSlot: fresh.filter(request => request.ref_slot === null).length,
+    missingFromValidators,
+    errors
+  };
+}
+
+// Imported requests, newest first; in_validators flags keys found in the validators table
+async function listLidoExitRequests({ batchId, pubkey, missing, limit = 100 } = {}) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (batchId) {
+    where += ' AND l.batch_id = ?';
+    params.push(batchId);
+  }
+  if (pubkey) {
+    where += ' AND l.pubkey = ?';
+    params.push(normalizePubkey(pubkey));
+  }
+  if (missing) {
+    where += ' AND v.pubkey IS NULL';
+  }
+  return dbAll(`
+    SELECT l.*, v.pubkey IS NOT NULL as in_validators
+    FROM lido_exit_requests l
+    LEFT JOIN validators v ON l.pubkey = v.pubkey
+    ${where}
+    ORDER BY l.id DESC
+    LIMIT ?
+  `, [...params, Math.min(parseInt(limit, 10) || 100, 1000)]);
+}
+
+// SQL for the reference slot of the Lido request behind exit_validators row e (correlated subquery)
+const LIDO_REQUEST_REF_SLOT = `
+  SELECT l.ref_slot FROM lido_exit_requests l
+  WHERE l.pubkey = e.pubkey AND l.batch_id = e.batch_id
+  ORDER BY l.id DESC
+  LIMIT 1
+`;
+
+module.exports = {
+  LIDO_REQUEST_REF_SLOT,
+  importLidoExitRequests,
+  listLidoExitRequests
+};
@@ -0,0 +1,96 @@
+const events = require('./events');
+const { SOURCE_VALIDATORS, SOURCE_EXIT } = require('./statusHistory');
+const { getStatistics, getExitStatistics } = require('./statistics');
+
+const HEARTBEAT_MS = 25000;
+// Statistics are recomputed at most this often per target while a sync runs
+const STATISTICS_THROTTLE_MS = 2000;
+
+// Statistics event and loader per sync target
+const STATISTICS_EVENTS = {
+  [SOURCE_VALIDATORS]: { event: 'statistics', load: getStatistics },
+  [SOURCE_EXIT]: { event: 'exit-statistics', load: getExitStatistics }
+};
+
+const clients = new Set();
+// type -> { timer, lastSent }
+const statisticsState = {};
+
+function send(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(event, data) {
+  clients.forEach(res => send(res, event, data));
+}
+
+async function pushStatistics(type) {
+  const { event, load } = STATISTICS_EVENTS[type];
+  try {
+    broadcast(event, await load());
+  } catch (error) {
+    console.error(`Error pushing ${event}:`, error.message);
+  }
+}
+
+// Coalesce statistics pushes: first change goes out at once, later ones trail the throttle window
+function scheduleStatistics(type) {
+  if (!STATISTICS_EVENTS[type] || clients.size === 0) return;
+  const state = statisticsState[type] || (statisticsState[type] = { timer: null, lastSent: 0 });
+  if (state.timer) return;
+
+  const wait = Math.max(0, state.lastSent + STATISTICS_THROTTLE_MS - Date.now());
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    state.lastSent = Date.now();
+    pushStatistics(type);
+  }, wait);
+}
+
+// GET /api/events - Server-Sent Events stream
+function handleEventStream(req, res) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps compression middleware (e.g. the CRA dev proxy) from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+events.on('sync-job', job => {
+  broadcast('sync-job', job);
+  // Totals also change when a job finishes (last batch) or is resumed
+  scheduleStatistics(job.type);
+});
+
+events.on('status-transitions', payload => {
+  if (payload.transitions.length > 0) {
+    broadcast('status-transitions', payload);
+  }
+});
+
+events.on('alerts', alerts => {
+  broadcast('alerts', alerts);
+});
+
+events.on('providers', providers => {
+  broadcast('providers', providers);
+  // Renames move keys to the new name
+  scheduleStatistics(SOURCE_VALIDATORS);
+  scheduleStatistics(SOURCE_EXIT);
+});
+
+module.exports = {
+  handleEventStream
+};
@@ -0,0 +1,116 @@
+const { dbAll } = require('./db');
+const {
+  getValidatorStatusesBatch,
+  mapBeaconStatus,
+  mapLifecycleStatus,
+  LIFECYCLE_STATES
+} = require('./beaconApi');
+const { SOURCE_EXIT } = require('./statusHistory');
+const { SYNC_TARGETS } = require('./syncService');
+const { normalizePubkey } = require('./utils');
+
+const CHUNK_SIZE = 500;
+const MAX_KEYS = 5000;
+
+// Select the keys to query from our records
+function loadKeys(source, { provider, bucketNo, batchId, pubkeys }) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (provider) {
+    where += ' AND v.provider = ?';
+    params.push(provider);
+  }
+  if (bucketNo) {
+    where += ' AND v.bucket_no = ?';
+    params.push(bucketNo);
+  }
+  if (pubkeys && pubkeys.length > 0) {
+    where += ` AND ${source === SOURCE_EXIT ? 'e' : 'v'}.pubkey IN (${pubkeys.map(() => '?').join(',')})`;
+    params.push(...pubkeys);
+  }
+
+  if (source === SOURCE_EXIT) {
+    if (batchId) {
+      where += ' AND e.batch_id = ?';
+      params.push(batchId);
+    }
+    return dbAll(`
+      SELECT DISTINCT e.pubkey, v.provider, v.bucket_no
+      FROM exit_validators e
+      LEFT JOIN validators v ON e.pubkey = v.pubkey
+      ${where}
+      ORDER BY e.pubkey
+      LIMIT ?
+    `, [...params, MAX_KEYS + 1]);
+  }
+
+  return dbAll(`
+    SELECT v.pubkey, v.provider, v.bucket_no
+    FROM validators v
+    ${where}
+    ORDER BY v.pubkey
+    LIMIT ?
+  `, [...params, MAX_KEYS + 1]);
+}
+
+// Read statuses of our keys at a beacon state without writing anything
+// Returns per-key rows plus rollup and lifecycle totals
+async function queryStatusesAt(stateId, source, filters = {}) {
+  const target = SYNC_TARGETS[source];
+  const keys = await loadKeys(source, filters);
+  if (keys.length > MAX_KEYS) {
+    const error = new Error(`Too many keys (more than ${MAX_KEYS}), narrow the query with provider, bucket_no, batch_id or pubkeys`);
+    error.status = 400;
+    throw error;
+  }
+
+  const records = {};
+  const failed = {};
+  for (let i = 0; i < keys.length; i += CHUNK_SIZE) {
+    const chunk = keys.slice(i, i + CHUNK_SIZE).map(key => normalizePubkey(key.pubkey));
+    const result = await getValidatorStatusesBatch(chunk, stateId);
+    result.statuses.forEach(record => {
+      records[normalizePubkey(record.pubkey)] = record;
+    });
+    result.failed.forEach(({ pubkey, error }) => {
+      failed[normalizePubkey(pubkey)] = error;
+    });
+  }
+
+  const totals = { total: keys.length, active: 0, exit_queue: 0, inactive: 0, unknown: 0, failed: 0, lifecycle: {} };
+  LIFECYCLE_STATES.forEach(state => {
+    totals.lifecycle[state] = 0;
+  });
+
+  const data = keys.map(key => {
+    const pubkey = normalizePubkey(key.pubkey);
+    if (failed[pubkey] !== undefined) {
+      totals.failed += 1;
+      return { ...key, status: null, beacon_status: null, lifecycle: null, fetch_error: failed[pubkey] };
+    }
+
+    const record = records[pubkey];
+    const status = record ? mapBeaconStatus(record.status) : target.notFoundStatus;
+    const lifecycle = record ? mapLifecycleStatus(record.status) : 'unknown';
+    totals[status] = (totals[status] || 0) + 1;
+    totals.lifecycle[lifecycle] += 1;
+    return {
+      ...key,
+      status,
+      beacon_status: record ? record.status : null,
+      lifecycle,
+      validator_index: record ? record.validator_index : null,
+      balance: record ? record.balance : null,
+      effective_balance: record ? record.effective_balance : null,
+      activation_epoch: record ? record.activation_epoch : null,
+      exit_epoch: record ? record.exit_epoch : null,
+      withdrawable_epoch: record ? record.withdrawable_epoch : null
+    };
+  });
+
+  return { stateId, source, totals, data };
+}
+
+module.exports = {
+  queryStatusesAt
+};
@@ -0,0 +1,223 @@
+const { dbAll, dbGet, dbRun } = require('./db');
+const events = require('./events');
+
+// Staking providers (clients) whose keys we run: display name, aliases matched when detecting the
+// provider of uploaded keys, logo, and the withdrawal credentials their keys are expected to use
+// Keys of providers missing from the registry are still listed and counted under their raw name
+const DEFAULT_PROVIDER = 'Unknown';
+
+const CREDENTIALS_PATTERN = /^0x[0-9a-f]{64}$/;
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function notFound(id) {
+  const error = new Error(`Provider ${id} not found`);
+  error.status = 404;
+  return error;
+}
+
+function conflict(message) {
+  const error = new Error(message);
+  error.status = 409;
+  return error;
+}
+
+function splitList(value) {
+  return value ? value.split(',') : [];
+}
+
+// Provider row for API responses: lists as arrays
+function toProvider(row) {
+  return {
+    ...row,
+    aliases: splitList(row.aliases),
+    withdrawal_credentials: splitList(row.withdrawal_credentials)
+  };
+}
+
+function parseName(name) {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw badRequest('name is required');
+  }
+  if (name.includes(',')) {
+    throw badRequest('name must not contain commas');
+  }
+  return name.trim();
+}
+
+function toList(value) {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : String(value).split(',');
+}
+
+// Comma list of lowercase aliases, or null
+function parseAliases(value) {
+  const aliases = [...new Set(toList(value).map(alias => String(alias).trim().toLowerCase()).filter(Boolean))];
+  return aliases.length > 0 ? aliases.join(',') : null;
+}
+
+// Comma list of 32-byte withdrawal credentials or 20-byte withdrawal addresses, or null
+function parseCredentials(value) {
+  const entries = [...new Set(toList(value).map(entry => String(entry).trim().toLowerCase()).filter(Boolean))];
+  const invalid = entries.filter(entry => !CREDENTIALS_PATTERN.test(entry) && !ADDRESS_PATTERN.test(entry));
+  if (invalid.length > 0) {
+    throw badRequest(`Invalid withdrawal credentials: ${invalid.join(', ')} (expected 0x + 64 hex credentials or a 0x + 40 hex address)`);
+  }
+  return entries.length > 0 ? entries.join(',') : null;
+}
+
+function parseLogoUrl(value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value)) {
+    throw badRequest('logo_url must be an http(s) URL');
+  }
+  return value;
+}
+
+function parseSortOrder(value) {
+  const order = parseInt(value, 10);
+  if (Number.isNaN(order)) throw badRequest('sort_order must be an integer');
+  return order;
+}
+
+// Whether a key's withdrawal credentials are among the expected ones; addresses match
+// 0x01 / 0x02 credentials that pay out to them
+function credentialsExpected(expected, credentials) {
+  return expected.some(entry => entry.length === 42
+    ? /^0x0[12]0{22}/.test(credentials) && credentials.slice(26) === entry.slice(2)
+    : credentials === entry);
+}
+
+async function getProviderRow(id) {
+  const row = await dbGet('SELECT * FROM providers WHERE id = ?', [id]);
+  if (!row) throw notFound(id);
+  return row;
+}
+
+// Registered providers in display order
+async function listProviders() {
+  const rows = await dbAll('SELECT * FROM providers ORDER BY sort_order, name');
+  return rows.map(toProvider);
+}
+
+// Registered providers with their key counts and keys whose withdrawal credentials (synced, else
+// from imported deposit data) are not among the expected ones (only checked when the provider lists any)
+async function listProvidersWithCounts() {
+  const providers = await listProviders();
+  const credentialRows = await dbAll(`
+    SELECT provider, COALESCE(withdrawal_credentials, deposit_withdrawal_credentials) as withdrawal_credentials, COUNT(*) as count
+    FROM validators
+    GROUP BY provider, COALESCE(withdrawal_credentials, deposit_withdrawal_credentials)
+  `);
+  return providers.map(provider => {
+    const rows = credentialRows.filter(row => row.provider === provider.name);
+    return {
+      ...provider,
+      validators: rows.reduce((sum, row) => sum + row.count, 0),
+      credential_mismatches: provider.withdrawal_credentials.length === 0
+        ? null
+        : rows
+          .filter(row => row.withdrawal_credentials && !credentialsExpected(provider.withdrawal_credentials, row.withdrawal_credentials))
+          .reduce((sum, row) => sum + row.count, 0)
+    };
+  });
+}
+
+async function getProvider(id) {
+  return toProvider(await getProviderRow(id));
+}
+
+async function notifyChanged() {
+  events.emit('providers', await listProviders());
+}
+
+async function ensureNameFree(name, id = null) {
+  const existing = await dbGet('SELECT id FROM providers WHERE name = ? COLLATE NOCASE AND id IS NOT ?', [name, id]);
+  if (existing) throw conflict(`Provider ${name} already exists`);
+}
+
+// Register a provider; it goes last unless sort_order is given
+async function createProvider({ name, aliases, logo_url: logoUrl, withdrawal_credentials: credentials, sort_order: sortOrder } = {}) {
+  const values = {
+    name: parseName(name),
+    aliases: parseAliases(aliases),
+    logo_url: parseLogoUrl(logoUrl),
+    withdrawal_credentials: parseCredentials(credentials)
+  };
+  await ensureNameFree(values.name);
+  if (sortOrder !== undefined) {
+    values.sort_order = parseSortOrder(sortOrder);
+  } else {
+    const last = await dbGet('SELECT MAX(sort_order) as sort_order FROM providers');
+    values.sort_order = (last && last.sort_order !== null ? last.sort_order : 0) + 1;
+  }
+  const result = await dbRun(
+    'INSERT INTO providers (name, aliases, logo_url, withdrawal_credentials, sort_order) VALUES (?, ?, ?, ?, ?)',
+    [values.name, values.aliases, values.logo_url, values.withdrawal_credentials, values.sort_order]
+  );
+  await notifyChanged();
+  return getProvider(result.lastID);
+}
+
+// Update name, aliases, logo_url, withdrawal_credentials and/or sort_order
+// A rename carries the provider's keys over to the new name
+async function updateProvider(id, fields = {}) {
+  const row = await getProviderRow(id);
+  const updates = {};
+  if (fields.name !== undefined) updates.name = parseName(fields.name);
+  if (fields.aliases !== undefined) updates.aliases = parseAliases(fields.aliases);
+  if (fields.logo_url !== undefined) updates.logo_url = parseLogoUrl(fields.logo_url);
+  if (fields.withdrawal_credentials !== undefined) updates.withdrawal_credentials = parseCredentials(fields.withdrawal_credentials);
+  if (fields.sort_order !== undefined) updates.sort_order = parseSortOrder(fields.sort_order);
+  if (updates.name !== undefined) await ensureNameFree(updates.name, id);
+
+  const keys = Object.keys(updates);
+  if (keys.length > 0) {
+    await dbRun(
+      `UPDATE providers SET ${keys.map(key => `${key} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...keys.map(key => updates[key]), id]
+    );
+    if (updates.name !== undefined && updates.name !== row.name) {
+      await dbRun('UPDATE validators SET provider = ? WHERE provider = ?', [updates.name, row.name]);
+    }
+    await notifyChanged();
+  }
+  return getProvider(id);
+}
+
+// Delete a provider; refused while keys still belong to it
+async function deleteProvider(id) {
+  const row = await getProviderRow(id);
+  const used = await dbGet('SELECT COUNT(*) as count FROM validators WHERE provider = ?', [row.name]);
+  if (used.count > 0) {
+    throw conflict(`Provider ${row.name} still has ${used.count} validators`);
+  }
+  await dbRun('DELETE FROM providers WHERE id = ?', [id]);
+  await notifyChanged();
+}
+
+// Registered provider whose name or an alias occurs in text (case-insensitive), or null
+function detectProvider(providers, text) {
+  if (!text) return null;
+  const haystack = text.toLowerCase();
+  const match = providers.find(provider =>
+    [provider.name.toLowerCase(), ...provider.aliases].some(alias => haystack.includes(alias))
+  );
+  return match ? match.name : null;
+}
+
+module.exports = {
+  DEFAULT_PROVIDER,
+  listProviders,
+  listProvidersWithCounts,
+  getProvider,
+  createProvider,
+  updateProvider,
+  deleteProvider,
+  detectProvider
+};
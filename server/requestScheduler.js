@@ -0,0 +1,154 @@
+// Central scheduler for beacon node requests: bounded concurrency, retries with
+// exponential backoff on 429/5xx/network errors, and Retry-After handling
+
+// Scheduler config (.env)
+const BEACON_MAX_CONCURRENCY = parseInt(process.env.BEACON_MAX_CONCURRENCY, 10) || 4;
+const BEACON_MAX_RETRIES = parseInt(process.env.BEACON_MAX_RETRIES, 10) >= 0
+  ? parseInt(process.env.BEACON_MAX_RETRIES, 10)
+  : 4;
+const BEACON_RETRY_BASE_MS = parseInt(process.env.BEACON_RETRY_BASE_MS, 10) || 500;
+const BEACON_RETRY_MAX_MS = parseInt(process.env.BEACON_RETRY_MAX_MS, 10) || 30000;
+
+// Retry-After values above this are treated as this (a stuck sync is worse than a 429)
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+// Successful requests needed to raise concurrency by one after a 429
+const RECOVERY_STREAK = 10;
+
+// Concurrency is halved on 429 and grows back on success, up to BEACON_MAX_CONCURRENCY
+let concurrency = BEACON_MAX_CONCURRENCY;
+let successStreak = 0;
+let active = 0;
+let pausedUntil = 0;
+let pauseTimer = null;
+const queue = [];
+
+const stats = {
+  requests: 0,
+  retries: 0,
+  rateLimited: 0,
+  failures: 0
+};
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Network errors, timeouts, 429 and 5xx are worth retrying; other 4xx are not
+function isRetryable(error) {
+  if (!error.response) return true;
+  const status = error.response.status;
+  return status === 429 || status >= 500;
+}
+
+// Retry-After header (seconds or HTTP date) in ms, or null
+function parseRetryAfter(error) {
+  const headers = error.response && error.response.headers;
+  const value = headers && headers['retry-after'];
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, seconds * 1000));
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, date - Date.now()));
+}
+
+// Exponential backoff with jitter
+function backoffDelay(attempt) {
+  const cap = Math.min(BEACON_RETRY_MAX_MS, BEACON_RETRY_BASE_MS * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+}
+
+function describeError(error) {
+  return error.response ? `HTTP ${error.response.status}` : error.message;
+}
+
+function pump() {
+  const wait = pausedUntil - Date.now();
+  if (wait > 0) {
+    if (!pauseTimer) {
+      pauseTimer = setTimeout(() => {
+        pauseTimer = null;
+        pump();
+      }, wait);
+    }
+    return;
+  }
+
+  while (active < concurrency && queue.length > 0) {
+    const task = queue.shift();
+    active += 1;
+    task().finally(() => {
+      active -= 1;
+      pump();
+    });
+  }
+}
+
+// Queue one attempt of fn behind the concurrency limit
+function enqueue(fn) {
+  return new Promise((resolve, reject) => {
+    queue.push(() => fn().then(resolve, reject));
+    pump();
+  });
+}
+
+function onSuccess() {
+  successStreak += 1;
+  if (concurrency < BEACON_MAX_CONCURRENCY && successStreak >= RECOVERY_STREAK) {
+    concurrency += 1;
+    successStreak = 0;
+  }
+}
+
+// Rate limited: slow down and hold back every queued request, not just the one that got the 429
+function onRateLimited(delay) {
+  stats.rateLimited += 1;
+  successStreak = 0;
+  concurrency = Math.max(1, Math.floor(concurrency / 2));
+  pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+}
+
+// Run fn() through the scheduler, retrying retryable failures
+// label is used in log messages
+async function scheduleRequest(fn, { label = 'Beacon request', retries = BEACON_MAX_RETRIES } = {}) {
+  for (let attempt = 0; ; attempt++) {
+    stats.requests += 1;
+    try {
+      const result = await enqueue(fn);
+      onSuccess();
+      return result;
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        stats.failures += 1;
+        throw error;
+      }
+
+      const retryAfter = parseRetryAfter(error);
+      const delay = retryAfter !== null ? retryAfter : backoffDelay(attempt);
+      if (error.response && error.response.status === 429) {
+        onRateLimited(delay);
+      }
+      stats.retries += 1;
+      console.warn(`${label} failed (${describeError(error)}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+function getSchedulerStats() {
+  return {
+    maxConcurrency: BEACON_MAX_CONCURRENCY,
+    concurrency,
+    active,
+    queued: queue.length,
+    pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null,
+    maxRetries: BEACON_MAX_RETRIES,
+    ...stats
+  };
+}
+
+module.exports = {
+  scheduleRequest,
+  isRetryable,
+  getSchedulerStats
+};
@@ -2,11 +2,65 @@ const express = require('express');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
-const { getDatabase } = require('./db');
+const { getDatabase, dbRun, dbPrepare, dbTransaction } = require('./db');
 const { parseCSV } = require('./csvParser');
-const { getValidatorStatusesBatch, mapBeaconStatus } = require('./beaconApi');
+const { importKeyFiles } = require('./keyFiles');
+const { TARGET_VALIDATORS, TARGET_EXIT, checkUpload, isDryRun } = require('./uploadCheck');
+const { SOURCE_CSV, importValidators, listImports, getImport, revertImport } = require('./validatorImports');
 const { getExitQueueInfo } = require('./exitQueueService');
+const { getEtaContext, estimateEta } = require('./etaService');
+const { getExitQueueHistory } = require('./exitQueueHistory');
+const {
+  attachVoluntaryExits,
+  verifyStoredExits,
+  getExitMessageReport,
+  submitVoluntaryExits
+} = require('./voluntaryExits');
+const { LATEST_EL_EXIT_REQUEST, importElExitRequests, listElExitRequests } = require('./elExitRequests');
+const { LIDO_REQUEST_REF_SLOT, importLidoExitRequests, listLidoExitRequests } = require('./lidoExitRequests');
 const { normalizePubkey } = require('./utils');
+const { SOURCE_VALIDATORS, SOURCE_EXIT, getStatusHistory } = require('./statusHistory');
+const { getBalanceHistory } = require('./balanceSnapshots');
+const { listAlerts, acknowledgeAlerts } = require('./alerts');
+const {
+  SLA_OVERDUE,
+  KEY_SLA_STATUS,
+  TIME_TO_EXITING,
+  BATCH_REQUESTED_AT,
+  parseBatchTime,
+  setBatchDeadline
+} = require('./exitSla');
+const {
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listDeliveries,
+  sendTestDelivery
+} = require('./webhooks');
+const {
+  listProvidersWithCounts,
+  getProvider,
+  createProvider,
+  updateProvider,
+  deleteProvider
+} = require('./providers');
+const {
+  getSyncJob,
+  getSyncJobErrors,
+  getStatusDiscrepancies,
+  listSyncJobs,
+  startSyncJob,
+  cancelSyncJob
+} = require('./syncService');
+const { getScheduleInfo } = require('./scheduler');
+const { getNodeStats } = require('./beaconNodes');
+const { getSchedulerStats } = require('./requestScheduler');
+const { resolveStateId } = require('./stateId');
+const { queryStatusesAt } = require('./pointInTime');
+const { getStatistics, getExitStatistics } = require('./statistics');
+const { handleEventStream } = require('./liveUpdates');
 
 const router = express.Router();
 const uploadsDir = path.join(__dirname, '../uploads');
@@ -15,7 +69,16 @@ if (!fs.existsSync(uploadsDir)) {
 }
 const upload = multer({ dest: uploadsDir });
 
+const INVALID_STATE_ID = 'Invalid state_id (use head, finalized, justified, a slot, epoch:<n> or date:<ISO date>)';
+
+// state_id from the query string or JSON body
+function getRequestStateId(req) {
+  return req.query.state_id !== undefined ? req.query.state_id : (req.body && req.body.state_id);
+}
+
 // Upload and process CSV file
+// ?dryRun=true only returns the check report (see server/uploadCheck.js); otherwise invalid and
+// repeated pubkeys are skipped
 router.post('/api/upload-csv', upload.single('csv'), async (req, res) => {
   try {
     if (!req.file) {
@@ -23,64 +86,44 @@ router.post('/api/upload-csv', upload.single('csv'), async (req, res) => {
     }
 
     const filePath = req.file.path;
-    const validators = await parseCSV(filePath);
+    // The original filename may name the provider
+    const rows = await parseCSV(filePath, req.file.originalname);
 
-    if (validators.length === 0) {
+    if (rows.length === 0) {
       fs.unlinkSync(filePath);
       return res.status(400).json({ error: 'No valid data found in CSV file' });
     }
 
-    const db = getDatabase();
-    let inserted = 0;
-
-    // Process validators in batches
-    const batchSize = 100;
-    for (let i = 0; i < validators.length; i += batchSize) {
-      const batch = validators.slice(i, i + batchSize);
-      
-      await new Promise((resolve, reject) => {
-        db.serialize(() => {
-          const stmt = db.prepare(`
-            INSERT OR REPLACE INTO validators (pubkey, provider, status, json_filename, updated_at)
-            VALUES (?, ?, 'pending', ?, CURRENT_TIMESTAMP)
-          `);
-
-          batch.forEach(validator => {
-            // Ensure pubkey is normalized before saving
-            const normalizedPubkey = normalizePubkey(validator.pubkey);
-            stmt.run(
-              normalizedPubkey,
-              validator.provider,
-              validator.json_filename,
-              (err) => {
-                if (err) {
-                  console.error('Error inserting validator:', err);
-                } else {
-                  inserted++;
-                }
-              }
-            );
-          });
-
-          stmt.finalize((err) => {
-            if (err) {
-              reject(err);
-            } else {
-              resolve();
-            }
-          });
-        });
-      });
+    const { accepted: validators, report } = await checkUpload(rows, TARGET_VALIDATORS);
+    if (isDryRun(req)) {
+      fs.unlinkSync(filePath);
+      return res.json({ dryRun: true, ...report });
+    }
+    if (validators.length === 0) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: 'No valid pubkeys found in CSV file' });
     }
 
+    const result = await importValidators({
+      filename: req.file.originalname || 'unknown.csv',
+      source: SOURCE_CSV,
+      rowCount: rows.length,
+      records: validators.map(({ pubkey, provider, json_filename, bucket_no }) => ({ pubkey, provider, json_filename, bucket_no }))
+    });
+
     // Clean up uploaded file
     fs.unlinkSync(filePath);
 
     res.json({
       message: 'CSV file processed successfully',
+      importId: result.importId,
       total: validators.length,
-      inserted,
-      updated
+      inserted: result.inserted,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      byProvider: result.byProvider,
+      invalid: report.invalid.count,
+      duplicates: report.duplicates.count
     });
   } catch (error) {
     console.error('Error processing CSV:', error);
@@ -91,7 +134,48 @@ router.post('/api/upload-csv', upload.single('csv'), async (req, res) => {
   }
 });
 
-// Upload and process Exit CSV file
+// Validator imports (CSV and key file uploads), newest first (?limit=)
+router.get('/api/imports', async (req, res) => {
+  try {
+    res.json({ data: await listImports({ limit: req.query.limit }) });
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.get('/api/imports/:id', async (req, res) => {
+  try {
+    res.json(await getImport(parseInt(req.params.id, 10)));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Revert an import: delete the keys it created and restore the ones it changed
+router.post('/api/imports/:id/revert', async (req, res) => {
+  try {
+    res.json(await revertImport(parseInt(req.params.id, 10)));
+  } catch (error) {
+    console.error('Error reverting import:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Import keystores and deposit_data JSON files (field "files", also zips of them) as validators
+// Optional provider field; otherwise detected from the file names
+router.post('/api/upload-keys', upload.array('files'), async (req, res) => {
+  try {
+    res.json(await importKeyFiles(req.files, { provider: req.body.provider }));
+  } catch (error) {
+    console.error('Error importing key files:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  } finally {
+    (req.files || []).forEach(file => fs.unlink(file.path, () => {}));
+  }
+});
+
+// Upload and process Exit CSV file (?dryRun=true as for /api/upload-csv)
 router.post('/api/upload-exit-csv', upload.single('csv'), async (req, res) => {
   try {
     if (!req.file) {
@@ -100,64 +184,67 @@ router.post('/api/upload-exit-csv', upload.single('csv'), async (req, res) => {
 
     const filePath = req.file.path;
     const filename = req.file.originalname || 'unknown.csv';
-    const validators = await parseCSV(filePath);
+    // Optional exit deadline fields sent along with the file
+    let requestedAt;
+    let deadlineAt;
+    try {
+      requestedAt = parseBatchTime(req.body.requested_at, 'requested_at');
+      deadlineAt = parseBatchTime(req.body.deadline_at, 'deadline_at');
+    } catch (error) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: error.message });
+    }
+    const rows = await parseCSV(filePath, filename);
 
-    if (validators.length === 0) {
+    if (rows.length === 0) {
       fs.unlinkSync(filePath);
       return res.status(400).json({ error: 'No valid data found in CSV file' });
     }
 
-    const db = getDatabase();
-    
-    // Create exit batch record
-    const batchId = await new Promise((resolve, reject) => {
-      db.run(`
-        INSERT INTO exit_batches (filename, total_validators)
-        VALUES (?, ?)
-      `, [filename, validators.length], function(err) {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(this.lastID);
+    const { accepted: validators, report } = await checkUpload(rows, TARGET_EXIT);
+    if (isDryRun(req)) {
+      fs.unlinkSync(filePath);
+      return res.json({ dryRun: true, ...report });
+    }
+    if (validators.length === 0) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: 'No valid pubkeys found in CSV file' });
+    }
+
+    // The batch and its keys are written in one transaction; rows that fail are reported and left out
+    // of total_validators, and when none can be stored nothing is
+    const { batchId, inserted, failed } = await dbTransaction(async () => {
+      const { lastID } = await dbRun(`
+        INSERT INTO exit_batches (filename, total_validators, requested_at, deadline_at)
+        VALUES (?, ?, ?, ?)
+      `, [filename, validators.length, requestedAt, deadlineAt]);
+
+      const failed = [];
+      const stmt = dbPrepare(`
+        INSERT OR REPLACE INTO exit_validators (batch_id, pubkey, status, updated_at)
+        VALUES (?, ?, 'pending', CURRENT_TIMESTAMP)
+      `);
+      try {
+        for (const validator of validators) {
+          try {
+            await stmt.run([lastID, normalizePubkey(validator.pubkey)]);
+          } catch (err) {
+            failed.push({ line: validator.line, pubkey: validator.pubkey, error: err.message });
+          }
         }
-      });
-    });
+      } finally {
+        await stmt.finalize();
+      }
 
-    let inserted = 0;
-
-    // Process validators in batches
-    const batchSize = 100;
-    for (let i = 0; i < validators.length; i += batchSize) {
-      const batch = validators.slice(i, i + batchSize);
-      
-      await new Promise((resolve, reject) => {
-        db.serialize(() => {
-          const stmt = db.prepare(`
-            INSERT OR REPLACE INTO exit_validators (batch_id, pubkey, status, updated_at)
-            VALUES (?, ?, 'pending', CURRENT_TIMESTAMP)
-          `);
-
-          batch.forEach(validator => {
-            const normalizedPubkey = normalizePubkey(validator.pubkey);
-            stmt.run(batchId, normalizedPubkey, (err) => {
-              if (err) {
-                console.error('Error inserting exit validator:', err);
-              } else {
-                inserted++;
-              }
-            });
-          });
-
-          stmt.finalize((err) => {
-            if (err) {
-              reject(err);
-            } else {
-              resolve();
-            }
-          });
-        });
-      });
-    }
+      const inserted = validators.length - failed.length;
+      if (inserted === 0) {
+        throw new Error(`No exit validators could be stored: ${failed[0].error}`);
+      }
+      if (failed.length > 0) {
+        await dbRun('UPDATE exit_batches SET total_validators = ? WHERE id = ?', [inserted, lastID]);
+      }
+      return { batchId: lastID, inserted, failed };
+    });
 
     // Clean up uploaded file
     fs.unlinkSync(filePath);
@@ -166,7 +253,11 @@ router.post('/api/upload-exit-csv', upload.single('csv'), async (req, res) => {
       message: 'Exit CSV file processed successfully',
       batchId: batchId,
       total: validators.length,
-      inserted
+      inserted,
+      failed,
+      invalid: report.invalid.count,
+      duplicates: report.duplicates.count,
+      notInValidators: report.notInValidators.count
     });
   } catch (error) {
     console.error('Error processing exit CSV:', error);
@@ -180,148 +271,7 @@ router.post('/api/upload-exit-csv', upload.single('csv'), async (req, res) => {
 // Get Exit Statistics
 router.get('/api/exit-statistics', async (req, res) => {
   try {
-    const db = getDatabase();
-    
-    // Get overall statistics
-    const stats = await new Promise((resolve, reject) => {
-      db.get(`
-        SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
-          SUM(CASE WHEN status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
-          SUM(CASE WHEN status = 'inactive' OR status = 'pending' THEN 1 ELSE 0 END) as inactive
-        FROM exit_validators
-      `, (err, row) => {
-        if (err) reject(err);
-        else resolve(row);
-      });
-    });
-
-    // Get statistics by batch
-    const byBatch = await new Promise((resolve, reject) => {
-      const batches = [];
-      db.each(`
-        SELECT 
-          b.id,
-          b.filename,
-          b.uploaded_at,
-          COUNT(e.id) as total,
-          SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
-          SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
-          SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive
-        FROM exit_batches b
-        LEFT JOIN exit_validators e ON b.id = e.batch_id
-        GROUP BY b.id
-        ORDER BY b.uploaded_at DESC
-      `, (err, row) => {
-        if (err) {
-          reject(err);
-        } else {
-          batches.push(row);
-        }
-      }, (err) => {
-        if (err) reject(err);
-        else resolve(batches);
-      });
-    });
-
-    // Get detailed statistics by provider and bucket for each batch
-    const byBatchDetail = {};
-    for (const batch of byBatch) {
-      // By provider
-      const byProvider = await new Promise((resolve, reject) => {
-        const providers = {};
-        db.each(`
-          SELECT 
-            COALESCE(v.provider, 'Unknown') as provider,
-            COUNT(e.id) as total,
-            SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
-            SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
-            SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive
-          FROM exit_validators e
-          LEFT JOIN validators v ON e.pubkey = v.pubkey
-          WHERE e.batch_id = ?
-          GROUP BY v.provider
-        `, [batch.id], (err, row) => {
-          if (err) {
-            reject(err);
-          } else {
-            providers[row.provider] = {
-              total: row.total || 0,
-              active: row.active || 0,
-              exit_queue: row.exit_queue || 0,
-              inactive: row.inactive || 0
-            };
-          }
-        }, (err) => {
-          if (err) reject(err);
-          else resolve(providers);
-        });
-      });
-
-      // By bucket
-      const byBucket = await new Promise((resolve, reject) => {
-        const buckets = {};
-        db.each(`
-          SELECT 
-            COALESCE(v.provider, 'Unknown') as provider,
-            COALESCE(v.bucket_no, 'Unknown') as bucket_no,
-            COUNT(e.id) as total,
-            SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
-            SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
-            SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive
-          FROM exit_validators e
-          LEFT JOIN validators v ON e.pubkey = v.pubkey
-          WHERE e.batch_id = ? AND v.provider IS NOT NULL AND v.bucket_no IS NOT NULL
-          GROUP BY v.provider, v.bucket_no
-        `, [batch.id], (err, row) => {
-          if (err) {
-            reject(err);
-          } else {
-            if (!buckets[row.provider]) {
-              buckets[row.provider] = {};
-            }
-            buckets[row.provider][row.bucket_no] = {
-              total: row.total || 0,
-              active: row.active || 0,
-              exit_queue: row.exit_queue || 0,
-              inactive: row.inactive || 0
-            };
-          }
-        }, (err) => {
-          if (err) reject(err);
-          else resolve(buckets);
-        });
-      });
-
-      byBatchDetail[batch.id] = {
-        byProvider,
-        byBucket
-      };
-    }
-
-    // Get last update time
-    const lastUpdate = await new Promise((resolve, reject) => {
-      db.get(`
-        SELECT MAX(updated_at) as last_update 
-        FROM exit_validators
-      `, (err, row) => {
-        if (err) reject(err);
-        else resolve(row?.last_update || null);
-      });
-    });
-
-    res.json({
-      totals: {
-        total: stats.total || 0,
-        active: stats.active || 0,
-        exit_queue: stats.exit_queue || 0,
-        inactive: stats.inactive || 0
-      },
-      byBatch: byBatch,
-      byBatchDetail: byBatchDetail,
-      lastUpdate: lastUpdate
-    });
+    res.json(await getExitStatistics());
   } catch (error) {
     console.error('Error fetching exit statistics:', error);
     res.status(500).json({ error: error.message });
@@ -331,7 +281,7 @@ router.get('/api/exit-statistics', async (req, res) => {
 // Get Exit List (paginated)
 router.get('/api/exit-list', async (req, res) => {
   try {
-    const { provider, status, q = '', bucket_no = '', batch_id = '', limit = 100, offset = 0 } = req.query;
+    const { provider, status, lifecycle, trigger, slashed, overdue, q = '', bucket_no = '', batch_id = '', limit = 100, offset = 0 } = req.query;
     const db = getDatabase();
     
     let where = 'WHERE 1=1';
@@ -352,6 +302,29 @@ router.get('/api/exit-list', async (req, res) => {
       params.push(status);
     }
 
+    if (lifecycle) {
+      where += " AND COALESCE(e.lifecycle, 'unknown') = ?";
+      params.push(lifecycle);
+    }
+
+    if (slashed === '1') {
+      where += ' AND e.slashed = 1';
+    }
+
+    // Past the batch deadline without reaching active_exiting
+    if (overdue === '1') {
+      where += ` AND ${KEY_SLA_STATUS} = '${SLA_OVERDUE}'`;
+    }
+
+    // Trigger path: el (EIP-7002 request), cl (accepted voluntary exit) or none
+    if (trigger === 'el') {
+      where += ` AND (${LATEST_EL_EXIT_REQUEST}) IS NOT NULL`;
+    } else if (trigger === 'cl') {
+      where += ` AND (${LATEST_EL_EXIT_REQUEST}) IS NULL AND e.exit_submission_status = 'accepted'`;
+    } else if (trigger === 'none') {
+      where += ` AND (${LATEST_EL_EXIT_REQUEST}) IS NULL AND COALESCE(e.exit_submission_status, '') != 'accepted'`;
+    }
+
     if (q || bucket_no) {
       const searchConditions = [];
       if (q) {
@@ -369,7 +342,13 @@ router.get('/api/exit-list', async (req, res) => {
     }
 
     // Get total count
-    const countQuery = `SELECT COUNT(*) as total FROM exit_validators e ${where}`;
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM exit_validators e
+      LEFT JOIN exit_batches b ON e.batch_id = b.id
+      LEFT JOIN validators v ON e.pubkey = v.pubkey
+      ${where}
+    `;
     const total = await new Promise((resolve, reject) => {
       db.get(countQuery, params, (err, row) => {
         if (err) reject(err);
@@ -383,9 +362,40 @@ router.get('/api/exit-list', async (req, res) => {
         e.id,
         e.pubkey,
         e.status,
+        e.beacon_status,
+        e.lifecycle,
+        e.validator_index,
+        e.balance,
+        e.effective_balance,
+        e.activation_epoch,
+        e.exit_epoch,
+        e.withdrawable_epoch,
+        e.withdrawal_credentials,
+        e.slashed,
+        e.fetch_error,
+        e.exit_message IS NOT NULL as has_exit_message,
+        e.exit_message_epoch,
+        e.exit_message_uploaded_at,
+        e.exit_submission_status,
+        e.exit_submission_error,
+        e.exit_submitted_at,
+        e.exit_signature_status,
+        e.exit_signature_error,
+        (${LATEST_EL_EXIT_REQUEST}) as el_request_tx_hash,
+        (${LIDO_REQUEST_REF_SLOT}) as lido_ref_slot,
+        e.withdrawn_amount,
+        e.withdrawn_slot,
+        e.withdrawn_at,
+        e.withdrawn_seen_slot,
+        e.withdrawal_source,
+        e.exiting_at,
+        ${TIME_TO_EXITING} as time_to_exiting,
+        ${KEY_SLA_STATUS} as sla_status,
         e.batch_id,
         b.filename as batch_filename,
         b.uploaded_at as batch_uploaded_at,
+        ${BATCH_REQUESTED_AT} as batch_requested_at,
+        b.deadline_at as batch_deadline_at,
         e.updated_at,
         v.provider,
         v.bucket_no,
@@ -412,6 +422,13 @@ router.get('/api/exit-list', async (req, res) => {
       });
     });
 
+    const etaContext = getEtaContext();
+    data.forEach(row => {
+      row.eta = estimateEta(row, etaContext);
+      // An EL request exits the validator regardless of any voluntary exit sent later
+      row.exit_trigger = row.el_request_tx_hash ? 'el' : (row.exit_submission_status === 'accepted' ? 'cl' : null);
+    });
+
     res.json({
       data: data,
       total: total,
@@ -424,123 +441,122 @@ router.get('/api/exit-list', async (req, res) => {
   }
 });
 
-// Sync Exit List statuses
-router.post('/api/sync-exit-statuses', async (req, res) => {
+// Import EIP-7002 withdrawal request events (JSON or CSV export of the request contract logs)
+router.post('/api/el-exit-requests/import', upload.single('file'), async (req, res) => {
   try {
-    const db = getDatabase();
-    
-    // Get all exit validators
-    const validators = await new Promise((resolve, reject) => {
-      const items = [];
-      db.each(`
-        SELECT pubkey FROM exit_validators
-      `, (err, row) => {
-        if (err) {
-          reject(err);
-        } else {
-          items.push(row.pubkey);
-        }
-      }, (err) => {
-        if (err) reject(err);
-        else resolve(items);
-      });
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    const result = await importElExitRequests(req.file.path, req.file.originalname || 'unknown');
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing EL exit requests:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  } finally {
+    if (req.file) fs.unlinkSync(req.file.path);
+  }
+});
+
+// Imported EIP-7002 requests, filtered by pubkey or exit batch
+router.get('/api/el-exit-requests', async (req, res) => {
+  try {
+    const { pubkey, batch_id: batchId, limit } = req.query;
+    const data = await listElExitRequests({ pubkey, batchId, limit });
+    res.json({ data });
+  } catch (error) {
+    console.error('Error fetching EL exit requests:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import Lido ValidatorsExitBus exit request events (field "file", JSON or CSV export) as a new exit batch
+// Optional fields: node_operator_ids (comma list) to keep only those operators, deadline_at for the batch
+router.post('/api/lido-exit-requests/import', upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    const { node_operator_ids: operatorIds, deadline_at: deadlineAt } = req.body;
+    const nodeOperatorIds = operatorIds
+      ? String(operatorIds).split(',').map(id => id.trim()).filter(Boolean).map(id => parseInt(id, 10))
+      : undefined;
+    if (nodeOperatorIds && nodeOperatorIds.some(id => Number.isNaN(id))) {
+      return res.status(400).json({ error: 'node_operator_ids must be a comma list of integers' });
+    }
+    const result = await importLidoExitRequests(req.file.path, req.file.originalname || 'unknown', {
+      nodeOperatorIds,
+      deadlineAt: parseBatchTime(deadlineAt, 'deadline_at')
     });
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing Lido exit requests:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  } finally {
+    if (req.file) fs.unlinkSync(req.file.path);
+  }
+});
 
-    if (validators.length === 0) {
-      return res.json({ message: 'No exit validators to sync', total: 0, status: 'completed' });
+// Imported Lido exit requests (?batch_id=&pubkey=&missing=1 for keys not in validators)
+router.get('/api/lido-exit-requests', async (req, res) => {
+  try {
+    const { batch_id: batchId, pubkey, missing, limit } = req.query;
+    const data = await listLidoExitRequests({ batchId, pubkey, missing: missing === '1', limit });
+    res.json({ data });
+  } catch (error) {
+    console.error('Error fetching Lido exit requests:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Sync Exit List statuses (runs as a background sync job)
+router.post('/api/sync-exit-statuses', async (req, res) => {
+  try {
+    const stateId = await resolveStateId(getRequestStateId(req));
+    if (!stateId) {
+      return res.status(400).json({ error: INVALID_STATE_ID });
     }
 
-    res.json({ message: 'Sync started', total: validators.length, status: 'processing' });
+    const { job, created } = await startSyncJob(SOURCE_EXIT, { stateId });
 
-    // Process in background in batches
-    const BATCH_SIZE = 500;
-    for (let i = 0; i < validators.length; i += BATCH_SIZE) {
-      const batch = validators.slice(i, i + BATCH_SIZE);
-      
-      try {
-        // Normalize pubkeys before sending to API
-        const normalizedBatch = batch.map(pk => normalizePubkey(pk));
-        const statuses = await getValidatorStatusesBatch(normalizedBatch);
-        
-        // Convert array response to map (pubkey -> status)
-        const statusMap = {};
-        statuses.forEach(status => {
-          const mappedStatus = mapBeaconStatus(status.status);
-          const normalizedApiPubkey = normalizePubkey(status.pubkey);
-          statusMap[normalizedApiPubkey] = mappedStatus;
-        });
-        
-        // Update database in transaction
-        await new Promise((resolve, reject) => {
-          db.serialize(() => {
-            db.run('BEGIN TRANSACTION');
-            
-            const stmt = db.prepare(`
-              UPDATE exit_validators 
-              SET status = ?, updated_at = CURRENT_TIMESTAMP
-              WHERE pubkey = ?
-            `);
-            
-            normalizedBatch.forEach(normalizedPubkey => {
-              const status = statusMap[normalizedPubkey] || 'unknown';
-              stmt.run(status, normalizedPubkey);
-            });
-            
-            stmt.finalize((err) => {
-              if (err) {
-                db.run('ROLLBACK');
-                reject(err);
-              } else {
-                db.run('COMMIT', (err) => {
-                  if (err) {
-                    reject(err);
-                  } else {
-                    resolve();
-                  }
-                });
-              }
-            });
-          });
-        });
-        
-        // Delay between batches
-        if (i + BATCH_SIZE < validators.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (err) {
-        console.error(`Error processing batch ${i}-${i + BATCH_SIZE}:`, err);
-      }
+    if (job.total === 0) {
+      return res.json({ message: 'No exit validators to sync', total: 0, status: 'completed', jobId: job.id });
     }
+
+    res.json({
+      message: created ? 'Sync started' : 'Sync already in progress',
+      jobId: job.id,
+      total: job.total,
+      status: 'processing',
+      batchSize: job.batch_size,
+      stateId: job.state_id
+    });
   } catch (error) {
     console.error('Error syncing exit statuses:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Set the exit deadline of a batch; body { requested_at?, deadline_at? } (ISO, null clears)
+router.patch('/api/exit-batch/:batchId', async (req, res) => {
+  try {
+    res.json(await setBatchDeadline(parseInt(req.params.batchId, 10), req.body || {}));
+  } catch (error) {
+    console.error('Error updating exit batch:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Delete exit batch and its validators
 router.delete('/api/exit-batch/:batchId', async (req, res) => {
   try {
     const { batchId } = req.params;
-    const db = getDatabase();
-
-    // Delete exit validators first (foreign key constraint)
-    await new Promise((resolve, reject) => {
-      db.run(`
-        DELETE FROM exit_validators WHERE batch_id = ?
-      `, [batchId], function(err) {
-        if (err) reject(err);
-        else resolve(this.changes);
-      });
-    });
 
-    // Delete exit batch
-    await new Promise((resolve, reject) => {
-      db.run(`
-        DELETE FROM exit_batches WHERE id = ?
-      `, [batchId], function(err) {
-        if (err) reject(err);
-        else resolve(this.changes);
-      });
+    await dbTransaction(async () => {
+      // Delete exit validators first (foreign key constraint)
+      await dbRun('DELETE FROM exit_validators WHERE batch_id = ?', [batchId]);
+      // Imported Lido requests go with their batch so a re-import can recreate it
+      await dbRun('DELETE FROM lido_exit_requests WHERE batch_id = ?', [batchId]);
+      await dbRun('DELETE FROM exit_batches WHERE id = ?', [batchId]);
     });
 
     res.json({ message: 'Batch deleted successfully', batchId: parseInt(batchId) });
@@ -550,6 +566,68 @@ router.delete('/api/exit-batch/:batchId', async (req, res) => {
   }
 });
 
+// Attach pre-signed voluntary exit JSON files (field "exits", one or more files) to an exit batch
+router.post('/api/exit-batch/:batchId/voluntary-exits', upload.array('exits'), async (req, res) => {
+  const files = req.files || [];
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No exit message files uploaded' });
+    }
+
+    const contents = files.map(file => ({
+      filename: file.originalname || 'unknown.json',
+      content: fs.readFileSync(file.path, 'utf8')
+    }));
+    const result = await attachVoluntaryExits(req.params.batchId, contents);
+    res.json(result);
+  } catch (error) {
+    console.error('Error attaching voluntary exits:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  } finally {
+    files.forEach(file => fs.unlinkSync(file.path));
+  }
+});
+
+// Re-check BLS signatures of the stored voluntary exits of a batch, then return the batch report
+router.post('/api/exit-batch/:batchId/voluntary-exits/verify', async (req, res) => {
+  try {
+    const verified = await verifyStoredExits(req.params.batchId);
+    const report = await getExitMessageReport(req.params.batchId);
+    res.json({ verified: verified.verified, ...report });
+  } catch (error) {
+    console.error('Error verifying voluntary exits:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Keys of a batch without an exit message, with an invalid signature, or not verified yet
+router.get('/api/exit-batch/:batchId/voluntary-exits/report', async (req, res) => {
+  try {
+    const report = await getExitMessageReport(req.params.batchId);
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching voluntary exit report:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Broadcast stored voluntary exits of a batch to the beacon node
+// Body: { pubkeys?: string[] (default all keys with a message),
+//        force?: boolean (resubmit accepted ones and send invalid signatures anyway) }
+router.post('/api/exit-batch/:batchId/voluntary-exits/submit', async (req, res) => {
+  try {
+    const { pubkeys, force } = req.body || {};
+    if (pubkeys !== undefined && !Array.isArray(pubkeys)) {
+      return res.status(400).json({ error: 'pubkeys must be an array' });
+    }
+    const result = await submitVoluntaryExits(req.params.batchId, { pubkeys, force: !!force });
+    res.json(result);
+  } catch (error) {
+    console.error('Error submitting voluntary exits:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Get Exit Queue info
 router.get('/api/exit-queue', async (req, res) => {
   try {
@@ -561,238 +639,155 @@ router.get('/api/exit-queue', async (req, res) => {
   }
 });
 
-// Sync validator statuses from beacon API (batches of 500)
+// Stored exit queue snapshots, ?from=&to= (ISO dates, default the last 30 days)
+router.get('/api/exit-queue/history', async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    const data = await getExitQueueHistory({ from, to });
+    res.json(data);
+  } catch (error) {
+    console.error('Error fetching exit queue history:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Sync validator statuses from beacon API (runs as a background sync job)
 router.post('/api/sync-statuses', async (req, res) => {
   try {
-    const db = getDatabase();
-    
-    // Get all validators from database
-    const validators = await new Promise((resolve, reject) => {
-      db.all('SELECT pubkey FROM validators ORDER BY created_at', [], (err, rows) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows);
-        }
-      });
-    });
+    const stateId = await resolveStateId(getRequestStateId(req));
+    if (!stateId) {
+      return res.status(400).json({ error: INVALID_STATE_ID });
+    }
 
-    if (validators.length === 0) {
-      return res.json({ message: 'No validators to sync', synced: 0, total: 0 });
+    const { job, created } = await startSyncJob(SOURCE_VALIDATORS, { stateId });
+
+    if (job.total === 0) {
+      return res.json({ message: 'No validators to sync', synced: 0, total: 0, jobId: job.id });
     }
 
-    // Send immediate response
     res.json({
-      message: 'Sync started',
-      total: validators.length,
+      message: created ? 'Sync started' : 'Sync already in progress',
+      jobId: job.id,
+      total: job.total,
       status: 'processing',
-      batchSize: 500
+      batchSize: job.batch_size,
+      stateId: job.state_id
     });
-
-    // Process all validators sequentially in batches of 500
-    const BATCH_SIZE = 500;
-    let totalSynced = 0;
-    const totalBatches = Math.ceil(validators.length / BATCH_SIZE);
-    
-    // Process batches sequentially
-    for (let i = 0; i < validators.length; i += BATCH_SIZE) {
-      const batch = validators.slice(i, i + BATCH_SIZE);
-      const pubkeys = batch.map(v => normalizePubkey(v.pubkey));
-      const currentBatch = Math.floor(i / BATCH_SIZE) + 1;
-      
-      try {
-        
-        // Fetch statuses from Beacon API
-        const statuses = await getValidatorStatusesBatch(pubkeys);
-        const statusMap = {};
-        
-        statuses.forEach(status => {
-          const mappedStatus = mapBeaconStatus(status.status);
-          const normalizedApiPubkey = normalizePubkey(status.pubkey);
-          statusMap[normalizedApiPubkey] = mappedStatus;
-        });
-
-        // Update database in batch transaction
-        await new Promise((resolve, reject) => {
-          db.serialize(() => {
-            db.run('BEGIN TRANSACTION;');
-            const stmt = db.prepare('UPDATE validators SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE pubkey = ?');
-            
-            let batchSynced = 0;
-            let batchErrors = 0;
-            
-            pubkeys.forEach(pubkey => {
-              const mappedStatus = statusMap[pubkey] || 'inactive';
-              stmt.run([mappedStatus, pubkey], (err) => {
-                if (err) {
-                  console.error(`Error updating ${pubkey}:`, err.message);
-                  batchErrors++;
-                } else {
-                  batchSynced++;
-                }
-              });
-            });
-            
-            stmt.finalize((err) => {
-              if (err) {
-                db.run('ROLLBACK;');
-                reject(err);
-              } else {
-                db.run('COMMIT;', (commitErr) => {
-                  if (commitErr) {
-                    reject(commitErr);
-                  } else {
-                    totalSynced += batchSynced;
-                    resolve();
-                  }
-                });
-              }
-            });
-          });
-        });
-        
-        // Small delay between batches to avoid overwhelming the API
-        if (i + BATCH_SIZE < validators.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.error(`[${currentBatch}/${totalBatches}] Error processing batch:`, error.message);
-        // Continue with next batch even if current batch fails
-      }
-    }
-    
   } catch (error) {
-    console.error('❌ Error syncing statuses:', error);
-    // Response already sent, just log the error
+    console.error('Error syncing statuses:', error);
+    res.status(500).json({ error: error.message });
   }
 });
 
-// Get statistics by provider and status
-router.get('/api/statistics', async (req, res) => {
+// List sync jobs (most recent first)
+// Query: type (validators | exit), active (only queued/running), limit
+router.get('/api/sync-jobs', async (req, res) => {
   try {
-    const db = getDatabase();
-    
-    const stats = await new Promise((resolve, reject) => {
-      db.all(`
-        SELECT 
-          provider,
-          status,
-          COUNT(*) as count
-        FROM validators
-        GROUP BY provider, status
-        ORDER BY provider, status
-      `, (err, rows) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows);
-        }
-      });
+    const { type, active, limit = 20 } = req.query;
+    const jobs = await listSyncJobs({
+      type,
+      active: active === 'true' || active === '1',
+      limit: Math.min(parseInt(limit, 10) || 20, 100)
     });
+    res.json({ data: jobs });
+  } catch (error) {
+    console.error('Error listing sync jobs:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Format statistics
-    const formatted = {
-      Lido: { active: 0, exit_queue: 0, inactive: 0, total: 0 },
-      Etherfi: { active: 0, exit_queue: 0, inactive: 0, total: 0 },
-      Mantle: { active: 0, exit_queue: 0, inactive: 0, total: 0 }
-    };
-
-    stats.forEach(stat => {
-      const provider = stat.provider;
-      const status = stat.status;
-      const count = stat.count;
-
-      if (formatted[provider]) {
-        formatted[provider][status] = count;
-        formatted[provider].total += count;
-      }
-    });
+// Get scheduled sync configuration with last and next run times
+router.get('/api/sync-schedule', (req, res) => {
+  res.json(getScheduleInfo());
+});
 
-    // Get total counts
-    const totals = await new Promise((resolve, reject) => {
-      db.get(`
-        SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
-          SUM(CASE WHEN status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
-          SUM(CASE WHEN status = 'inactive' THEN 1 ELSE 0 END) as inactive
-        FROM validators
-      `, (err, row) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(row);
-        }
-      });
-    });
+// Live sync progress, status transitions and statistics (Server-Sent Events)
+router.get('/api/events', handleEventStream);
 
-    // Get last update time
-    const lastUpdate = await new Promise((resolve, reject) => {
-      db.get(`
-        SELECT MAX(updated_at) as last_update
-        FROM validators
-      `, (err, row) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(row?.last_update || null);
-        }
-      });
-    });
+// Get sync job progress and its per-pubkey errors
+router.get('/api/sync-jobs/:id', async (req, res) => {
+  try {
+    const job = await getSyncJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Sync job not found' });
+    }
+    const [errors, discrepancies] = await Promise.all([
+      getSyncJobErrors(job.id),
+      getStatusDiscrepancies({ jobId: job.id })
+    ]);
+    res.json({ ...job, errors, discrepancies });
+  } catch (error) {
+    console.error('Error fetching sync job:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Get bucket statistics for each provider
-    const bucketStats = await new Promise((resolve, reject) => {
-      db.all(`
-        SELECT 
-          provider,
-          bucket_no,
-          status,
-          COUNT(*) as count
-        FROM validators
-        WHERE provider IN ('Lido', 'Etherfi', 'Mantle')
-          AND bucket_no IS NOT NULL
-        GROUP BY provider, bucket_no, status
-        ORDER BY provider, bucket_no, status
-      `, (err, rows) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows);
-        }
-      });
-    });
+// Cancel a sync job (stops before its next batch)
+router.post('/api/sync-jobs/:id/cancel', async (req, res) => {
+  try {
+    const job = await cancelSyncJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Sync job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling sync job:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Format bucket statistics by provider
-    const byBucket = {};
-    
-    bucketStats.forEach((stat) => {
-      const provider = stat.provider;
-      const bucketNo = stat.bucket_no;
-      const status = stat.status;
-      const count = stat.count;
-
-      if (!byBucket[provider]) {
-        byBucket[provider] = {};
-      }
-      if (!byBucket[provider][bucketNo]) {
-        byBucket[provider][bucketNo] = { active: 0, exit_queue: 0, inactive: 0, total: 0 };
-      }
+// Beacon node health, latency and error counts, plus request scheduler state
+router.get('/api/beacon-nodes', (req, res) => {
+  res.json({ ...getNodeStats(), scheduler: getSchedulerStats() });
+});
 
-      byBucket[provider][bucketNo][status] = count;
-      byBucket[provider][bucketNo].total += count;
+// Pubkeys whose status differed between beacon nodes (quorum mode)
+// Query: job_id, pubkey, limit
+router.get('/api/beacon-nodes/discrepancies', async (req, res) => {
+  try {
+    const { job_id, pubkey, limit = 100 } = req.query;
+    const data = await getStatusDiscrepancies({
+      jobId: job_id ? parseInt(job_id, 10) : null,
+      pubkey: pubkey ? normalizePubkey(pubkey) : null,
+      limit: Math.min(parseInt(limit, 10) || 100, 1000)
     });
+    res.json({ data });
+  } catch (error) {
+    console.error('Error fetching status discrepancies:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    res.json({
-      byProvider: formatted,
-      byBucket: byBucket,
-      totals: {
-        total: totals.total || 0,
-        active: totals.active || 0,
-        exit_queue: totals.exit_queue || 0,
-        inactive: totals.inactive || 0
-      },
-      lastUpdate: lastUpdate
+// Statuses of our keys at a past or finalized beacon state (read-only, nothing is stored)
+// Query: state_id, source (validators | exit), provider, bucket_no, batch_id, pubkeys (comma separated)
+router.get('/api/point-in-time', async (req, res) => {
+  try {
+    const { source = SOURCE_VALIDATORS, provider, bucket_no, batch_id, pubkeys } = req.query;
+    if (source !== SOURCE_VALIDATORS && source !== SOURCE_EXIT) {
+      return res.status(400).json({ error: 'source must be validators or exit' });
+    }
+    const stateId = await resolveStateId(req.query.state_id);
+    if (!stateId) {
+      return res.status(400).json({ error: INVALID_STATE_ID });
+    }
+
+    const result = await queryStatusesAt(stateId, source, {
+      provider,
+      bucketNo: bucket_no,
+      batchId: batch_id ? parseInt(batch_id, 10) : null,
+      pubkeys: pubkeys ? pubkeys.split(',').map(pubkey => normalizePubkey(pubkey.trim())).filter(Boolean) : []
     });
+    res.json(result);
+  } catch (error) {
+    console.error('Error querying point-in-time statuses:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Get statistics by provider and status
+router.get('/api/statistics', async (req, res) => {
+  try {
+    res.json(await getStatistics());
   } catch (error) {
     console.error('Error fetching statistics:', error);
     res.status(500).json({ error: error.message });
@@ -800,10 +795,10 @@ router.get('/api/statistics', async (req, res) => {
 });
 
 // Get validators with filters and pagination
-// Query: provider, status, q (pubkey search), bucket_no, limit, offset
+// Query: provider, status, lifecycle, q (pubkey search), bucket_no, limit, offset
 router.get('/api/validators', async (req, res) => {
   try {
-    const { provider, status, q = '', bucket_no = '', limit = 100, offset = 0 } = req.query;
+    const { provider, status, lifecycle, slashed, q = '', bucket_no = '', limit = 100, offset = 0 } = req.query;
     const db = getDatabase();
     
     let where = 'WHERE 1=1';
@@ -814,11 +809,20 @@ router.get('/api/validators', async (req, res) => {
       params.push(provider);
     }
 
+    if (slashed === '1') {
+      where += ' AND slashed = 1';
+    }
+
     if (status) {
       where += ' AND status = ?';
       params.push(status);
     }
 
+    if (lifecycle) {
+      where += " AND COALESCE(lifecycle, 'unknown') = ?";
+      params.push(lifecycle);
+    }
+
     if (q || bucket_no) {
       const searchConditions = [];
       if (q) {
@@ -880,6 +884,181 @@ router.get('/api/validators', async (req, res) => {
   }
 });
 
+// Get status transition history for a pubkey (validators and exit lists)
+router.get('/api/validators/:pubkey/history', async (req, res) => {
+  try {
+    const pubkey = normalizePubkey(req.params.pubkey);
+    const history = await getStatusHistory(pubkey);
+
+    res.json({
+      pubkey,
+      data: history
+    });
+  } catch (error) {
+    console.error('Error fetching status history:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Balance snapshots recorded by syncs for a pubkey, newest first (?source=validators|exit&limit=)
+router.get('/api/validators/:pubkey/balances', async (req, res) => {
+  try {
+    const pubkey = normalizePubkey(req.params.pubkey);
+    const { source, limit } = req.query;
+    const data = await getBalanceHistory(pubkey, { source, limit });
+
+    res.json({
+      pubkey,
+      data
+    });
+  } catch (error) {
+    console.error('Error fetching balance history:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Alerts raised during sync (slashed keys), newest first; ?all=1 includes acknowledged ones
+router.get('/api/alerts', async (req, res) => {
+  try {
+    const { all, limit } = req.query;
+    const data = await listAlerts({ includeAcknowledged: all === '1', limit });
+    res.json({ data });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Acknowledge alerts; body { ids?: number[] } (default every open alert)
+router.post('/api/alerts/acknowledge', async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return res.status(400).json({ error: 'ids must be an array' });
+    }
+    const acknowledged = await acknowledgeAlerts(ids && ids.map(id => parseInt(id, 10)));
+    res.json({ acknowledged });
+  } catch (error) {
+    console.error('Error acknowledging alerts:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Webhooks: register URLs that receive signed JSON payloads on sync events
+router.get('/api/webhooks', async (req, res) => {
+  try {
+    res.json({ data: await listWebhooks() });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Body { url, secret?, events?: string[], description?, enabled? }; the response carries the secret
+router.post('/api/webhooks', async (req, res) => {
+  try {
+    res.status(201).json(await createWebhook(req.body || {}));
+  } catch (error) {
+    console.error('Error creating webhook:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.get('/api/webhooks/:id', async (req, res) => {
+  try {
+    res.json(await getWebhook(parseInt(req.params.id, 10)));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.patch('/api/webhooks/:id', async (req, res) => {
+  try {
+    res.json(await updateWebhook(parseInt(req.params.id, 10), req.body || {}));
+  } catch (error) {
+    console.error('Error updating webhook:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.delete('/api/webhooks/:id', async (req, res) => {
+  try {
+    await deleteWebhook(parseInt(req.params.id, 10));
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Delivery log, newest first (?status=pending|delivered|failed&limit=)
+router.get('/api/webhooks/:id/deliveries', async (req, res) => {
+  try {
+    const { status, limit } = req.query;
+    res.json({ data: await listDeliveries(parseInt(req.params.id, 10), { status, limit }) });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Send a ping event and return the delivery after its first attempt
+router.post('/api/webhooks/:id/test', async (req, res) => {
+  try {
+    res.json(await sendTestDelivery(parseInt(req.params.id, 10)));
+  } catch (error) {
+    console.error('Error testing webhook:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Providers: staking clients shown in statistics and filters, detected on key upload
+// List entries carry validator counts and keys with unexpected withdrawal credentials
+router.get('/api/providers', async (req, res) => {
+  try {
+    res.json({ data: await listProvidersWithCounts() });
+  } catch (error) {
+    console.error('Error fetching providers:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Body { name, aliases?: string[], logo_url?, withdrawal_credentials?: string[], sort_order? }
+router.post('/api/providers', async (req, res) => {
+  try {
+    res.status(201).json(await createProvider(req.body || {}));
+  } catch (error) {
+    console.error('Error creating provider:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.get('/api/providers/:id', async (req, res) => {
+  try {
+    res.json(await getProvider(parseInt(req.params.id, 10)));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.patch('/api/providers/:id', async (req, res) => {
+  try {
+    res.json(await updateProvider(parseInt(req.params.id, 10), req.body || {}));
+  } catch (error) {
+    console.error('Error updating provider:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.delete('/api/providers/:id', async (req, res) => {
+  try {
+    await deleteProvider(parseInt(req.params.id, 10));
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting provider:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 function setupRoutes(app) {
   app.use(router);
 }
@@ -0,0 +1,131 @@
+const cronParser = require('cron-parser');
+const { SOURCE_VALIDATORS, SOURCE_EXIT } = require('./statusHistory');
+const { startSyncJob, listSyncJobs, SYNC_TARGETS } = require('./syncService');
+
+// Schedule config (.env): cron expression wins over interval; neither set disables scheduling
+const SYNC_SCHEDULE_CRON = process.env.SYNC_SCHEDULE_CRON || '';
+const SYNC_SCHEDULE_INTERVAL_MINUTES = parseFloat(process.env.SYNC_SCHEDULE_INTERVAL_MINUTES) || 0;
+const SYNC_SCHEDULE_TARGETS = (process.env.SYNC_SCHEDULE_TARGETS || `${SOURCE_VALIDATORS},${SOURCE_EXIT}`)
+  .split(',')
+  .map(target => target.trim())
+  .filter(target => SYNC_TARGETS[target]);
+// Beacon state scheduled syncs read from (head, finalized or justified)
+const SYNC_SCHEDULE_STATE_ID = process.env.SYNC_SCHEDULE_STATE_ID || 'head';
+const SCHEDULE_STATE_IDS = ['head', 'finalized', 'justified'];
+
+// setTimeout overflows above ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_MS = 2147483647;
+
+let timer = null;
+let nextRunAt = null;
+let lastRun = null;
+let tickInProgress = false;
+
+function getMode() {
+  if (SYNC_SCHEDULE_CRON) return 'cron';
+  if (SYNC_SCHEDULE_INTERVAL_MINUTES > 0) return 'interval';
+  return null;
+}
+
+function computeNextRun(from = new Date()) {
+  if (getMode() === 'cron') {
+    return cronParser.parseExpression(SYNC_SCHEDULE_CRON, { currentDate: from }).next().toDate();
+  }
+  return new Date(from.getTime() + SYNC_SCHEDULE_INTERVAL_MINUTES * 60 * 1000);
+}
+
+// Start one sync job per target; targets with an unfinished job are skipped
+async function runScheduledSync() {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  const run = { at: new Date(), jobs: [] };
+  try {
+    for (const type of SYNC_SCHEDULE_TARGETS) {
+      try {
+        const { job, created } = await startSyncJob(type, { trigger: 'schedule', stateId: SYNC_SCHEDULE_STATE_ID });
+        run.jobs.push({ type, jobId: job.id, skipped: !created });
+        if (!created) {
+          console.log(`Scheduled ${type} sync skipped, job ${job.id} still running`);
+        }
+      } catch (error) {
+        console.error(`Scheduled ${type} sync failed to start:`, error.message);
+        run.jobs.push({ type, jobId: null, skipped: true, error: error.message });
+      }
+    }
+  } finally {
+    lastRun = run;
+    tickInProgress = false;
+  }
+}
+
+function arm(delayMs) {
+  timer = setTimeout(async () => {
+    if (Date.now() < nextRunAt.getTime()) {
+      arm(nextRunAt.getTime() - Date.now());
+      return;
+    }
+    await runScheduledSync();
+    scheduleNext();
+  }, Math.min(Math.max(delayMs, 0), MAX_TIMER_MS));
+}
+
+function scheduleNext() {
+  nextRunAt = computeNextRun();
+  arm(nextRunAt.getTime() - Date.now());
+}
+
+// Start the scheduler if configured; returns false when scheduling is disabled
+async function startScheduler() {
+  const mode = getMode();
+  if (!mode || SYNC_SCHEDULE_TARGETS.length === 0) {
+    return false;
+  }
+
+  // Validate the cron expression and state up front so a typo fails loudly at startup
+  computeNextRun();
+  if (!SCHEDULE_STATE_IDS.includes(SYNC_SCHEDULE_STATE_ID)) {
+    throw new Error(`SYNC_SCHEDULE_STATE_ID must be one of ${SCHEDULE_STATE_IDS.join(', ')}`);
+  }
+
+  // Last scheduled run survives restarts through sync_jobs
+  const [lastJob] = await listSyncJobs({ trigger: 'schedule', limit: 1 });
+  if (lastJob) {
+    // created_at is UTC without a zone suffix
+    lastRun = { at: new Date(`${lastJob.created_at.replace(' ', 'T')}Z`), jobs: [] };
+  }
+
+  scheduleNext();
+  console.log(`Sync schedule (${mode}) enabled for ${SYNC_SCHEDULE_TARGETS.join(', ')}, next run ${nextRunAt.toISOString()}`);
+  return true;
+}
+
+function stopScheduler() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  nextRunAt = null;
+}
+
+function getScheduleInfo() {
+  const mode = getMode();
+  return {
+    enabled: timer !== null,
+    mode,
+    cron: mode === 'cron' ? SYNC_SCHEDULE_CRON : null,
+    intervalMinutes: mode === 'interval' ? SYNC_SCHEDULE_INTERVAL_MINUTES : null,
+    targets: SYNC_SCHEDULE_TARGETS,
+    stateId: SYNC_SCHEDULE_STATE_ID,
+    running: tickInProgress,
+    lastRun: lastRun ? lastRun.at.toISOString() : null,
+    lastRunJobs: lastRun ? lastRun.jobs : [],
+    nextRun: nextRunAt ? nextRunAt.toISOString() : null
+  };
+}
+
+module.exports = {
+  startScheduler,
+  stopScheduler,
+  getScheduleInfo
+};
@@ -0,0 +1,93 @@
+const axios = require('axios');
+const { requestWithFailover } = require('./beaconNodes');
+const { scheduleRequest } = require('./requestScheduler');
+
+// Mainnet timing constants
+const SLOTS_PER_EPOCH = 32;
+const SECONDS_PER_SLOT = 12;
+
+const DEFAULT_STATE_ID = 'head';
+const NAMED_STATES = ['head', 'finalized', 'justified', 'genesis'];
+// States that follow the chain; any other state (a slot, genesis) is a point in the past
+const LIVE_STATES = ['head', 'finalized', 'justified'];
+
+let genesis = null;
+
+// Genesis data from the beacon node, cached for the process lifetime
+// Returns { genesisTime (unix seconds), genesisValidatorsRoot, genesisForkVersion }
+async function getGenesis() {
+  if (genesis === null) {
+    try {
+      const response = await scheduleRequest(
+        () => requestWithFailover(baseUrl => axios.get(`${baseUrl}/eth/v1/beacon/genesis`, {
+          timeout: 10000,
+          headers: { 'Accept': 'application/json' }
+        })),
+        { label: 'Genesis request' }
+      );
+      const data = response.data.data;
+      genesis = {
+        genesisTime: parseInt(data.genesis_time, 10),
+        genesisValidatorsRoot: data.genesis_validators_root,
+        genesisForkVersion: data.genesis_fork_version
+      };
+    } catch (error) {
+      const genesisError = new Error(`Failed to read genesis from beacon node: ${error.message}`);
+      genesisError.status = 502;
+      throw genesisError;
+    }
+  }
+  return genesis;
+}
+
+// Genesis time (unix seconds)
+async function getGenesisTime() {
+  return (await getGenesis()).genesisTime;
+}
+
+// Resolve a user supplied state to a beacon API state_id
+// Accepts head, finalized, justified, genesis, a slot number, epoch:<n> or date:<ISO date>
+// (epochs and dates resolve to their first slot); empty means head
+// Returns null when the value is not a valid state
+async function resolveStateId(value) {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return DEFAULT_STATE_ID;
+  }
+  const input = String(value).trim();
+  const lower = input.toLowerCase();
+
+  if (NAMED_STATES.includes(lower)) return lower;
+  if (/^\d+$/.test(input)) return String(parseInt(input, 10));
+
+  const epochMatch = lower.match(/^epoch:(\d+)$/);
+  if (epochMatch) {
+    return String(parseInt(epochMatch[1], 10) * SLOTS_PER_EPOCH);
+  }
+
+  const dateMatch = input.match(/^date:(.+)$/i);
+  if (dateMatch) {
+    const timestamp = Date.parse(dateMatch[1]);
+    if (Number.isNaN(timestamp)) return null;
+    const genesis = await getGenesisTime();
+    const seconds = Math.floor(timestamp / 1000) - genesis;
+    if (seconds < 0) return null;
+    return String(Math.floor(seconds / SECONDS_PER_SLOT));
+  }
+
+  return null;
+}
+
+// Whether statuses read at stateId may replace the current ones
+function isLiveStateId(stateId) {
+  return LIVE_STATES.includes(stateId || DEFAULT_STATE_ID);
+}
+
+module.exports = {
+  SLOTS_PER_EPOCH,
+  SECONDS_PER_SLOT,
+  DEFAULT_STATE_ID,
+  getGenesis,
+  getGenesisTime,
+  resolveStateId,
+  isLiveStateId
+};
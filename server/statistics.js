@@ -0,0 +1,513 @@
+const { getDatabase } = require('./db');
+const { LIFECYCLE_STATES } = require('./beaconApi');
+const { getEtaContext, createEtaSummary, addToEtaSummary, summarizeEta } = require('./etaService');
+const { LATEST_EL_EXIT_REQUEST } = require('./elExitRequests');
+const { BATCH_REQUESTED_AT, slaSumColumns, slaFromRow } = require('./exitSla');
+const { listProviders } = require('./providers');
+
+// SUM columns counting each lifecycle state, aliased lc_<state>
+function lifecycleSumColumns(column) {
+  return LIFECYCLE_STATES
+    .map(state => `SUM(CASE WHEN COALESCE(${column}, 'unknown') = '${state}' THEN 1 ELSE 0 END) as lc_${state}`)
+    .join(',\n');
+}
+
+// Gwei to ETH, rounded to 4 decimals
+function gweiToEth(gwei) {
+  return Math.round((gwei || 0) / 1e5) / 1e4;
+}
+
+// Balance sums (gwei) matching the count columns, aliased eth_total, eth_effective_total,
+// eth_<rollup status> and eth_lc_<state>; inactiveStatuses are the statuses rolled up as inactive
+function ethSumColumns(prefix, inactiveStatuses) {
+  const balance = `COALESCE(${prefix}balance, 0)`;
+  const inactive = inactiveStatuses.map(status => `${prefix}status = '${status}'`).join(' OR ');
+  return [
+    `SUM(${balance}) as eth_total`,
+    `SUM(COALESCE(${prefix}effective_balance, 0)) as eth_effective_total`,
+    `SUM(CASE WHEN ${prefix}status = 'active' THEN ${balance} ELSE 0 END) as eth_active`,
+    `SUM(CASE WHEN ${prefix}status = 'exit_queue' THEN ${balance} ELSE 0 END) as eth_exit_queue`,
+    `SUM(CASE WHEN ${inactive} THEN ${balance} ELSE 0 END) as eth_inactive`,
+    ...LIFECYCLE_STATES.map(state => `SUM(CASE WHEN COALESCE(${prefix}lifecycle, 'unknown') = '${state}' THEN ${balance} ELSE 0 END) as eth_lc_${state}`)
+  ].join(',\n');
+}
+
+// ETH sums of a row, shaped like the counts: { total, effective_total, active, exit_queue, inactive, lifecycle }
+function ethFromRow(row) {
+  const lifecycle = {};
+  LIFECYCLE_STATES.forEach(state => {
+    lifecycle[state] = gweiToEth(row && row[`eth_lc_${state}`]);
+  });
+  return {
+    total: gweiToEth(row && row.eth_total),
+    effective_total: gweiToEth(row && row.eth_effective_total),
+    active: gweiToEth(row && row.eth_active),
+    exit_queue: gweiToEth(row && row.eth_exit_queue),
+    inactive: gweiToEth(row && row.eth_inactive),
+    lifecycle
+  };
+}
+
+// Empty counts with ETH sums in gwei, filled by addGroupedRow and finished by finishGrouped
+function createGrouped() {
+  return {
+    active: 0,
+    exit_queue: 0,
+    inactive: 0,
+    total: 0,
+    lifecycle: lifecycleFromRow(null),
+    eth: { total: 0, effective_total: 0, active: 0, exit_queue: 0, inactive: 0, lifecycle: lifecycleFromRow(null) }
+  };
+}
+
+// Add a { status, lifecycle, count, balance_gwei, effective_gwei } row grouped by status and lifecycle
+function addGroupedRow(target, row) {
+  target[row.status] = (target[row.status] || 0) + row.count;
+  target.lifecycle[row.lifecycle] = (target.lifecycle[row.lifecycle] || 0) + row.count;
+  target.total += row.count;
+  target.eth[row.status] = (target.eth[row.status] || 0) + (row.balance_gwei || 0);
+  target.eth.lifecycle[row.lifecycle] = (target.eth.lifecycle[row.lifecycle] || 0) + (row.balance_gwei || 0);
+  target.eth.total += row.balance_gwei || 0;
+  target.eth.effective_total += row.effective_gwei || 0;
+}
+
+// Convert the gwei sums of a grouped aggregate to ETH
+function finishGrouped(target) {
+  Object.keys(target.eth).forEach(key => {
+    if (key !== 'lifecycle') target.eth[key] = gweiToEth(target.eth[key]);
+  });
+  Object.keys(target.eth.lifecycle).forEach(state => {
+    target.eth.lifecycle[state] = gweiToEth(target.eth.lifecycle[state]);
+  });
+  return target;
+}
+
+// Recorded final sweeps: count and withdrawn gwei, aliased withdrawals_recorded / withdrawn_gwei
+function withdrawnSumColumns(prefix) {
+  return `SUM(CASE WHEN ${prefix}withdrawn_amount IS NOT NULL THEN 1 ELSE 0 END) as withdrawals_recorded,
+        COALESCE(SUM(${prefix}withdrawn_amount), 0) as withdrawn_gwei`;
+}
+
+// Withdrawn totals of a row as { withdrawals_recorded, withdrawn_eth } (ETH to 4 decimals)
+function withdrawnFromRow(row) {
+  return {
+    withdrawals_recorded: (row && row.withdrawals_recorded) || 0,
+    withdrawn_eth: gweiToEth(row && row.withdrawn_gwei)
+  };
+}
+
+// Collect lc_<state> columns of a row into { state: count }
+function lifecycleFromRow(row) {
+  const lifecycle = {};
+  LIFECYCLE_STATES.forEach(state => {
+    lifecycle[state] = (row && row[`lc_${state}`]) || 0;
+  });
+  return lifecycle;
+}
+
+// Validator statistics: per provider, per provider bucket, and totals
+async function getStatistics() {
+  const db = getDatabase();
+  
+  const stats = await new Promise((resolve, reject) => {
+    db.all(`
+      SELECT 
+        provider,
+        status,
+        COALESCE(lifecycle, 'unknown') as lifecycle,
+        COUNT(*) as count,
+        SUM(COALESCE(balance, 0)) as balance_gwei,
+        SUM(COALESCE(effective_balance, 0)) as effective_gwei
+      FROM validators
+      GROUP BY provider, status, COALESCE(lifecycle, 'unknown')
+      ORDER BY provider, status
+    `, (err, rows) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(rows);
+      }
+    });
+  });
+
+  // Format statistics: registered providers in display order (empty ones included), then any
+  // other provider names found on keys
+  const formatted = {};
+  (await listProviders()).forEach(provider => {
+    formatted[provider.name] = createGrouped();
+  });
+
+  stats.forEach(stat => {
+    if (!formatted[stat.provider]) {
+      formatted[stat.provider] = createGrouped();
+    }
+    addGroupedRow(formatted[stat.provider], stat);
+  });
+  Object.values(formatted).forEach(finishGrouped);
+
+  // Get total counts
+  const totals = await new Promise((resolve, reject) => {
+    db.get(`
+      SELECT 
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
+        SUM(CASE WHEN status = 'inactive' THEN 1 ELSE 0 END) as inactive,
+        ${lifecycleSumColumns('lifecycle')},
+        ${ethSumColumns('', ['inactive'])}
+      FROM validators
+    `, (err, row) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(row);
+      }
+    });
+  });
+
+  // Get last update time
+  const lastUpdate = await new Promise((resolve, reject) => {
+    db.get(`
+      SELECT MAX(updated_at) as last_update
+      FROM validators
+    `, (err, row) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(row?.last_update || null);
+      }
+    });
+  });
+
+  // Get bucket statistics for each provider
+  const bucketStats = await new Promise((resolve, reject) => {
+    db.all(`
+      SELECT 
+        provider,
+        bucket_no,
+        status,
+        COALESCE(lifecycle, 'unknown') as lifecycle,
+        COUNT(*) as count,
+        SUM(COALESCE(balance, 0)) as balance_gwei,
+        SUM(COALESCE(effective_balance, 0)) as effective_gwei
+      FROM validators
+      WHERE bucket_no IS NOT NULL
+      GROUP BY provider, bucket_no, status, COALESCE(lifecycle, 'unknown')
+      ORDER BY provider, bucket_no, status
+    `, (err, rows) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(rows);
+      }
+    });
+  });
+
+  // Format bucket statistics by provider
+  const byBucket = {};
+  
+  bucketStats.forEach((stat) => {
+    const provider = stat.provider;
+    const bucketNo = stat.bucket_no;
+
+    if (!byBucket[provider]) {
+      byBucket[provider] = {};
+    }
+    if (!byBucket[provider][bucketNo]) {
+      byBucket[provider][bucketNo] = createGrouped();
+    }
+
+    addGroupedRow(byBucket[provider][bucketNo], stat);
+  });
+  Object.values(byBucket).forEach(buckets => Object.values(buckets).forEach(finishGrouped));
+
+  return {
+    byProvider: formatted,
+    byBucket: byBucket,
+    totals: {
+      total: totals.total || 0,
+      active: totals.active || 0,
+      exit_queue: totals.exit_queue || 0,
+      inactive: totals.inactive || 0,
+      lifecycle: lifecycleFromRow(totals),
+      eth: ethFromRow(totals)
+    },
+    lastUpdate: lastUpdate
+  };
+}
+
+// Exit statistics: totals, per batch, and per provider / bucket within each batch
+async function getExitStatistics() {
+  const db = getDatabase();
+  
+  // Get overall statistics
+  const stats = await new Promise((resolve, reject) => {
+    db.get(`
+      SELECT 
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
+        SUM(CASE WHEN status = 'inactive' OR status = 'pending' THEN 1 ELSE 0 END) as inactive,
+        ${lifecycleSumColumns('lifecycle')},
+        ${ethSumColumns('', ['inactive', 'pending'])},
+        ${withdrawnSumColumns('')},
+        ${slaSumColumns()}
+      FROM exit_validators e
+      LEFT JOIN exit_batches b ON e.batch_id = b.id
+    `, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
+
+  // Get statistics by batch
+  const byBatch = await new Promise((resolve, reject) => {
+    const batches = [];
+    db.each(`
+      SELECT 
+        b.id,
+        b.filename,
+        b.uploaded_at,
+        ${BATCH_REQUESTED_AT} as requested_at,
+        b.deadline_at,
+        COUNT(e.id) as total,
+        SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
+        SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive,
+        ${lifecycleSumColumns('e.lifecycle')},
+        SUM(CASE WHEN e.exit_message IS NOT NULL THEN 1 ELSE 0 END) as exit_messages,
+        SUM(CASE WHEN e.exit_submission_status = 'accepted' THEN 1 ELSE 0 END) as exits_accepted,
+        SUM(CASE WHEN e.exit_signature_status = 'invalid' THEN 1 ELSE 0 END) as exit_signatures_invalid,
+        SUM(CASE WHEN (${LATEST_EL_EXIT_REQUEST}) IS NOT NULL THEN 1 ELSE 0 END) as exits_el_triggered,
+        SUM(CASE WHEN e.exit_submission_status = 'accepted' AND (${LATEST_EL_EXIT_REQUEST}) IS NULL THEN 1 ELSE 0 END) as exits_cl_triggered,
+        ${ethSumColumns('e.', ['inactive', 'pending'])},
+        ${withdrawnSumColumns('e.')},
+        ${slaSumColumns()}
+      FROM exit_batches b
+      LEFT JOIN exit_validators e ON b.id = e.batch_id
+      GROUP BY b.id
+      ORDER BY b.uploaded_at DESC
+    `, (err, row) => {
+      if (err) {
+        reject(err);
+      } else {
+        batches.push({
+          id: row.id,
+          filename: row.filename,
+          uploaded_at: row.uploaded_at,
+          requested_at: row.requested_at,
+          deadline_at: row.deadline_at,
+          total: row.total || 0,
+          active: row.active || 0,
+          exit_queue: row.exit_queue || 0,
+          inactive: row.inactive || 0,
+          lifecycle: lifecycleFromRow(row),
+          eth: ethFromRow(row),
+          exit_messages: row.exit_messages || 0,
+          exits_accepted: row.exits_accepted || 0,
+          exit_signatures_invalid: row.exit_signatures_invalid || 0,
+          exits_el_triggered: row.exits_el_triggered || 0,
+          exits_cl_triggered: row.exits_cl_triggered || 0,
+          ...withdrawnFromRow(row),
+          sla: slaFromRow(row)
+        });
+      }
+    }, (err) => {
+      if (err) reject(err);
+      else resolve(batches);
+    });
+  });
+
+  // Get detailed statistics by provider and bucket for each batch
+  const byBatchDetail = {};
+  for (const batch of byBatch) {
+    // By provider
+    const byProvider = await new Promise((resolve, reject) => {
+      const providers = {};
+      db.each(`
+        SELECT 
+          COALESCE(v.provider, 'Unknown') as provider,
+          COUNT(e.id) as total,
+          SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
+          SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
+          SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive,
+          ${lifecycleSumColumns('e.lifecycle')},
+          ${ethSumColumns('e.', ['inactive', 'pending'])},
+          ${withdrawnSumColumns('e.')},
+          ${slaSumColumns()}
+        FROM exit_validators e
+        LEFT JOIN exit_batches b ON e.batch_id = b.id
+        LEFT JOIN validators v ON e.pubkey = v.pubkey
+        WHERE e.batch_id = ?
+        GROUP BY v.provider
+      `, [batch.id], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          providers[row.provider] = {
+            total: row.total || 0,
+            active: row.active || 0,
+            exit_queue: row.exit_queue || 0,
+            inactive: row.inactive || 0,
+            lifecycle: lifecycleFromRow(row),
+            eth: ethFromRow(row),
+            ...withdrawnFromRow(row),
+            sla: slaFromRow(row)
+          };
+        }
+      }, (err) => {
+        if (err) reject(err);
+        else resolve(providers);
+      });
+    });
+
+    // By bucket
+    const byBucket = await new Promise((resolve, reject) => {
+      const buckets = {};
+      db.each(`
+        SELECT 
+          COALESCE(v.provider, 'Unknown') as provider,
+          COALESCE(v.bucket_no, 'Unknown') as bucket_no,
+          COUNT(e.id) as total,
+          SUM(CASE WHEN e.status = 'active' THEN 1 ELSE 0 END) as active,
+          SUM(CASE WHEN e.status = 'exit_queue' THEN 1 ELSE 0 END) as exit_queue,
+          SUM(CASE WHEN e.status = 'inactive' OR e.status = 'pending' THEN 1 ELSE 0 END) as inactive,
+          ${lifecycleSumColumns('e.lifecycle')},
+          ${ethSumColumns('e.', ['inactive', 'pending'])}
+        FROM exit_validators e
+        LEFT JOIN validators v ON e.pubkey = v.pubkey
+        WHERE e.batch_id = ? AND v.provider IS NOT NULL AND v.bucket_no IS NOT NULL
+        GROUP BY v.provider, v.bucket_no
+      `, [batch.id], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          if (!buckets[row.provider]) {
+            buckets[row.provider] = {};
+          }
+          buckets[row.provider][row.bucket_no] = {
+            total: row.total || 0,
+            active: row.active || 0,
+            exit_queue: row.exit_queue || 0,
+            inactive: row.inactive || 0,
+            lifecycle: lifecycleFromRow(row),
+            eth: ethFromRow(row)
+          };
+        }
+      }, (err) => {
+        if (err) reject(err);
+        else resolve(buckets);
+      });
+    });
+
+    byBatchDetail[batch.id] = {
+      byProvider,
+      byBucket
+    };
+  }
+
+  // ETA aggregates: overall, per batch, per provider within a batch, and per provider across batches
+  const etaContext = getEtaContext();
+  const etaTotal = createEtaSummary();
+  const etaByBatch = {};
+  const etaByProvider = {};
+  await new Promise((resolve, reject) => {
+    db.each(`
+      SELECT 
+        e.batch_id,
+        COALESCE(v.provider, 'Unknown') as provider,
+        e.lifecycle,
+        e.exit_epoch,
+        e.withdrawable_epoch
+      FROM exit_validators e
+      LEFT JOIN validators v ON e.pubkey = v.pubkey
+    `, (err, row) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      if (!etaByBatch[row.batch_id]) {
+        etaByBatch[row.batch_id] = { summary: createEtaSummary(), byProvider: {} };
+      }
+      const batchEta = etaByBatch[row.batch_id];
+      if (!batchEta.byProvider[row.provider]) {
+        batchEta.byProvider[row.provider] = createEtaSummary();
+      }
+      if (!etaByProvider[row.provider]) {
+        etaByProvider[row.provider] = createEtaSummary();
+      }
+      addToEtaSummary(etaTotal, row, etaContext);
+      addToEtaSummary(batchEta.summary, row, etaContext);
+      addToEtaSummary(batchEta.byProvider[row.provider], row, etaContext);
+      addToEtaSummary(etaByProvider[row.provider], row, etaContext);
+    }, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+
+  byBatch.forEach(batch => {
+    const batchEta = etaByBatch[batch.id];
+    batch.eta = summarizeEta(batchEta ? batchEta.summary : createEtaSummary());
+    Object.keys(byBatchDetail[batch.id].byProvider).forEach(provider => {
+      const providerEta = batchEta && batchEta.byProvider[provider];
+      byBatchDetail[batch.id].byProvider[provider].eta = summarizeEta(providerEta || createEtaSummary());
+    });
+  });
+
+  // Withdrawn totals per provider across batches
+  const withdrawnByProvider = {};
+  await new Promise((resolve, reject) => {
+    db.each(`
+      SELECT 
+        COALESCE(v.provider, 'Unknown') as provider,
+        ${withdrawnSumColumns('e.')}
+      FROM exit_validators e
+      LEFT JOIN validators v ON e.pubkey = v.pubkey
+      GROUP BY v.provider
+    `, (err, row) => {
+      if (err) reject(err);
+      else withdrawnByProvider[row.provider] = withdrawnFromRow(row);
+    }, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+
+  // Get last update time
+  const lastUpdate = await new Promise((resolve, reject) => {
+    db.get(`
+      SELECT MAX(updated_at) as last_update 
+      FROM exit_validators
+    `, (err, row) => {
+      if (err) reject(err);
+      else resolve(row?.last_update || null);
+    });
+  });
+
+  return {
+    totals: {
+      total: stats.total || 0,
+      active: stats.active || 0,
+      exit_queue: stats.exit_queue || 0,
+      inactive: stats.inactive || 0,
+      lifecycle: lifecycleFromRow(stats),
+      eth: ethFromRow(stats),
+      eta: summarizeEta(etaTotal),
+      ...withdrawnFromRow(stats),
+      sla: slaFromRow(stats)
+    },
+    byBatch: byBatch,
+    byBatchDetail: byBatchDetail,
+    etaByProvider: Object.fromEntries(
+      Object.entries(etaByProvider).map(([provider, summary]) => [provider, summarizeEta(summary)])
+    ),
+    withdrawnByProvider,
+    lastUpdate: lastUpdate
+  };
+}
+
+module.exports = {
+  getStatistics,
+  getExitStatistics
+};
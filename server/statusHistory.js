@@ -0,0 +1,69 @@
+const { getDatabase, dbPrepare } = require('./db');
+
+const SOURCE_VALIDATORS = 'validators';
+const SOURCE_EXIT = 'exit';
+
+// Load current statuses for a list of pubkeys
+// Returns rows of { pubkey, batch_id, status, beacon_status, slashed } (batch_id is null for validators)
+function getCurrentStatuses(source, pubkeys) {
+  return new Promise((resolve, reject) => {
+    if (pubkeys.length === 0) {
+      resolve([]);
+      return;
+    }
+    const db = getDatabase();
+    const placeholders = pubkeys.map(() => '?').join(',');
+    const query = source === SOURCE_EXIT
+      ? `SELECT pubkey, batch_id, status, beacon_status, slashed FROM exit_validators WHERE pubkey IN (${placeholders})`
+      : `SELECT pubkey, NULL as batch_id, status, beacon_status, slashed FROM validators WHERE pubkey IN (${placeholders})`;
+
+    db.all(query, pubkeys, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+// Prepare an insert statement for status transitions
+// Must be used inside the caller's dbTransaction and finalized before it returns
+function prepareHistoryInsert() {
+  return dbPrepare(`
+    INSERT INTO status_history (pubkey, source, batch_id, old_status, new_status, old_beacon_status, new_beacon_status)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+}
+
+// Get all recorded transitions for a pubkey (oldest first)
+function getStatusHistory(pubkey) {
+  return new Promise((resolve, reject) => {
+    const db = getDatabase();
+    db.all(`
+      SELECT
+        h.id,
+        h.pubkey,
+        h.source,
+        h.batch_id,
+        b.filename as batch_filename,
+        h.old_status,
+        h.new_status,
+        h.old_beacon_status,
+        h.new_beacon_status,
+        h.changed_at
+      FROM status_history h
+      LEFT JOIN exit_batches b ON h.batch_id = b.id
+      WHERE h.pubkey = ?
+      ORDER BY h.changed_at ASC, h.id ASC
+    `, [pubkey], (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+module.exports = {
+  SOURCE_VALIDATORS,
+  SOURCE_EXIT,
+  getCurrentStatuses,
+  prepareHistoryInsert,
+  getStatusHistory
+};
@@ -0,0 +1,469 @@
+const { dbRun, dbGet, dbAll, dbPrepare, dbTransaction, withWriteLock } = require('./db');
+const {
+  getValidatorStatusesChecked,
+  mapBeaconStatus,
+  mapLifecycleStatus
+} = require('./beaconApi');
+const {
+  SOURCE_VALIDATORS,
+  SOURCE_EXIT,
+  getCurrentStatuses,
+  prepareHistoryInsert
+} = require('./statusHistory');
+const { prepareSnapshotInsert } = require('./balanceSnapshots');
+const { ALERT_SLASHING, prepareAlertInsert, listAlerts } = require('./alerts');
+const { EXITING_AT_SET } = require('./exitSla');
+const { isLiveStateId } = require('./stateId');
+const { normalizePubkey, sqlNow } = require('./utils');
+const events = require('./events');
+
+// Sync batching (.env)
+const SYNC_BATCH_SIZE = parseInt(process.env.SYNC_BATCH_SIZE, 10) || 500;
+const SYNC_BATCH_DELAY_MS = parseInt(process.env.SYNC_BATCH_DELAY_MS, 10) >= 0
+  ? parseInt(process.env.SYNC_BATCH_DELAY_MS, 10)
+  : 1000;
+
+// Job statuses
+const JOB_QUEUED = 'queued';
+const JOB_RUNNING = 'running';
+const JOB_COMPLETED = 'completed';
+// Finished, but some keys could not be fetched or written (see sync_job_errors)
+const JOB_PARTIAL = 'partial';
+// Stopped by an error, or no key could be synced at all
+const JOB_FAILED = 'failed';
+const JOB_CANCELLED = 'cancelled';
+
+// Sync targets, keyed by job type
+// notFoundStatus is the rollup status written when the beacon node does not return a key
+// extraSet lists optional SET expressions, each taking the new lifecycle as its one parameter
+const SYNC_TARGETS = {
+  [SOURCE_VALIDATORS]: {
+    table: 'validators',
+    source: SOURCE_VALIDATORS,
+    notFoundStatus: 'inactive',
+    pubkeyQuery: 'SELECT id, pubkey FROM validators WHERE id > ? ORDER BY id',
+    countQuery: 'SELECT COUNT(*) as total FROM validators'
+  },
+  [SOURCE_EXIT]: {
+    table: 'exit_validators',
+    source: SOURCE_EXIT,
+    notFoundStatus: 'unknown',
+    // Same pubkey may appear in several batches, sync it once
+    extraSet: [
+      // Keep the balance a validator had before the final sweep zeroed it (fallback withdrawn amount)
+      "withdrawn_amount = CASE WHEN withdrawn_amount IS NULL AND ? = 'withdrawn' AND balance > 0 THEN balance ELSE withdrawn_amount END",
+      // When the key reached active_exiting, for exit deadlines
+      EXITING_AT_SET
+    ],
+    pubkeyQuery: `
+      SELECT MIN(id) as id, pubkey FROM exit_validators
+      GROUP BY pubkey
+      HAVING MIN(id) > ?
+      ORDER BY id
+    `,
+    countQuery: 'SELECT COUNT(DISTINCT pubkey) as total FROM exit_validators'
+  }
+};
+
+// Beacon chain fields persisted during sync
+const BEACON_FIELDS = [
+  'validator_index',
+  'balance',
+  'effective_balance',
+  'activation_epoch',
+  'exit_epoch',
+  'withdrawable_epoch',
+  'withdrawal_credentials',
+  'slashed'
+];
+
+// SET clause for BEACON_FIELDS (keeps the last known value when a key is not returned)
+const BEACON_FIELDS_SET = BEACON_FIELDS.map(field => `${field} = COALESCE(?, ${field})`).join(', ');
+
+// Jobs executing in this process: jobId -> { cancelRequested }
+const runningJobs = new Map();
+
+// Jobs at a past state (a slot, epoch or date) only record balance snapshots; the live columns,
+// status history and slashing alerts follow head, finalized and justified syncs only
+function isLiveJob(job) {
+  return isLiveStateId(job.state_id);
+}
+
+// Finished with statuses written for at least some keys
+function isJobSynced(job) {
+  return job.status === JOB_COMPLETED || job.status === JOB_PARTIAL;
+}
+
+// Terminal fields for a job that went through all its batches
+function finishedJobFields(processed, failed) {
+  if (failed === 0) {
+    return { status: JOB_COMPLETED };
+  }
+  if (processed === 0) {
+    return { status: JOB_FAILED, error: `All ${failed} keys failed to sync` };
+  }
+  return { status: JOB_PARTIAL, error: `${failed} of ${processed + failed} keys failed to sync` };
+}
+
+function getSyncJob(jobId) {
+  return dbGet('SELECT * FROM sync_jobs WHERE id = ?', [jobId]);
+}
+
+function getSyncJobErrors(jobId, limit = 100) {
+  return dbAll(`
+    SELECT pubkey, batch_no, error, created_at
+    FROM sync_job_errors
+    WHERE job_id = ?
+    ORDER BY id
+    LIMIT ?
+  `, [jobId, limit]);
+}
+
+function listSyncJobs({ type, active, trigger, limit = 20 } = {}) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (type) {
+    where += ' AND type = ?';
+    params.push(type);
+  }
+  if (trigger) {
+    where += ' AND trigger = ?';
+    params.push(trigger);
+  }
+  if (active) {
+    where += ' AND status IN (?, ?)';
+    params.push(JOB_QUEUED, JOB_RUNNING);
+  }
+  return dbAll(`SELECT * FROM sync_jobs ${where} ORDER BY id DESC LIMIT ?`, [...params, limit]);
+}
+
+// Update a job row and publish the new state on the event bus
+async function updateJob(jobId, fields) {
+  const keys = Object.keys(fields);
+  const assignments = keys.map(key => `${key} = ?`).join(', ');
+  await dbRun(
+    `UPDATE sync_jobs SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [...keys.map(key => fields[key]), jobId]
+  );
+  events.emit('sync-job', await getSyncJob(jobId));
+}
+
+async function recordJobErrors(jobId, batchNo, errors) {
+  if (errors.length === 0) return;
+  await dbTransaction(async () => {
+    const stmt = dbPrepare(`
+      INSERT INTO sync_job_errors (job_id, pubkey, batch_no, error)
+      VALUES (?, ?, ?, ?)
+    `);
+    try {
+      for (const { pubkey, error } of errors) {
+        await stmt.run([jobId, pubkey, batchNo, error]);
+      }
+    } finally {
+      await stmt.finalize();
+    }
+  });
+}
+
+// Record pubkeys whose status differed between beacon nodes (quorum mode)
+async function recordDiscrepancies(jobId, source, discrepancies) {
+  if (discrepancies.length === 0) return;
+  await dbTransaction(async () => {
+    const stmt = dbPrepare(`
+      INSERT INTO status_discrepancies (job_id, pubkey, source, node_statuses)
+      VALUES (?, ?, ?, ?)
+    `);
+    try {
+      for (const { pubkey, statuses } of discrepancies) {
+        await stmt.run([jobId, pubkey, source, JSON.stringify(statuses)]);
+      }
+    } finally {
+      await stmt.finalize();
+    }
+  });
+}
+
+// List recorded discrepancies, newest first
+async function getStatusDiscrepancies({ jobId, pubkey, limit = 100 } = {}) {
+  let where = 'WHERE 1=1';
+  const params = [];
+  if (jobId) {
+    where += ' AND job_id = ?';
+    params.push(jobId);
+  }
+  if (pubkey) {
+    where += ' AND pubkey = ?';
+    params.push(pubkey);
+  }
+  const rows = await dbAll(`
+    SELECT id, job_id, pubkey, source, node_statuses, detected_at
+    FROM status_discrepancies
+    ${where}
+    ORDER BY id DESC
+    LIMIT ?
+  `, [...params, limit]);
+  return rows.map(row => ({ ...row, node_statuses: JSON.parse(row.node_statuses) }));
+}
+
+// Write fetched statuses for one batch, recording status transitions, balance snapshots and slashing alerts
+// Keys in fetchFailed ({ pubkey, error }) keep their last known status and only get fetch_error set
+// Jobs at a past state write the balance snapshots only (see isLiveJob)
+// Returns { errors, transitions, slashings } (per-pubkey update errors, recorded transitions and newly slashed pubkeys)
+async function applyStatuses(job, target, pubkeys, statuses, fetchFailed) {
+  // Convert array response to map (pubkey -> record with rollup status and lifecycle)
+  const statusMap = {};
+  statuses.forEach(status => {
+    const normalizedApiPubkey = normalizePubkey(status.pubkey);
+    statusMap[normalizedApiPubkey] = {
+      ...status,
+      status: mapBeaconStatus(status.status),
+      beacon_status: status.status,
+      lifecycle: mapLifecycleStatus(status.status)
+    };
+  });
+  const notFound = { status: target.notFoundStatus, beacon_status: null, lifecycle: 'unknown' };
+  const failedMap = {};
+  fetchFailed.forEach(({ pubkey, error }) => {
+    failedMap[normalizePubkey(pubkey)] = error;
+  });
+  const fetchedPubkeys = pubkeys.filter(pubkey => failedMap[pubkey] === undefined);
+  const live = isLiveJob(job);
+
+  // Current statuses, to record transitions
+  const previous = live ? await getCurrentStatuses(target.source, fetchedPubkeys) : [];
+  const updatedPubkeys = live ? fetchedPubkeys : [];
+  const failedPubkeys = live ? Object.keys(failedMap) : [];
+
+  return dbTransaction(async () => {
+    const errors = [];
+    const transitions = [];
+    const slashings = new Set();
+    // Keys whose UPDATE failed keep their old row: no snapshot, transition or alert for them
+    const notUpdated = new Set();
+
+    const stmt = dbPrepare(`
+      UPDATE ${target.table}
+      SET ${target.extraSet ? `${target.extraSet.join(', ')}, ` : ''}status = ?, beacon_status = ?, lifecycle = ?, ${BEACON_FIELDS_SET}, fetch_error = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE pubkey = ?
+    `);
+    const failedStmt = dbPrepare(`UPDATE ${target.table} SET fetch_error = ? WHERE pubkey = ?`);
+    const historyStmt = prepareHistoryInsert();
+    const snapshotStmt = prepareSnapshotInsert();
+    const alertStmt = prepareAlertInsert();
+
+    try {
+      for (const pubkey of failedPubkeys) {
+        await failedStmt.run([failedMap[pubkey], pubkey]);
+      }
+
+      for (const pubkey of updatedPubkeys) {
+        const current = statusMap[pubkey] || notFound;
+        try {
+          await stmt.run([
+            // extraSet expressions take the new lifecycle; their column references still see the old row
+            ...(target.extraSet ? target.extraSet.map(() => current.lifecycle) : []),
+            current.status, current.beacon_status, current.lifecycle,
+            ...BEACON_FIELDS.map(field => current[field] ?? null),
+            pubkey
+          ]);
+        } catch (err) {
+          console.error(`Error updating ${pubkey}:`, err.message);
+          errors.push({ pubkey, error: err.message });
+          notUpdated.add(pubkey);
+        }
+      }
+
+      // Keys the node did not return have no balance to record
+      for (const pubkey of fetchedPubkeys) {
+        if (notUpdated.has(pubkey)) continue;
+        const current = statusMap[pubkey];
+        if (current && current.balance !== null && current.balance !== undefined) {
+          await snapshotStmt.run([job.id, target.source, pubkey, current.balance, current.effective_balance, job.state_id || 'head']);
+        }
+      }
+
+      // One row per (batch, pubkey) for exit lists
+      for (const row of previous) {
+        if (notUpdated.has(row.pubkey)) continue;
+        const current = statusMap[row.pubkey] || notFound;
+        if (current.slashed && !row.slashed && !slashings.has(row.pubkey)) {
+          await alertStmt.run([ALERT_SLASHING, row.pubkey, target.source, current.beacon_status]);
+          slashings.add(row.pubkey);
+        }
+        if (row.status !== current.status || row.beacon_status !== current.beacon_status) {
+          await historyStmt.run([
+            row.pubkey, target.source, row.batch_id,
+            row.status, current.status,
+            row.beacon_status, current.beacon_status
+          ]);
+          transitions.push({
+            pubkey: row.pubkey,
+            batch_id: row.batch_id,
+            old_status: row.status,
+            new_status: current.status,
+            old_beacon_status: row.beacon_status,
+            new_beacon_status: current.beacon_status
+          });
+        }
+      }
+    } finally {
+      await Promise.all([stmt, failedStmt, historyStmt, snapshotStmt, alertStmt].map(statement => statement.finalize()));
+    }
+    return { errors, transitions, slashings: [...slashings] };
+  });
+}
+
+// Execute (or resume) a job from its stored cursor
+async function runJob(jobId) {
+  if (runningJobs.has(jobId)) return;
+  const control = { cancelRequested: false };
+  runningJobs.set(jobId, control);
+
+  try {
+    const job = await getSyncJob(jobId);
+    const target = SYNC_TARGETS[job.type];
+    if (!target) {
+      throw new Error(`Unknown sync job type: ${job.type}`);
+    }
+
+    await updateJob(jobId, {
+      status: JOB_RUNNING,
+      started_at: job.started_at || sqlNow()
+    });
+
+    const rows = await dbAll(target.pubkeyQuery, [job.cursor || 0]);
+    let { processed, failed, completed_batches: completedBatches } = job;
+
+    for (let i = 0; i < rows.length; i += job.batch_size) {
+      if (control.cancelRequested) {
+        await updateJob(jobId, { status: JOB_CANCELLED, finished_at: sqlNow() });
+        return;
+      }
+
+      const batch = rows.slice(i, i + job.batch_size);
+      const pubkeys = batch.map(row => normalizePubkey(row.pubkey));
+      const batchNo = completedBatches + 1;
+
+      try {
+        const { statuses, failed: fetchFailed, discrepancies } = await getValidatorStatusesChecked(pubkeys, job.state_id || 'head');
+        if (discrepancies.length > 0) {
+          console.warn(`[sync job ${jobId}] ${discrepancies.length} pubkeys differ between beacon nodes in batch ${batchNo}`);
+          await recordDiscrepancies(jobId, target.source, discrepancies);
+        }
+        const { errors, transitions, slashings } = await applyStatuses(job, target, pubkeys, statuses, fetchFailed);
+        const batchErrors = [
+          ...fetchFailed.map(({ pubkey, error }) => ({ pubkey, error: `Fetch failed: ${error}` })),
+          ...errors
+        ];
+        await recordJobErrors(jobId, batchNo, batchErrors);
+        events.emit('status-transitions', { jobId, type: job.type, transitions });
+        if (slashings.length > 0) {
+          console.warn(`[sync job ${jobId}] ${slashings.length} newly slashed validators in batch ${batchNo}`);
+          events.emit('alerts', await listAlerts({ pubkeys: slashings }));
+        }
+        processed += pubkeys.length - batchErrors.length;
+        failed += batchErrors.length;
+      } catch (error) {
+        console.error(`[sync job ${jobId}] Error processing batch ${batchNo}/${job.total_batches}:`, error.message);
+        await recordJobErrors(jobId, batchNo, pubkeys.map(pubkey => ({ pubkey, error: error.message })));
+        failed += pubkeys.length;
+      }
+
+      completedBatches = batchNo;
+      await updateJob(jobId, {
+        processed,
+        failed,
+        completed_batches: completedBatches,
+        cursor: batch[batch.length - 1].id
+      });
+
+      // Small delay between batches to avoid overwhelming the API
+      if (i + job.batch_size < rows.length) {
+        await new Promise(resolve => setTimeout(resolve, SYNC_BATCH_DELAY_MS));
+      }
+    }
+
+    await updateJob(jobId, { ...finishedJobFields(processed, failed), finished_at: sqlNow() });
+  } catch (error) {
+    console.error(`[sync job ${jobId}] Sync failed:`, error);
+    await updateJob(jobId, {
+      status: JOB_FAILED,
+      error: error.message,
+      finished_at: sqlNow()
+    }).catch(() => {});
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+// Create a sync job reading statuses at stateId and start it in the background
+// Returns the existing job if one of the same type is still unfinished
+async function startSyncJob(type, { trigger = 'manual', stateId = 'head' } = {}) {
+  const target = SYNC_TARGETS[type];
+  if (!target) {
+    throw new Error(`Unknown sync job type: ${type}`);
+  }
+
+  // Check and insert under the write lock, so two callers at the same moment cannot both create a job
+  const { existing, jobId } = await withWriteLock(async () => {
+    const [existing] = await listSyncJobs({ type, active: true, limit: 1 });
+    if (existing) {
+      return { existing };
+    }
+    const { total } = await dbGet(target.countQuery);
+    const { lastID } = await dbRun(`
+      INSERT INTO sync_jobs (type, status, total, batch_size, total_batches, trigger, state_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [type, JOB_QUEUED, total, SYNC_BATCH_SIZE, Math.ceil(total / SYNC_BATCH_SIZE), trigger, stateId]);
+    return { jobId: lastID };
+  });
+  if (existing) {
+    return { job: existing, created: false };
+  }
+
+  runJob(jobId);
+  return { job: await getSyncJob(jobId), created: true };
+}
+
+// Request cancellation; the job stops before its next batch
+async function cancelSyncJob(jobId) {
+  const job = await getSyncJob(jobId);
+  if (!job) return null;
+
+  const control = runningJobs.get(job.id);
+  if (control) {
+    control.cancelRequested = true;
+  } else if (job.status === JOB_QUEUED || job.status === JOB_RUNNING) {
+    await updateJob(job.id, { status: JOB_CANCELLED, finished_at: sqlNow() });
+  }
+  return getSyncJob(job.id);
+}
+
+// Resume jobs left unfinished by a previous server process
+async function resumeSyncJobs() {
+  const jobs = await listSyncJobs({ active: true, limit: 100 });
+  jobs.forEach(job => {
+    console.log(`Resuming sync job ${job.id} (${job.type}) at batch ${job.completed_batches + 1}/${job.total_batches}`);
+    runJob(job.id);
+  });
+  return jobs.length;
+}
+
+module.exports = {
+  SYNC_TARGETS,
+  JOB_QUEUED,
+  JOB_RUNNING,
+  JOB_COMPLETED,
+  JOB_PARTIAL,
+  JOB_FAILED,
+  JOB_CANCELLED,
+  isJobSynced,
+  isLiveJob,
+  getSyncJob,
+  getSyncJobErrors,
+  getStatusDiscrepancies,
+  listSyncJobs,
+  startSyncJob,
+  cancelSyncJob,
+  resumeSyncJobs
+};
@@ -0,0 +1,90 @@
+const { dbAll } = require('./db');
+
+// Checks on parsed CSV rows before they are written (?dryRun=true returns the report only)
+const PUBKEY_PATTERN = /^0x[0-9a-f]{96}$/;
+// Listed rows per report section; counts always cover everything
+const REPORT_LIMIT = 200;
+
+const TARGET_VALIDATORS = 'validators';
+const TARGET_EXIT = 'exit';
+
+function section(items) {
+  return { count: items.length, items: items.slice(0, REPORT_LIMIT) };
+}
+
+// pubkey -> column of the first matching row in table, queried in chunks
+async function lookup(table, column, pubkeys, orderBy = '') {
+  const found = new Map();
+  for (let i = 0; i < pubkeys.length; i += 500) {
+    const chunk = pubkeys.slice(i, i + 500);
+    const rows = await dbAll(
+      `SELECT pubkey, ${column} FROM ${table} WHERE pubkey IN (${chunk.map(() => '?').join(',')}) ${orderBy}`,
+      chunk
+    );
+    rows.forEach(row => {
+      if (!found.has(row.pubkey)) found.set(row.pubkey, row[column]);
+    });
+  }
+  return found;
+}
+
+// Check rows from parseCSV for a validators or exit upload
+// Returns { accepted, report }: accepted holds the valid rows, first occurrence of each key; the
+// report lists invalid pubkeys, duplicates within the file, keys already stored and, for
+// validators, keys changing provider or, for exits, keys missing from validators
+async function checkUpload(rows, target) {
+  const invalid = [];
+  const duplicates = [];
+  const accepted = [];
+  const firstLine = new Map();
+  rows.forEach(row => {
+    if (!PUBKEY_PATTERN.test(row.pubkey)) {
+      invalid.push({ line: row.line, pubkey: row.pubkey });
+    } else if (firstLine.has(row.pubkey)) {
+      duplicates.push({ line: row.line, pubkey: row.pubkey, first_line: firstLine.get(row.pubkey) });
+    } else {
+      firstLine.set(row.pubkey, row.line);
+      accepted.push(row);
+    }
+  });
+
+  const pubkeys = accepted.map(row => row.pubkey);
+  const report = {
+    rows: rows.length,
+    valid: accepted.length,
+    invalid: section(invalid),
+    duplicates: section(duplicates)
+  };
+
+  if (target === TARGET_EXIT) {
+    const batches = await lookup('exit_validators', 'batch_id', pubkeys, 'ORDER BY batch_id DESC');
+    const known = await lookup('validators', 'provider', pubkeys);
+    report.existing = section(accepted
+      .filter(row => batches.has(row.pubkey))
+      .map(row => ({ line: row.line, pubkey: row.pubkey, batch_id: batches.get(row.pubkey) })));
+    report.notInValidators = section(accepted
+      .filter(row => !known.has(row.pubkey))
+      .map(row => ({ line: row.line, pubkey: row.pubkey })));
+  } else {
+    const providers = await lookup('validators', 'provider', pubkeys);
+    const existing = accepted.filter(row => providers.has(row.pubkey));
+    report.existing = section(existing.map(row => ({ line: row.line, pubkey: row.pubkey, provider: providers.get(row.pubkey) })));
+    report.providerChanges = section(existing
+      .filter(row => providers.get(row.pubkey) !== row.provider)
+      .map(row => ({ line: row.line, pubkey: row.pubkey, from: providers.get(row.pubkey), to: row.provider })));
+  }
+
+  return { accepted, report };
+}
+
+// ?dryRun=true (or 1)
+function isDryRun(req) {
+  return req.query.dryRun === 'true' || req.query.dryRun === '1';
+}
+
+module.exports = {
+  TARGET_VALIDATORS,
+  TARGET_EXIT,
+  checkUpload,
+  isDryRun
+};
@@ -6,8 +6,14 @@ function normalizePubkey(pubkey) {
   return normalized.toLowerCase();
 }
 
+// Current time in SQLite CURRENT_TIMESTAMP format (UTC, 'YYYY-MM-DD HH:MM:SS')
+function sqlNow(date = new Date()) {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
 module.exports = {
-  normalizePubkey
+  normalizePubkey,
+  sqlNow
 };
 
 
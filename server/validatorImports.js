@@ -0,0 +1,204 @@
+const { dbAll, dbGet, dbRun, dbPrepare, dbTransaction } = require('./db');
+
+// Validator imports: every CSV or key file upload is recorded in imports, each key it creates or
+// changes in import_changes (with the previous values), and validators.import_id points at the
+// import that created or last changed the key, so an import can be reverted
+const SOURCE_CSV = 'csv';
+const SOURCE_KEY_FILES = 'key_files';
+// scripts/loadCSV.js and scripts/loadAllCSV.js
+const SOURCE_SCRIPT = 'script';
+
+const ACTION_CREATED = 'created';
+const ACTION_UPDATED = 'updated';
+
+// Columns an import may set; the beacon fields are left to sync
+const IMPORT_COLUMNS = [
+  'provider',
+  'json_filename',
+  'bucket_no',
+  'derivation_path',
+  'deposit_withdrawal_credentials',
+  'deposit_amount'
+];
+
+function notFound(id) {
+  const error = new Error(`Import ${id} not found`);
+  error.status = 404;
+  return error;
+}
+
+function toImport(row) {
+  return { ...row, providers: row.providers ? JSON.parse(row.providers) : {} };
+}
+
+async function getImportRow(id) {
+  const row = await dbGet('SELECT * FROM imports WHERE id = ?', [id]);
+  if (!row) throw notFound(id);
+  return row;
+}
+
+// Write validator records as one import, in one transaction. Records hold pubkey and any IMPORT_COLUMNS;
+// fields left null keep the stored value, new keys without a provider get default_provider.
+// Returns { importId, inserted, updated, unchanged, byProvider } (byProvider counts all keys of the import)
+function importValidators({ filename, source, rowCount, records }) {
+  return dbTransaction(async () => {
+    const created = await dbRun(
+      'INSERT INTO imports (filename, source, row_count) VALUES (?, ?, ?)',
+      [filename, source, rowCount]
+    );
+    const importId = created.lastID;
+
+    const existing = new Map();
+    const pubkeys = records.map(record => record.pubkey);
+    for (let i = 0; i < pubkeys.length; i += 500) {
+      const chunk = pubkeys.slice(i, i + 500);
+      const rows = await dbAll(
+        `SELECT pubkey, import_id, ${IMPORT_COLUMNS.join(', ')} FROM validators WHERE pubkey IN (${chunk.map(() => '?').join(',')})`,
+        chunk
+      );
+      rows.forEach(row => existing.set(row.pubkey, row));
+    }
+
+    const insertStmt = dbPrepare(`
+      INSERT INTO validators (pubkey, status, ${IMPORT_COLUMNS.join(', ')}, import_id, updated_at)
+      VALUES (?, 'pending', ${IMPORT_COLUMNS.map(() => '?').join(', ')}, ?, CURRENT_TIMESTAMP)
+    `);
+    const changeStmt = dbPrepare('INSERT INTO import_changes (import_id, pubkey, action, previous) VALUES (?, ?, ?, ?)');
+    // One UPDATE per set of changed columns
+    const updateStmts = new Map();
+    const updateStmt = changed => {
+      const key = changed.join(',');
+      if (!updateStmts.has(key)) {
+        updateStmts.set(key, dbPrepare(
+          `UPDATE validators SET ${changed.map(column => `${column} = ?`).join(', ')}, import_id = ? WHERE pubkey = ?`
+        ));
+      }
+      return updateStmts.get(key);
+    };
+
+    let inserted = 0;
+    let updated = 0;
+    let unchanged = 0;
+    const byProvider = {};
+    try {
+      for (const record of records) {
+        const previous = existing.get(record.pubkey);
+        let provider;
+        if (previous) {
+          const changed = IMPORT_COLUMNS.filter(column =>
+            record[column] !== undefined && record[column] !== null && record[column] !== previous[column]
+          );
+          provider = changed.includes('provider') ? record.provider : previous.provider;
+          if (changed.length === 0) {
+            unchanged++;
+          } else {
+            const before = { import_id: previous.import_id };
+            changed.forEach(column => {
+              before[column] = previous[column];
+            });
+            await updateStmt(changed).run([...changed.map(column => record[column]), importId, record.pubkey]);
+            await changeStmt.run([importId, record.pubkey, ACTION_UPDATED, JSON.stringify(before)]);
+            updated++;
+          }
+        } else {
+          provider = record.provider || record.default_provider;
+          await insertStmt.run([
+            record.pubkey,
+            ...IMPORT_COLUMNS.map(column => (column === 'provider' ? provider : record[column] ?? null)),
+            importId
+          ]);
+          await changeStmt.run([importId, record.pubkey, ACTION_CREATED, null]);
+          existing.set(record.pubkey, { ...record, provider, import_id: importId });
+          inserted++;
+        }
+        byProvider[provider] = (byProvider[provider] || 0) + 1;
+      }
+    } finally {
+      await Promise.all([insertStmt, changeStmt, ...updateStmts.values()].map(stmt => stmt.finalize()));
+    }
+
+    await dbRun(
+      'UPDATE imports SET inserted = ?, updated = ?, unchanged = ?, providers = ? WHERE id = ?',
+      [inserted, updated, unchanged, JSON.stringify(byProvider), importId]
+    );
+    return { importId, inserted, updated, unchanged, byProvider };
+  });
+}
+
+// Imports, newest first; key_count counts the keys still pointing at each import
+async function listImports({ limit = 50 } = {}) {
+  const rows = await dbAll(`
+    SELECT i.*, (SELECT COUNT(*) FROM validators v WHERE v.import_id = i.id) as key_count
+    FROM imports i
+    ORDER BY i.id DESC
+    LIMIT ?
+  `, [Math.min(parseInt(limit, 10) || 50, 500)]);
+  return rows.map(toImport);
+}
+
+async function getImport(id) {
+  return toImport(await getImportRow(id));
+}
+
+function conflict(message) {
+  const error = new Error(message);
+  error.status = 409;
+  return error;
+}
+
+// Undo an import: keys it created are deleted, keys it changed get their previous values back.
+// Refused while later imports still own some of its keys (revert those first); keys rewritten
+// outside imports are left alone and counted as skipped. Runs in one transaction
+function revertImport(id) {
+  return dbTransaction(async () => {
+    const row = await getImportRow(id);
+    if (row.reverted_at) {
+      throw conflict(`Import ${id} was already reverted`);
+    }
+    const later = await dbAll(`
+      SELECT DISTINCT v.import_id
+      FROM import_changes c
+      JOIN validators v ON v.pubkey = c.pubkey
+      WHERE c.import_id = ? AND v.import_id IS NOT NULL AND v.import_id != ?
+      ORDER BY v.import_id DESC
+    `, [id, id]);
+    if (later.length > 0) {
+      throw conflict(`Keys of import ${id} were changed again by import ${later.map(l => `#${l.import_id}`).join(', ')}; revert that first`);
+    }
+
+    const changes = await dbAll('SELECT * FROM import_changes WHERE import_id = ? ORDER BY id', [id]);
+    let deleted = 0;
+    let restored = 0;
+    let skipped = 0;
+    for (const change of changes) {
+      const current = await dbGet('SELECT import_id FROM validators WHERE pubkey = ?', [change.pubkey]);
+      if (!current || current.import_id !== id) {
+        skipped++;
+      } else if (change.action === ACTION_CREATED) {
+        await dbRun('DELETE FROM validators WHERE pubkey = ?', [change.pubkey]);
+        deleted++;
+      } else {
+        const previous = JSON.parse(change.previous);
+        const columns = Object.keys(previous);
+        await dbRun(
+          `UPDATE validators SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE pubkey = ?`,
+          [...columns.map(column => previous[column]), change.pubkey]
+        );
+        restored++;
+      }
+    }
+
+    await dbRun('UPDATE imports SET reverted_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    return { ...(await getImport(id)), deleted, restored, skipped };
+  });
+}
+
+module.exports = {
+  SOURCE_CSV,
+  SOURCE_KEY_FILES,
+  SOURCE_SCRIPT,
+  importValidators,
+  listImports,
+  getImport,
+  revertImport
+};
@@ -0,0 +1,329 @@
+const { dbRun, dbGet, dbAll, dbPrepare, dbTransaction } = require('./db');
+const { submitVoluntaryExit } = require('./beaconApi');
+const { getGenesisTime, SLOTS_PER_EPOCH, SECONDS_PER_SLOT } = require('./stateId');
+const { normalizePubkey } = require('./utils');
+const { getSigningContext, verifyExitSignature } = require('./exitSignatures');
+
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]{192}$/;
+const UINT_PATTERN = /^\d+$/;
+
+// Missing and invalid keys listed in a report are capped at this
+const MAX_REPORT_KEYS = 500;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+async function getCurrentEpoch() {
+  const genesis = await getGenesisTime();
+  return Math.floor((Date.now() / 1000 - genesis) / (SLOTS_PER_EPOCH * SECONDS_PER_SLOT));
+}
+
+// Messages in an uploaded file: one SignedVoluntaryExit, an array of them, or one per line
+function parseExitFile(content, filename) {
+  const text = content.trim();
+  if (!text) return [];
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    try {
+      parsed = text.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+    } catch (lineError) {
+      throw badRequest(`${filename}: not valid JSON`);
+    }
+  }
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+// Shape check of a SignedVoluntaryExit; returns an error message or null
+function checkMessageShape(signedExit) {
+  if (!signedExit || typeof signedExit !== 'object' || !signedExit.message || typeof signedExit.message !== 'object') {
+    return 'Not a SignedVoluntaryExit (expected { message: { epoch, validator_index }, signature })';
+  }
+  const { epoch, validator_index: validatorIndex } = signedExit.message;
+  if (!UINT_PATTERN.test(String(epoch))) return `Invalid epoch: ${epoch}`;
+  if (!UINT_PATTERN.test(String(validatorIndex))) return `Invalid validator_index: ${validatorIndex}`;
+  if (!SIGNATURE_PATTERN.test(String(signedExit.signature))) return 'Invalid signature (expected 96 bytes hex)';
+  return null;
+}
+
+// Attach uploaded SignedVoluntaryExit files ([{ filename, content }]) to an exit batch
+// Each message must match a key of the batch by validator_index (known after a status sync)
+// and its epoch must not precede the key's activation; a later upload replaces the stored message
+// and clears the previous submission result. Every file is parsed and checked before anything is
+// written, and the messages are stored in one transaction
+async function attachVoluntaryExits(batchId, files) {
+  const batch = await dbGet('SELECT id FROM exit_batches WHERE id = ?', [batchId]);
+  if (!batch) {
+    const error = new Error(`Exit batch ${batchId} not found`);
+    error.status = 404;
+    throw error;
+  }
+
+  const rows = await dbAll(`
+    SELECT id, pubkey, validator_index, activation_epoch, exit_epoch
+    FROM exit_validators
+    WHERE batch_id = ? AND validator_index IS NOT NULL
+  `, [batchId]);
+  const rowsByIndex = {};
+  rows.forEach(row => {
+    rowsByIndex[row.validator_index] = row;
+  });
+
+  // A file that is not JSON rejects the whole upload
+  const parsedFiles = files.map(file => ({ filename: file.filename, messages: parseExitFile(file.content, file.filename) }));
+
+  const currentEpoch = await getCurrentEpoch();
+  const results = [];
+  const updates = [];
+  for (const file of parsedFiles) {
+    for (const signedExit of file.messages) {
+      const shapeError = checkMessageShape(signedExit);
+      if (shapeError) {
+        results.push({ file: file.filename, status: 'rejected', error: shapeError });
+        continue;
+      }
+
+      const epoch = parseInt(signedExit.message.epoch, 10);
+      const validatorIndex = parseInt(signedExit.message.validator_index, 10);
+      const result = { file: file.filename, validator_index: validatorIndex, epoch };
+      const row = rowsByIndex[validatorIndex];
+      if (!row) {
+        results.push({ ...result, status: 'rejected', error: `Validator index ${validatorIndex} is not in this batch (sync exit statuses first for new keys)` });
+        continue;
+      }
+      result.pubkey = row.pubkey;
+      if (row.activation_epoch !== null && epoch < row.activation_epoch) {
+        results.push({ ...result, status: 'rejected', error: `Epoch ${epoch} is before the activation epoch ${row.activation_epoch}` });
+        continue;
+      }
+
+      const message = {
+        message: { epoch: String(epoch), validator_index: String(validatorIndex) },
+        signature: signedExit.signature.toLowerCase()
+      };
+      updates.push({ id: row.id, message, epoch });
+
+      // Stored anyway: a future epoch only delays inclusion, an exiting key may be a resubmission
+      let warning;
+      if (row.exit_epoch !== null) warning = `Validator is already exiting (exit epoch ${row.exit_epoch})`;
+      else if (epoch > currentEpoch) warning = `Epoch ${epoch} is in the future, the message is valid from then on`;
+      results.push({ ...result, status: 'attached', ...(warning ? { warning } : {}) });
+    }
+  }
+
+  // Later messages for the same key replace earlier ones, as with separate uploads
+  if (updates.length > 0) {
+    await dbTransaction(async () => {
+      const stmt = dbPrepare(`
+        UPDATE exit_validators
+        SET exit_message = ?, exit_message_epoch = ?, exit_message_uploaded_at = CURRENT_TIMESTAMP,
+            exit_submission_status = NULL, exit_submission_error = NULL, exit_submitted_at = NULL,
+            exit_signature_status = NULL, exit_signature_error = NULL, exit_signature_checked_at = NULL
+        WHERE id = ?
+      `);
+      try {
+        for (const update of updates) {
+          await stmt.run([JSON.stringify(update.message), update.epoch, update.id]);
+        }
+      } finally {
+        await stmt.finalize();
+      }
+    });
+  }
+  const attachedIds = [...new Set(updates.map(update => update.id))];
+
+  // Signatures are checked right away; messages stay stored (unverified) when the node is unreachable
+  let verificationError = null;
+  if (attachedIds.length > 0) {
+    try {
+      const verified = await verifyStoredExits(batchId, { ids: attachedIds });
+      results.forEach(result => {
+        if (result.status === 'attached' && verified.byPubkey[result.pubkey]) {
+          result.signature = verified.byPubkey[result.pubkey].valid ? 'valid' : 'invalid';
+          if (!verified.byPubkey[result.pubkey].valid) result.error = verified.byPubkey[result.pubkey].error;
+        }
+      });
+    } catch (error) {
+      verificationError = error.message;
+    }
+  }
+
+  return {
+    batchId: parseInt(batchId, 10),
+    attached: results.filter(result => result.status === 'attached').length,
+    rejected: results.filter(result => result.status === 'rejected').length,
+    invalidSignatures: results.filter(result => result.signature === 'invalid').length,
+    verificationError,
+    results
+  };
+}
+
+// Check the BLS signatures of stored exit messages of a batch (optionally only the given row ids)
+// Returns { verified, valid, invalid, byPubkey: { pubkey: { valid, error } } }
+async function verifyStoredExits(batchId, { ids } = {}) {
+  const context = await getSigningContext();
+  let where = 'WHERE batch_id = ? AND exit_message IS NOT NULL';
+  const params = [batchId];
+  if (ids) {
+    where += ` AND id IN (${ids.map(() => '?').join(',')})`;
+    params.push(...ids);
+  }
+  const rows = await dbAll(`SELECT id, pubkey, exit_message FROM exit_validators ${where}`, params);
+
+  const byPubkey = {};
+  let valid = 0;
+  for (const row of rows) {
+    const check = verifyExitSignature(row.pubkey, JSON.parse(row.exit_message), context);
+    byPubkey[row.pubkey] = check;
+    if (check.valid) valid += 1;
+    await dbRun(`
+      UPDATE exit_validators
+      SET exit_signature_status = ?, exit_signature_error = ?, exit_signature_checked_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [check.valid ? 'valid' : 'invalid', check.error, row.id]);
+    // Pairings are CPU heavy, let other requests through between them
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  return { verified: rows.length, valid, invalid: rows.length - valid, byPubkey };
+}
+
+// Exit message coverage of a batch: keys without a message, invalid signatures and unverified messages
+async function getExitMessageReport(batchId) {
+  const batch = await dbGet('SELECT id, filename FROM exit_batches WHERE id = ?', [batchId]);
+  if (!batch) {
+    const error = new Error(`Exit batch ${batchId} not found`);
+    error.status = 404;
+    throw error;
+  }
+
+  const counts = await dbGet(`
+    SELECT
+      COUNT(*) as total,
+      SUM(CASE WHEN exit_message IS NOT NULL THEN 1 ELSE 0 END) as with_message,
+      SUM(CASE WHEN exit_signature_status = 'valid' THEN 1 ELSE 0 END) as valid,
+      SUM(CASE WHEN exit_signature_status = 'invalid' THEN 1 ELSE 0 END) as invalid,
+      SUM(CASE WHEN exit_message IS NOT NULL AND exit_signature_status IS NULL THEN 1 ELSE 0 END) as unverified
+    FROM exit_validators
+    WHERE batch_id = ?
+  `, [batchId]);
+  const missing = await dbAll(`
+    SELECT pubkey, validator_index, lifecycle
+    FROM exit_validators
+    WHERE batch_id = ? AND exit_message IS NULL
+    ORDER BY id
+    LIMIT ?
+  `, [batchId, MAX_REPORT_KEYS]);
+  const invalid = await dbAll(`
+    SELECT pubkey, validator_index, exit_message_epoch, exit_signature_error, exit_signature_checked_at
+    FROM exit_validators
+    WHERE batch_id = ? AND exit_signature_status = 'invalid'
+    ORDER BY id
+    LIMIT ?
+  `, [batchId, MAX_REPORT_KEYS]);
+
+  let domain = null;
+  try {
+    const context = await getSigningContext();
+    domain = { network: context.network, forkVersion: context.forkVersion, genesisValidatorsRoot: context.genesisValidatorsRoot };
+  } catch (error) {
+    // Report stays useful from stored results without the beacon node
+  }
+
+  return {
+    batchId: batch.id,
+    filename: batch.filename,
+    total: counts.total || 0,
+    withMessage: counts.with_message || 0,
+    missingCount: (counts.total || 0) - (counts.with_message || 0),
+    valid: counts.valid || 0,
+    invalidCount: counts.invalid || 0,
+    unverified: counts.unverified || 0,
+    domain,
+    missing,
+    invalid
+  };
+}
+
+// Broadcast stored exit messages of a batch (optionally only the given pubkeys) to the beacon node
+// Messages already accepted or with an invalid signature are skipped unless force is set,
+// as are messages whose epoch is not reached yet
+async function submitVoluntaryExits(batchId, { pubkeys, force = false } = {}) {
+  let where = 'WHERE batch_id = ? AND exit_message IS NOT NULL';
+  const params = [batchId];
+  if (pubkeys && pubkeys.length > 0) {
+    const bad = pubkeys.findIndex(pubkey => typeof pubkey !== 'string');
+    if (bad !== -1) {
+      throw badRequest(`pubkeys[${bad}] is not a string: ${JSON.stringify(pubkeys[bad])}`);
+    }
+    where += ` AND pubkey IN (${pubkeys.map(() => '?').join(',')})`;
+    params.push(...pubkeys.map(normalizePubkey));
+  }
+  const rows = await dbAll(`
+    SELECT id, pubkey, validator_index, exit_message, exit_message_epoch, exit_submission_status, exit_signature_status
+    FROM exit_validators
+    ${where}
+    ORDER BY id
+  `, params);
+  if (pubkeys && pubkeys.length > 0 && rows.length === 0) {
+    throw badRequest('No stored exit messages for the given pubkeys in this batch');
+  }
+
+  const currentEpoch = await getCurrentEpoch();
+  const results = [];
+  for (const row of rows) {
+    const result = { pubkey: row.pubkey, validator_index: row.validator_index, epoch: row.exit_message_epoch };
+    if (row.exit_submission_status === 'accepted' && !force) {
+      results.push({ ...result, status: 'skipped', error: 'Already accepted' });
+      continue;
+    }
+    if (row.exit_signature_status === 'invalid' && !force) {
+      results.push({ ...result, status: 'skipped', error: 'Invalid signature' });
+      continue;
+    }
+    if (row.exit_message_epoch > currentEpoch) {
+      results.push({ ...result, status: 'skipped', error: `Epoch ${row.exit_message_epoch} not reached yet (current ${currentEpoch})` });
+      continue;
+    }
+
+    let status;
+    let error = null;
+    try {
+      const outcome = await submitVoluntaryExit(JSON.parse(row.exit_message));
+      status = outcome.accepted ? 'accepted' : 'rejected';
+      error = outcome.error || null;
+    } catch (submitError) {
+      status = 'failed';
+      error = submitError.message;
+    }
+
+    await dbRun(`
+      UPDATE exit_validators
+      SET exit_submission_status = ?, exit_submission_error = ?, exit_submitted_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [status, error, row.id]);
+    results.push({ ...result, status, ...(error ? { error } : {}) });
+  }
+
+  const count = status => results.filter(result => result.status === status).length;
+  return {
+    batchId: parseInt(batchId, 10),
+    total: results.length,
+    accepted: count('accepted'),
+    rejected: count('rejected'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    results
+  };
+}
+
+module.exports = {
+  attachVoluntaryExits,
+  verifyStoredExits,
+  getExitMessageReport,
+  submitVoluntaryExits
+};
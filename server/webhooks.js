@@ -0,0 +1,380 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const { dbAll, dbGet, dbRun } = require('./db');
+const { JOB_FAILED, JOB_PARTIAL } = require('./syncService');
+const { ALERT_SLASHING } = require('./alerts');
+const { MILESTONE_EXITED, MILESTONE_WITHDRAWN } = require('./batchMilestones');
+const { sqlNow } = require('./utils');
+const events = require('./events');
+
+// Outbound webhook delivery: one signed POST per event and webhook, retried with backoff
+// and logged in webhook_deliveries
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10) || 10000;
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) || 6;
+const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS, 10) || 5000;
+const WEBHOOK_RETRY_MAX_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_MS, 10) || 15 * 60 * 1000;
+
+const EVENT_STATUS_TRANSITIONS = 'status_transitions';
+const EVENT_BATCH_EXITED = 'batch_exited';
+const EVENT_BATCH_WITHDRAWN = 'batch_withdrawn';
+const EVENT_SLASHING = 'slashing';
+const EVENT_SYNC_FAILED = 'sync_failed';
+// Only sent by the test endpoint, whatever the webhook subscribes to
+const EVENT_PING = 'ping';
+
+const WEBHOOK_EVENTS = [
+  EVENT_STATUS_TRANSITIONS,
+  EVENT_BATCH_EXITED,
+  EVENT_BATCH_WITHDRAWN,
+  EVENT_SLASHING,
+  EVENT_SYNC_FAILED
+];
+
+const DELIVERY_PENDING = 'pending';
+const DELIVERY_DELIVERED = 'delivered';
+const DELIVERY_FAILED = 'failed';
+
+const MILESTONE_EVENTS = {
+  [MILESTONE_EXITED]: EVENT_BATCH_EXITED,
+  [MILESTONE_WITHDRAWN]: EVENT_BATCH_WITHDRAWN
+};
+
+// deliveryId -> retry timer
+const retryTimers = new Map();
+let listening = false;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function notFound(id) {
+  const error = new Error(`Webhook ${id} not found`);
+  error.status = 404;
+  return error;
+}
+
+// HMAC-SHA256 of the raw request body, sent as X-Webhook-Signature: sha256=<hex>
+function signPayload(secret, body) {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+// Exponential backoff with jitter, attempts counted from 1
+function retryDelay(attempts) {
+  const cap = Math.min(WEBHOOK_RETRY_MAX_MS, WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1));
+  return cap / 2 + Math.random() * (cap / 2);
+}
+
+// Network errors, timeouts, 408, 429 and 5xx are retried; other responses are final
+function isRetryable(error) {
+  if (!error.response) return true;
+  const status = error.response.status;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function describeError(error) {
+  return error.response ? `HTTP ${error.response.status}` : error.message;
+}
+
+// Webhook row for API responses: events as an array, secret left out
+function toWebhook(row) {
+  const { secret, ...webhook } = row;
+  return {
+    ...webhook,
+    events: row.events ? row.events.split(',') : null,
+    enabled: row.enabled === 1
+  };
+}
+
+function parseUrl(url) {
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    throw badRequest('url must be an http(s) URL');
+  }
+  try {
+    return new URL(url).toString();
+  } catch (error) {
+    throw badRequest('url must be an http(s) URL');
+  }
+}
+
+// Comma list of subscribed events, or null for all
+function parseEvents(value) {
+  if (value === undefined || value === null) return null;
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  const names = [...new Set(list.map(name => String(name).trim()).filter(Boolean))];
+  const unknown = names.filter(name => !WEBHOOK_EVENTS.includes(name));
+  if (unknown.length > 0) {
+    throw badRequest(`Unknown events: ${unknown.join(', ')} (expected ${WEBHOOK_EVENTS.join(', ')})`);
+  }
+  return names.length > 0 ? names.join(',') : null;
+}
+
+function parseSecret(value) {
+  if (typeof value !== 'string' || value.length < 16) {
+    throw badRequest('secret must be a string of at least 16 characters');
+  }
+  return value;
+}
+
+async function getWebhookRow(id) {
+  const row = await dbGet('SELECT * FROM webhooks WHERE id = ?', [id]);
+  if (!row) throw notFound(id);
+  return row;
+}
+
+async function listWebhooks() {
+  const rows = await dbAll(`
+    SELECT
+      w.*,
+      (SELECT MAX(d.delivered_at) FROM webhook_deliveries d WHERE d.webhook_id = w.id) as last_delivered_at,
+      (SELECT COUNT(*) FROM webhook_deliveries d WHERE d.webhook_id = w.id AND d.status = '${DELIVERY_FAILED}') as failed_deliveries
+    FROM webhooks w
+    ORDER BY w.id
+  `);
+  return rows.map(toWebhook);
+}
+
+async function getWebhook(id) {
+  return toWebhook(await getWebhookRow(id));
+}
+
+// Register a webhook; a secret is generated when none is given
+// The secret is only returned here, store it on the receiving side
+async function createWebhook({ url, secret, events: eventNames, description, enabled = true } = {}) {
+  const values = {
+    url: parseUrl(url),
+    secret: secret === undefined ? crypto.randomBytes(32).toString('hex') : parseSecret(secret),
+    events: parseEvents(eventNames),
+    description: description || null,
+    enabled: enabled ? 1 : 0
+  };
+  const result = await dbRun(
+    'INSERT INTO webhooks (url, secret, events, description, enabled) VALUES (?, ?, ?, ?, ?)',
+    [values.url, values.secret, values.events, values.description, values.enabled]
+  );
+  return { ...(await getWebhook(result.lastID)), secret: values.secret };
+}
+
+// Update url, secret, events, description and/or enabled
+async function updateWebhook(id, fields = {}) {
+  await getWebhookRow(id);
+  const updates = {};
+  if (fields.url !== undefined) updates.url = parseUrl(fields.url);
+  if (fields.secret !== undefined) updates.secret = parseSecret(fields.secret);
+  if (fields.events !== undefined) updates.events = parseEvents(fields.events);
+  if (fields.description !== undefined) updates.description = fields.description || null;
+  if (fields.enabled !== undefined) updates.enabled = fields.enabled ? 1 : 0;
+
+  const keys = Object.keys(updates);
+  if (keys.length > 0) {
+    await dbRun(
+      `UPDATE webhooks SET ${keys.map(key => `${key} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...keys.map(key => updates[key]), id]
+    );
+  }
+  return getWebhook(id);
+}
+
+// Delete a webhook with its delivery log; pending retries are dropped
+async function deleteWebhook(id) {
+  await getWebhookRow(id);
+  const pending = await dbAll('SELECT id FROM webhook_deliveries WHERE webhook_id = ? AND status = ?', [id, DELIVERY_PENDING]);
+  pending.forEach(({ id: deliveryId }) => {
+    clearTimeout(retryTimers.get(deliveryId));
+    retryTimers.delete(deliveryId);
+  });
+  await dbRun('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [id]);
+  await dbRun('DELETE FROM webhooks WHERE id = ?', [id]);
+}
+
+// Delivery log of a webhook, newest first
+async function listDeliveries(id, { status, limit = 50 } = {}) {
+  await getWebhookRow(id);
+  let where = 'WHERE webhook_id = ?';
+  const params = [id];
+  if (status) {
+    where += ' AND status = ?';
+    params.push(status);
+  }
+  return dbAll(
+    `SELECT * FROM webhook_deliveries ${where} ORDER BY id DESC LIMIT ?`,
+    [...params, Math.min(parseInt(limit, 10) || 50, 500)]
+  );
+}
+
+function scheduleAttempt(deliveryId, delay) {
+  clearTimeout(retryTimers.get(deliveryId));
+  retryTimers.set(deliveryId, setTimeout(() => {
+    retryTimers.delete(deliveryId);
+    attemptDelivery(deliveryId).catch(error => {
+      console.error(`Webhook delivery ${deliveryId} failed:`, error.message);
+    });
+  }, delay));
+}
+
+// POST a delivery once; on a retryable failure the next attempt is scheduled
+async function attemptDelivery(deliveryId) {
+  const delivery = await dbGet(`
+    SELECT d.*, w.url, w.secret, w.enabled
+    FROM webhook_deliveries d
+    JOIN webhooks w ON d.webhook_id = w.id
+    WHERE d.id = ?
+  `, [deliveryId]);
+  if (!delivery || delivery.status !== DELIVERY_PENDING) return null;
+
+  const attempts = delivery.attempts + 1;
+  if (!delivery.enabled) {
+    await dbRun(
+      'UPDATE webhook_deliveries SET status = ?, error = ?, next_attempt_at = NULL WHERE id = ?',
+      [DELIVERY_FAILED, 'Webhook disabled', deliveryId]
+    );
+    return DELIVERY_FAILED;
+  }
+
+  try {
+    const response = await axios.post(delivery.url, delivery.payload, {
+      timeout: WEBHOOK_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ethereum-exit-status-webhooks',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Signature': signPayload(delivery.secret, delivery.payload)
+      },
+      // Send the stored body byte for byte so the signature matches
+      transformRequest: [data => data],
+      maxRedirects: 0
+    });
+    await dbRun(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, error = NULL, next_attempt_at = NULL, delivered_at = ?
+      WHERE id = ?
+    `, [DELIVERY_DELIVERED, attempts, response.status, sqlNow(), deliveryId]);
+    return DELIVERY_DELIVERED;
+  } catch (error) {
+    const responseStatus = error.response ? error.response.status : null;
+    const retry = attempts < WEBHOOK_MAX_ATTEMPTS && isRetryable(error);
+    const delay = retry ? retryDelay(attempts) : null;
+    await dbRun(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, error = ?, next_attempt_at = ?
+      WHERE id = ?
+    `, [
+      retry ? DELIVERY_PENDING : DELIVERY_FAILED,
+      attempts,
+      responseStatus,
+      describeError(error),
+      retry ? sqlNow(new Date(Date.now() + delay)) : null,
+      deliveryId
+    ]);
+    if (retry) {
+      console.warn(`Webhook delivery ${deliveryId} (${delivery.event}) attempt ${attempts} failed: ${describeError(error)}; retrying in ${Math.round(delay / 1000)}s`);
+      scheduleAttempt(deliveryId, delay);
+      return DELIVERY_PENDING;
+    }
+    console.warn(`Webhook delivery ${deliveryId} (${delivery.event}) failed after ${attempts} attempts: ${describeError(error)}`);
+    return DELIVERY_FAILED;
+  }
+}
+
+async function enqueueDelivery(webhookId, event, data) {
+  const payload = JSON.stringify({ event, created_at: new Date().toISOString(), data });
+  const result = await dbRun(
+    'INSERT INTO webhook_deliveries (webhook_id, event, payload, status) VALUES (?, ?, ?, ?)',
+    [webhookId, event, payload, DELIVERY_PENDING]
+  );
+  return result.lastID;
+}
+
+// Queue an event for every enabled webhook subscribed to it and send the first attempts
+async function dispatchEvent(event, data) {
+  const webhooks = await dbAll('SELECT id, events FROM webhooks WHERE enabled = 1');
+  const subscribed = webhooks.filter(webhook => !webhook.events || webhook.events.split(',').includes(event));
+  for (const webhook of subscribed) {
+    const deliveryId = await enqueueDelivery(webhook.id, event, data);
+    attemptDelivery(deliveryId).catch(error => {
+      console.error(`Webhook delivery ${deliveryId} failed:`, error.message);
+    });
+  }
+  return subscribed.length;
+}
+
+// Send a ping to one webhook and wait for the first attempt; returns the delivery row
+async function sendTestDelivery(id) {
+  const webhook = await getWebhookRow(id);
+  const deliveryId = await enqueueDelivery(webhook.id, EVENT_PING, { webhook_id: webhook.id });
+  await attemptDelivery(deliveryId);
+  return dbGet('SELECT * FROM webhook_deliveries WHERE id = ?', [deliveryId]);
+}
+
+// Reschedule deliveries left pending by a restart
+async function resumePendingDeliveries() {
+  const pending = await dbAll('SELECT id, next_attempt_at FROM webhook_deliveries WHERE status = ?', [DELIVERY_PENDING]);
+  pending.forEach(({ id, next_attempt_at: nextAttemptAt }) => {
+    const due = nextAttemptAt ? Date.parse(nextAttemptAt.replace(' ', 'T') + 'Z') : Date.now();
+    scheduleAttempt(id, Math.max(0, due - Date.now()));
+  });
+  return pending.length;
+}
+
+function dispatchInBackground(event, data) {
+  dispatchEvent(event, data).catch(error => {
+    console.error(`Failed to dispatch ${event} webhooks:`, error.message);
+  });
+}
+
+// Forward event bus activity to webhooks
+function startWebhookNotifications() {
+  if (listening) return;
+  listening = true;
+
+  events.on('status-transitions', payload => {
+    if (payload.transitions.length > 0) {
+      dispatchInBackground(EVENT_STATUS_TRANSITIONS, payload);
+    }
+  });
+
+  events.on('alerts', alerts => {
+    const slashings = alerts.filter(alert => alert.type === ALERT_SLASHING);
+    if (slashings.length > 0) {
+      dispatchInBackground(EVENT_SLASHING, { alerts: slashings });
+    }
+  });
+
+  events.on('batch-milestones', milestones => {
+    milestones.forEach(milestone => {
+      dispatchInBackground(MILESTONE_EVENTS[milestone.milestone], milestone);
+    });
+  });
+
+  // A job whose fetches failed still runs through all its batches; it ends failed (no key synced,
+  // e.g. every beacon node down) or partial (some keys failed), and both are reported
+  events.on('sync-job', job => {
+    if (job && (job.status === JOB_FAILED || job.status === JOB_PARTIAL)) {
+      dispatchInBackground(EVENT_SYNC_FAILED, job);
+    }
+  });
+
+  resumePendingDeliveries()
+    .then(count => {
+      if (count > 0) console.log(`Resuming ${count} pending webhook deliveries`);
+    })
+    .catch(error => {
+      console.error('Failed to resume webhook deliveries:', error.message);
+    });
+}
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  signPayload,
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listDeliveries,
+  dispatchEvent,
+  sendTestDelivery,
+  startWebhookNotifications
+};
@@ -0,0 +1,124 @@
+const { dbAll, dbRun } = require('./db');
+const { getExitQueueInfo, getBlockAtOrBefore, lastWithdrawalIndex } = require('./exitQueueService');
+const { getGenesisTime, SLOTS_PER_EPOCH, SECONDS_PER_SLOT } = require('./stateId');
+const { SOURCE_EXIT } = require('./statusHistory');
+const { isJobSynced, isLiveJob } = require('./syncService');
+const events = require('./events');
+
+// Withdrawn validators looked up per run; each lookup reads about 20 blocks
+const SWEEP_LOOKUPS_PER_RUN = 25;
+
+let running = null;
+let listening = false;
+
+function slotToIso(slot, genesisTime) {
+  return new Date((genesisTime + slot * SECONDS_PER_SLOT) * 1000).toISOString();
+}
+
+function findWithdrawal(block, validatorIndex) {
+  const withdrawals = (block.body.execution_payload && block.body.execution_payload.withdrawals) || [];
+  return withdrawals.find(withdrawal => parseInt(withdrawal.validator_index, 10) === validatorIndex) || null;
+}
+
+// Block holding the full withdrawal of a validator, or null when it cannot be located
+// The sweep visits validator indices in order, so its distance from where it stood at the
+// withdrawable epoch grows with the slot until it completes a cycle; bisect on that distance
+async function findSweepBlock(validatorIndex, withdrawableEpoch, context) {
+  const startSlot = withdrawableEpoch * SLOTS_PER_EPOCH;
+  if (startSlot > context.headSlot) return null;
+
+  const startBlock = await getBlockAtOrBefore(startSlot);
+  const startIndex = lastWithdrawalIndex(startBlock);
+  if (startIndex === null) return null;
+
+  const count = context.validatorCount;
+  const target = (validatorIndex - startIndex + count) % count;
+  let low = parseInt(startBlock.slot, 10);
+  let high = Math.min(context.headSlot, low + context.cycleSlots);
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    const block = await getBlockAtOrBefore(mid);
+    const index = lastWithdrawalIndex(block);
+    if (index === null) return null;
+    if ((index - startIndex + count) % count >= target) high = mid;
+    else low = mid;
+  }
+
+  const block = await getBlockAtOrBefore(high);
+  const withdrawal = findWithdrawal(block, validatorIndex);
+  return withdrawal ? { slot: parseInt(block.slot, 10), amount: parseInt(withdrawal.amount, 10) } : null;
+}
+
+// Record the final sweep of exit validators that reached withdrawal_done and have none recorded yet
+// Returns { checked, fromBlocks, fromBalance } or null when sweep figures are not available yet
+async function recordWithdrawalSweeps() {
+  const queue = await getExitQueueInfo();
+  if (!queue.validator_count || !queue.sweep_delay_seconds) {
+    return null;
+  }
+  const genesisTime = await getGenesisTime();
+  const context = {
+    headSlot: Math.floor((Date.now() / 1000 - genesisTime) / SECONDS_PER_SLOT),
+    validatorCount: queue.validator_count,
+    cycleSlots: Math.ceil(queue.sweep_delay_seconds / SECONDS_PER_SLOT)
+  };
+
+  // One lookup per pubkey, the result is written to every batch row of the key
+  const pending = await dbAll(`
+    SELECT pubkey, MIN(validator_index) as validator_index, MIN(withdrawable_epoch) as withdrawable_epoch
+    FROM exit_validators
+    WHERE lifecycle = 'withdrawn' AND withdrawal_source IS NULL
+      AND validator_index IS NOT NULL AND withdrawable_epoch IS NOT NULL
+    GROUP BY pubkey
+    LIMIT ?
+  `, [SWEEP_LOOKUPS_PER_RUN]);
+
+  let fromBlocks = 0;
+  for (const row of pending) {
+    const sweep = await findSweepBlock(row.validator_index, row.withdrawable_epoch, context);
+    if (sweep) {
+      await dbRun(`
+        UPDATE exit_validators
+        SET withdrawn_amount = ?, withdrawn_slot = ?, withdrawn_at = ?, withdrawal_source = 'block'
+        WHERE pubkey = ?
+      `, [sweep.amount, sweep.slot, slotToIso(sweep.slot, genesisTime), row.pubkey]);
+      fromBlocks += 1;
+    } else {
+      // Keep the balance captured during sync; the sweep happened at some slot before this one,
+      // so only the slot it was seen by is recorded
+      await dbRun(`
+        UPDATE exit_validators
+        SET withdrawn_seen_slot = ?, withdrawal_source = 'balance'
+        WHERE pubkey = ?
+      `, [context.headSlot, row.pubkey]);
+    }
+  }
+
+  return { checked: pending.length, fromBlocks, fromBalance: pending.length - fromBlocks };
+}
+
+// Look for new sweeps after every exit list sync that wrote current statuses (completed or partial, not at a past state)
+function startWithdrawalSweepDetection() {
+  if (listening) return;
+  listening = true;
+  events.on('sync-job', job => {
+    if (!job || job.type !== SOURCE_EXIT || !isJobSynced(job) || !isLiveJob(job) || running) return;
+    running = recordWithdrawalSweeps()
+      .then(result => {
+        if (result && result.checked > 0) {
+          console.log(`Withdrawal sweeps: ${result.fromBlocks} found in blocks, ${result.fromBalance} from balance`);
+        }
+      })
+      .catch(error => {
+        console.warn('Withdrawal sweep detection failed:', error.message);
+      })
+      .finally(() => {
+        running = null;
+      });
+  });
+}
+
+module.exports = {
+  recordWithdrawalSweeps,
+  startWithdrawalSweepDetection
+};